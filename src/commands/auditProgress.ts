@@ -0,0 +1,33 @@
+import * as vscode from 'vscode';
+import { PythonExecutor } from '../utils/pythonExecutor';
+import { AuditReport, SecurityAudit } from '../utils/securityAudit';
+
+/**
+ * Audit an environment under a progress notification.
+ * Resolves to undefined, after showing the error, when the advisories cannot be read.
+ */
+export async function auditWithProgress(securityAudit: SecurityAudit, pythonExecutor: PythonExecutor): Promise<AuditReport | undefined> {
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Auditing packages against ${securityAudit.database.description}...`,
+        cancellable: false
+    }, async () => {
+        try {
+            return await securityAudit.audit(pythonExecutor);
+        } catch (error) {
+            pythonExecutor.outputChannel.appendLine(`Error auditing the environment: ${error}`);
+            vscode.window.showErrorMessage(`Error auditing the environment: ${error}`);
+            return undefined;
+        }
+    });
+}
+
+/**
+ * A one-line summary of an audit, for messages and the dashboard
+ */
+export function describeAuditReport(report: AuditReport): string {
+    const advisories = report.vulnerable.reduce((count, pkg) => count + pkg.advisories.length, 0);
+    return report.vulnerable.length
+        ? `${report.vulnerable.length} of ${report.packageCount} package(s) affected by ${advisories} advisory(ies)`
+        : `No known advisories affect the ${report.packageCount} installed package(s)`;
+}
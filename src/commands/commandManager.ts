@@ -1,35 +1,83 @@
 import * as vscode from 'vscode';
-import { PythonExecutor } from '../utils/pythonExecutor';
+import * as path from 'path';
+import { EnvironmentInfo, PackageInfo, PackageTransfer, PythonExecutor } from '../utils/pythonExecutor';
+import { PackageIndex } from '../utils/packageIndex';
+import {
+    FREEZE_EXCLUDED_BY_DEFAULT,
+    collectHashes,
+    formatJsonManifest,
+    formatRequirementsLock,
+    toFrozenPackage
+} from '../utils/environmentExport';
+import { findOrphanedDependencies, normalizePackageName } from '../utils/dependencyGraph';
+import { validateRequirementInput } from '../utils/pep508';
+import { findDeclaredPackageNames, findOrphanPackages } from '../utils/orphans';
+import { diffRequirements } from '../utils/requirementsDiff';
+import { computeRestorePlan, frozenPackagesToRequirements, readRestoreSource } from '../utils/restorePlan';
+import { RequirementsFile } from '../utils/requirementsFile';
+import { PipingRestorePlanPanel } from '../panels/restorePlanPanel';
 import { PipingPackageProvider, PackageTreeItem } from '../providers/packageProvider';
+import { ENVIRONMENT_KIND_LABELS, isDisposableEnvironment } from '../utils/environmentDiscovery';
 import { PipingEnvironmentProvider, EnvironmentTreeItem } from '../providers/environmentProvider';
+import { WorkspaceFolderTreeItem } from '../providers/workspaceFolderTreeItem';
+import { WorkspaceExecutors } from '../utils/workspaceExecutors';
+import { SnapshotTreeItem } from '../providers/historyProvider';
+import { confirmInstallPreview } from './installPreview';
+import { addToPyproject, askPyprojectTarget, removeFromPyproject } from './pyprojectPrompts';
+import { confirmUninstall } from './uninstallConfirmation';
+import { askCreateEnvironmentOptions, askFolder, askInterpreter, seedRequirementLines } from './createEnvironmentWizard';
+import { withPipProgress } from './operationProgress';
+import { auditWithProgress, describeAuditReport } from './auditProgress';
+import { exportLicenseInventory } from './licenseExport';
+import { SecurityAudit } from '../utils/securityAudit';
+import { PipingDashboardPanel } from '../panels/dashboardPanel';
 
 export class PipingCommandManager {
     constructor(
         private context: vscode.ExtensionContext,
-        private pythonExecutor: PythonExecutor,
+        private executors: WorkspaceExecutors,
         private packageProvider: PipingPackageProvider,
-        private environmentProvider: PipingEnvironmentProvider
+        private environmentProvider: PipingEnvironmentProvider,
+        private packageIndex: PackageIndex,
+        private securityAudit: SecurityAudit
     ) {}
 
     /**
-     * Install a Python package
+     * Install a Python package into the environment of a workspace folder, by default
+     * the folder of the active editor
      */
-    public async installPackage(): Promise<void> {
-        const packageName = await vscode.window.showInputBox({
+    public async installPackage(packageSpec?: string, folder?: vscode.WorkspaceFolder): Promise<void> {
+        const pythonExecutor = this.executorFor(folder);
+        const packageName = packageSpec || await vscode.window.showInputBox({
             placeHolder: 'Enter package name (e.g., requests==2.28.1 or just requests)',
-            prompt: 'Specify a package name and optionally a version'
+            prompt: 'Specify a package name and optionally a version',
+            validateInput: validateRequirementInput
         });
 
         if (!packageName) {
             return;
         }
 
-        // Show progress notification
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: `Installing ${packageName}...`,
-            cancellable: false
-        }, async () => {
+        // Specs from other commands, such as the import quick fix, are checked as well
+        const problem = validateRequirementInput(packageName);
+        if (problem) {
+            vscode.window.showErrorMessage(problem);
+            return;
+        }
+
+        // Show what pip would change before anything is installed
+        if (!await confirmInstallPreview(pythonExecutor, [packageName])) {
+            return;
+        }
+
+        // Offer to declare the package when the folder has a pyproject.toml
+        const pyprojectTarget = await askPyprojectTarget(pythonExecutor.folder);
+        if (!pyprojectTarget) {
+            return;
+        }
+
+        // Show pip's progress in a cancellable notification
+        await withPipProgress(`Installing ${packageName}`, async (operation) => {
             let packageNameOnly = packageName;
             let version: string | undefined;
 
@@ -42,12 +90,16 @@ export class PipingCommandManager {
 
             try {
                 // Install the package
-                const success = await this.pythonExecutor.installPackage(packageNameOnly, version);
+                const success = await pythonExecutor.installPackage(packageNameOnly, version, operation);
                 
                 if (success) {
                     vscode.window.showInformationMessage(`Successfully installed ${packageName}`);
+                    await addToPyproject(pyprojectTarget, packageName);
                     // Refresh the package list
                     this.packageProvider.refresh();
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled installing ${packageName}`);
+                    this.packageProvider.refresh();
                 } else {
                     vscode.window.showErrorMessage(`Failed to install ${packageName}`);
                 }
@@ -61,55 +113,55 @@ export class PipingCommandManager {
      * Uninstall a Python package
      */
     public async uninstallPackage(packageItem?: PackageTreeItem): Promise<void> {
+        const pythonExecutor = this.executorFor(packageItem?.folder);
+        let packageName = packageItem ? packageItem.packageInfo.name : '';
+
         // If no package item is provided, ask the user to select one
         if (!packageItem) {
-            const packageName = await vscode.window.showInputBox({
+            const inputName = await vscode.window.showInputBox({
                 placeHolder: 'Enter package name to uninstall',
                 prompt: 'Specify a package name to uninstall'
             });
 
-            if (!packageName) {
+            if (!inputName) {
                 return;
             }
 
             // Find the package in our list
-            const pkg = this.packageProvider.getPackageByName(packageName);
+            const pkg = await this.findInstalledPackage(pythonExecutor, inputName);
             if (!pkg) {
-                vscode.window.showWarningMessage(`Package ${packageName} not found in current environment`);
+                vscode.window.showWarningMessage(`Package ${inputName} not found in current environment`);
                 return;
             }
+            packageName = pkg.name;
         }
-
-        const packageName = packageItem ? packageItem.packageInfo.name : '';
         
-        // Confirm with the user
-        const confirmation = await vscode.window.showWarningMessage(
-            `Are you sure you want to uninstall ${packageName}?`,
-            { modal: true },
-            'Yes',
-            'No'
-        );
-
-        if (confirmation !== 'Yes') {
+        // Confirm with the user, warning about packages that depend on this one
+        const choice = await confirmUninstall(pythonExecutor, packageName);
+        if (!choice) {
             return;
         }
 
+        const removed = choice.packages.join(', ');
+
         // Show progress notification
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: `Uninstalling ${packageName}...`,
-            cancellable: false
-        }, async () => {
+        await withPipProgress(`Uninstalling ${removed}`, async (operation) => {
             try {
-                // Uninstall the package
-                const success = await this.pythonExecutor.uninstallPackage(packageName);
+                // Uninstall the package along with any dependencies the user chose to drop
+                const success = await pythonExecutor.uninstallPackages(choice.packages, operation);
                 
                 if (success) {
-                    vscode.window.showInformationMessage(`Successfully uninstalled ${packageName}`);
+                    vscode.window.showInformationMessage(`Successfully uninstalled ${removed}`);
+                    if (choice.removeFromPyproject) {
+                        await removeFromPyproject(choice.removeFromPyproject, packageName);
+                    }
                     // Refresh the package list
                     this.packageProvider.refresh();
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled uninstalling ${removed}`);
+                    this.packageProvider.refresh();
                 } else {
-                    vscode.window.showErrorMessage(`Failed to uninstall ${packageName}`);
+                    vscode.window.showErrorMessage(`Failed to uninstall ${removed}`);
                 }
             } catch (error) {
                 vscode.window.showErrorMessage(`Error uninstalling ${packageName}: ${error}`);
@@ -117,45 +169,115 @@ export class PipingCommandManager {
         });
     }
 
+    /**
+     * List packages that nothing requires or declares and remove the ones the user picks
+     */
+    public async findOrphans(): Promise<void> {
+        const pythonExecutor = this.executors.active;
+        const orphans = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Window,
+            title: 'Looking for orphaned packages...'
+        }, async () => findOrphanPackages(
+            await pythonExecutor.getInstalledPackages(),
+            await findDeclaredPackageNames(pythonExecutor.outputChannel, pythonExecutor.folder)
+        ));
+
+        if (!orphans.length) {
+            vscode.window.showInformationMessage('No orphaned packages found');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            orphans.map(pkg => ({
+                label: pkg.name,
+                description: pkg.version,
+                detail: pkg.requires?.length ? `Requires: ${pkg.requires.join(', ')}` : undefined,
+                pkg
+            })),
+            {
+                canPickMany: true,
+                placeHolder: `${orphans.length} package(s) are not required by another package or declared in the workspace. Select the ones to remove`
+            }
+        );
+        if (!selected || !selected.length) {
+            return;
+        }
+
+        // Removing an orphan can leave its own dependencies unused
+        const names = selected.map(item => item.pkg.name);
+        const dependencies = findOrphanedDependencies(await pythonExecutor.getDependencyGraph(), names);
+        const uninstallOption = 'Uninstall';
+        const withDependenciesOption = 'Also Remove Unused Dependencies';
+        const confirmation = await vscode.window.showWarningMessage(
+            `Uninstall ${names.length} orphaned package(s)?`,
+            {
+                modal: true,
+                detail: dependencies.length
+                    ? `${names.join(', ')}\n\nNo longer needed afterwards: ${dependencies.map(node => node.name).join(', ')}`
+                    : names.join(', ')
+            },
+            ...(dependencies.length ? [uninstallOption, withDependenciesOption] : [uninstallOption])
+        );
+        if (!confirmation) {
+            return;
+        }
+
+        const packages = confirmation === withDependenciesOption
+            ? [...names, ...dependencies.map(node => node.name)]
+            : names;
+
+        await withPipProgress(`Uninstalling ${packages.length} package(s)`, async (operation) => {
+            if (await pythonExecutor.uninstallPackages(packages, operation)) {
+                vscode.window.showInformationMessage(`Successfully uninstalled ${packages.join(', ')}`);
+            } else if (operation.token.isCancellationRequested) {
+                vscode.window.showInformationMessage('Cancelled uninstalling the orphaned packages');
+            } else {
+                vscode.window.showErrorMessage('Failed to uninstall the orphaned packages. See output channel for details.');
+            }
+            this.packageProvider.refresh();
+        });
+    }
+
     /**
      * Update a Python package
      */
     public async updatePackage(packageItem?: PackageTreeItem): Promise<void> {
+        const pythonExecutor = this.executorFor(packageItem?.folder);
+        let packageName = packageItem ? packageItem.packageInfo.name : '';
+
         // If no package item is provided, ask the user to select one
         if (!packageItem) {
-            const packageName = await vscode.window.showInputBox({
+            const inputName = await vscode.window.showInputBox({
                 placeHolder: 'Enter package name to update',
                 prompt: 'Specify a package name to update'
             });
 
-            if (!packageName) {
+            if (!inputName) {
                 return;
             }
 
-            // Find the package in our list
-            const pkg = this.packageProvider.getPackageByName(packageName);
+            // Find the package in our list, which only holds valid names
+            const pkg = await this.findInstalledPackage(pythonExecutor, inputName);
             if (!pkg) {
-                vscode.window.showWarningMessage(`Package ${packageName} not found in current environment`);
+                vscode.window.showWarningMessage(`Package ${inputName} not found in current environment`);
                 return;
             }
+            packageName = pkg.name;
         }
-
-        const packageName = packageItem ? packageItem.packageInfo.name : '';
         
         // Show progress notification
-        await vscode.window.withProgress({
-            location: vscode.ProgressLocation.Notification,
-            title: `Updating ${packageName}...`,
-            cancellable: false
-        }, async () => {
+        await withPipProgress(`Updating ${packageName}`, async (operation) => {
             try {
                 // Update the package
-                const success = await this.pythonExecutor.updatePackage(packageName);
+                const success = await pythonExecutor.updatePackage(packageName, operation);
                 
                 if (success) {
                     vscode.window.showInformationMessage(`Successfully updated ${packageName}`);
                     // Refresh the package list
                     this.packageProvider.refresh();
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled updating ${packageName}`);
+                    this.packageProvider.refresh();
                 } else {
                     vscode.window.showErrorMessage(`Failed to update ${packageName}`);
                 }
@@ -166,30 +288,324 @@ export class PipingCommandManager {
     }
 
     /**
-     * Create a new virtual environment
+     * Check the packages of an environment against OSV advisories and flag the affected ones
      */
-    public async createEnvironment(): Promise<void> {
-        const envName = await vscode.window.showInputBox({
-            placeHolder: 'venv (default)',
-            prompt: 'Enter virtual environment name',
-            value: 'venv'
+    public async auditEnvironment(folder?: vscode.WorkspaceFolder): Promise<void> {
+        const pythonExecutor = this.executorFor(folder);
+        const report = await auditWithProgress(this.securityAudit, pythonExecutor);
+        if (!report) {
+            return;
+        }
+
+        if (!report.vulnerable.length) {
+            vscode.window.showInformationMessage(describeAuditReport(report));
+            return;
+        }
+        const choice = await vscode.window.showWarningMessage(describeAuditReport(report), 'Show Details');
+        if (choice) {
+            await vscode.commands.executeCommand('piping.openDashboard');
+            PipingDashboardPanel.currentPanel?.showSecurityAudit();
+        }
+    }
+
+    /**
+     * Install the nearest version of a flagged package that no known advisory affects
+     */
+    public async upgradeToSafeVersion(packageItem?: PackageTreeItem): Promise<void> {
+        const vulnerability = packageItem?.vulnerability;
+        if (!packageItem || !vulnerability) {
+            vscode.window.showWarningMessage('Run Piping: Audit Environment to find the packages advisories affect');
+            return;
+        }
+
+        const name = packageItem.packageInfo.name;
+        const safeVersion = vulnerability.safeVersion;
+        if (!safeVersion) {
+            vscode.window.showWarningMessage(`No version of ${name} is known to fix ${vulnerability.advisories.map(advisory => advisory.id).join(', ')}`);
+            return;
+        }
+
+        const pythonExecutor = this.executorFor(packageItem.folder);
+        if (!await confirmInstallPreview(pythonExecutor, [`${name}==${safeVersion}`])) {
+            return;
+        }
+
+        const upgraded = await withPipProgress(`Upgrading ${name} to ${safeVersion}`, async (operation) => {
+            try {
+                const success = await pythonExecutor.installPackage(name, safeVersion, operation);
+
+                if (success) {
+                    vscode.window.showInformationMessage(`Successfully upgraded ${name} to ${safeVersion}`);
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled upgrading ${name}`);
+                } else {
+                    vscode.window.showErrorMessage(`Failed to upgrade ${name} to ${safeVersion}`);
+                }
+                this.packageProvider.refresh();
+                return success;
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error upgrading ${name}: ${error}`);
+                return false;
+            }
         });
 
-        if (!envName) {
+        // The upgrade can bring in other versions of dependencies too
+        if (upgraded) {
+            await auditWithProgress(this.securityAudit, pythonExecutor);
+        }
+    }
+
+    /**
+     * Write the license of every package in an environment to a CSV or JSON file
+     */
+    public async exportLicenseInventory(folder?: vscode.WorkspaceFolder): Promise<void> {
+        await exportLicenseInventory(this.executorFor(folder));
+    }
+
+    /**
+     * Write the exact versions of the active environment to a lock file
+     */
+    public async freezeEnvironment(): Promise<void> {
+        const pythonExecutor = this.executors.active;
+        const packages = await pythonExecutor.getInstalledPackages();
+        if (!packages.length) {
+            vscode.window.showWarningMessage('No installed packages found to freeze');
+            return;
+        }
+
+        const formats = [
+            { label: 'requirements.txt', description: 'Pinned versions', format: 'requirements', fileName: 'requirements.lock.txt' },
+            { label: 'requirements.txt with hashes', description: 'Pinned versions with --hash lines from the package index', format: 'hashes', fileName: 'requirements.lock.txt' },
+            { label: 'JSON manifest', description: 'Versions, installers and dependencies', format: 'json', fileName: 'piping-environment.json' }
+        ];
+        const format = await vscode.window.showQuickPick(formats, { placeHolder: 'Select the lock file format' });
+        if (!format) {
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(
+            [...packages]
+                .sort((a, b) => a.name.localeCompare(b.name))
+                .map(pkg => ({
+                    label: pkg.name,
+                    description: pkg.version,
+                    picked: !FREEZE_EXCLUDED_BY_DEFAULT.includes(normalizePackageName(pkg.name)),
+                    pkg
+                })),
+            { canPickMany: true, placeHolder: 'Select the packages to include' }
+        );
+        if (!selected || !selected.length) {
+            return;
+        }
+
+        const workspaceFolder = pythonExecutor.folder;
+        const target = await vscode.window.showSaveDialog({
+            defaultUri: workspaceFolder ? vscode.Uri.joinPath(workspaceFolder.uri, format.fileName) : undefined,
+            filters: format.format === 'json' ? { 'JSON': ['json'] } : { 'Requirements': ['txt'] }
+        });
+        if (!target) {
             return;
         }
 
-        // Show progress notification
         await vscode.window.withProgress({
             location: vscode.ProgressLocation.Notification,
-            title: `Creating virtual environment '${envName}'...`,
+            title: 'Freezing environment',
             cancellable: false
-        }, async () => {
+        }, async (progress) => {
+            try {
+                const chosen = selected.map(item => item.pkg);
+                let hashes = new Map<string, string[]>();
+
+                if (format.format === 'hashes') {
+                    let reported = 0;
+                    hashes = await collectHashes(this.packageIndex, chosen, (done, total) => {
+                        const increment = (done - reported) / total * 100;
+                        reported = done;
+                        progress.report({ message: `Looking up hashes (${done}/${total})...`, increment });
+                    });
+                }
+
+                const frozen = chosen.map(pkg => toFrozenPackage(pkg, hashes.get(pkg.name)));
+                const environment = pythonExecutor.currentEnv;
+                let content: string;
+
+                if (format.format === 'json') {
+                    const markers = await pythonExecutor.getMarkerEnvironment().catch(() => undefined);
+                    content = formatJsonManifest(frozen, environment, {
+                        pythonVersion: markers?.python_full_version,
+                        platform: markers?.sys_platform
+                    });
+                } else {
+                    content = formatRequirementsLock(frozen, format.format === 'hashes', [
+                        `Generated by Piping from ${environment ? environment.path : 'the global Python environment'}`,
+                        `on ${new Date().toISOString()}`
+                    ]);
+                }
+
+                await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+
+                const missingHashes = format.format === 'hashes'
+                    ? frozen.filter(pkg => !pkg.hashes && !pkg.directUrl?.editable).map(pkg => pkg.name)
+                    : [];
+                if (missingHashes.length) {
+                    vscode.window.showWarningMessage(`Wrote ${path.basename(target.fsPath)}, but no hashes were found for: ${missingHashes.join(', ')}`);
+                } else {
+                    vscode.window.showInformationMessage(`Froze ${frozen.length} packages to ${path.basename(target.fsPath)}`);
+                }
+            } catch (error) {
+                vscode.window.showErrorMessage(`Error freezing environment: ${error}`);
+            }
+        });
+    }
+
+    /**
+     * Bring the active environment of the lock file's folder in line with it, after previewing the plan
+     */
+    public async restoreEnvironment(fileUri?: vscode.Uri): Promise<void> {
+        if (!fileUri) {
+            const picked = await vscode.window.showOpenDialog({
+                canSelectMany: false,
+                defaultUri: this.executors.active.folder?.uri,
+                filters: { 'Lock files': ['txt', 'json'] },
+                openLabel: 'Restore'
+            });
+            if (!picked || !picked.length) {
+                return;
+            }
+            fileUri = picked[0];
+        }
+
+        try {
+            const source = await readRestoreSource(fileUri.fsPath);
+            await this.showRestorePlan(this.executors.forUri(fileUri), source, path.basename(fileUri.fsPath));
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error reading ${path.basename(fileUri.fsPath)}: ${error}`);
+        }
+    }
+
+    /**
+     * Roll the active environment back to a snapshot, after previewing the plan
+     */
+    public async rollbackSnapshot(snapshotItem?: SnapshotTreeItem): Promise<void> {
+        // The history view shows the snapshots of the active folder's environment
+        const pythonExecutor = this.executors.active;
+        const snapshotStore = pythonExecutor.snapshotStore;
+        if (!snapshotStore) {
+            return;
+        }
+
+        let snapshot = snapshotItem?.snapshot;
+        if (!snapshot) {
+            const snapshots = await snapshotStore.list(await pythonExecutor.getEnvironmentKey());
+            if (!snapshots.length) {
+                vscode.window.showInformationMessage('No snapshots have been recorded for this environment yet');
+                return;
+            }
+
+            const picked = await vscode.window.showQuickPick(
+                snapshots.map(item => ({
+                    label: item.reason,
+                    description: new Date(item.createdAt).toLocaleString(),
+                    snapshot: item
+                })),
+                { placeHolder: 'Select the snapshot to roll back to' }
+            );
+            if (!picked) {
+                return;
+            }
+            snapshot = picked.snapshot;
+        }
+
+        try {
+            const label = `snapshot of ${new Date(snapshot.createdAt).toLocaleString()}`;
+            await this.showRestorePlan(pythonExecutor, frozenPackagesToRequirements(snapshot.packages, label), label);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error rolling back: ${error}`);
+        }
+    }
+
+    /**
+     * Forget the snapshots of the active environment
+     */
+    public async clearHistory(): Promise<void> {
+        const pythonExecutor = this.executors.active;
+        const snapshotStore = pythonExecutor.snapshotStore;
+        if (!snapshotStore) {
+            return;
+        }
+
+        const confirmation = await vscode.window.showWarningMessage(
+            'Delete all snapshots of the active environment?',
+            { modal: true },
+            'Delete'
+        );
+        if (confirmation === 'Delete') {
+            await snapshotStore.clear(await pythonExecutor.getEnvironmentKey());
+        }
+    }
+
+    /**
+     * Compare the environment with a target package set and show the plan to get there
+     */
+    private async showRestorePlan(pythonExecutor: PythonExecutor, source: RequirementsFile, label: string): Promise<void> {
+        const [installed, markers] = await Promise.all([
+            pythonExecutor.getInstalledPackages(),
+            pythonExecutor.getMarkerEnvironment()
+        ]);
+
+        const diff = diffRequirements(source, installed, markers);
+        const plan = computeRestorePlan(diff);
+        const notes = [
+            ...source.problems.map(problem => `${path.basename(problem.file)}:${problem.line}: ${problem.message}`),
+            ...diff
+                .filter(entry => entry.editable && entry.status !== 'satisfied')
+                .map(entry => `${entry.name} is an editable install and is not changed by the plan`)
+        ];
+
+        if (!plan.length) {
+            vscode.window.showInformationMessage(`The environment already matches ${label}`);
+            return;
+        }
+
+        PipingRestorePlanPanel.show(
+            pythonExecutor,
+            `Restore: ${label}`,
+            plan,
+            notes,
+            () => this.packageProvider.refresh()
+        );
+    }
+
+    /**
+     * Create a new virtual environment in a workspace folder, by default the folder of the active editor
+     */
+    public async createEnvironment(folder?: vscode.WorkspaceFolder): Promise<void> {
+        const pythonExecutor = this.executorFor(folder);
+        const choice = await askCreateEnvironmentOptions(pythonExecutor);
+        if (!choice) {
+            return;
+        }
+        const envName = choice.backend === 'conda' ? choice.name : choice.options.name;
+
+        // Show progress notification, with pip's progress while the seed file installs
+        await withPipProgress(`Creating virtual environment '${envName}'...`, async (operation) => {
             try {
                 // Create the environment
-                const newEnv = await this.pythonExecutor.createVirtualEnvironment(envName);
+                const newEnv = choice.backend === 'conda'
+                    ? await pythonExecutor.createCondaEnvironment(choice.name, choice.pythonVersion, operation.token)
+                    : await pythonExecutor.createVirtualEnvironment(choice.options, operation.token);
                 
                 if (newEnv) {
+                    if (choice.backend !== 'conda' && choice.seedFile) {
+                        const seedName = vscode.workspace.asRelativePath(choice.seedFile);
+                        const lines = await seedRequirementLines(choice.seedFile);
+                        if (lines.length && !await pythonExecutor.installIntoEnvironment(newEnv, lines, operation)) {
+                            vscode.window.showWarningMessage(operation.token.isCancellationRequested
+                                ? `Created '${envName}', but installing ${seedName} was cancelled`
+                                : `Created '${envName}', but installing ${seedName} failed. See output channel for details.`);
+                        }
+                    }
+                    
                     vscode.window.showInformationMessage(`Successfully created virtual environment '${envName}'`);
                     // Refresh the environment list
                     this.environmentProvider.refresh();
@@ -202,9 +618,11 @@ export class PipingCommandManager {
                     );
                     
                     if (switchConfirmation === 'Yes') {
-                        this.environmentProvider.setActiveEnvironment(envName);
+                        this.environmentProvider.setActiveEnvironment(newEnv, pythonExecutor.folder);
                         this.packageProvider.refresh();
                     }
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled creating virtual environment '${envName}'`);
                 } else {
                     vscode.window.showErrorMessage(`Failed to create virtual environment '${envName}'`);
                 }
@@ -215,23 +633,344 @@ export class PipingCommandManager {
     }
 
     /**
-     * Switch the active virtual environment
+     * Switch the active virtual environment of a workspace folder
      */
-    public async switchEnvironment(envItem?: EnvironmentTreeItem): Promise<void> {
+    public async switchEnvironment(item?: EnvironmentTreeItem | WorkspaceFolderTreeItem): Promise<void> {
+        const envItem = item instanceof EnvironmentTreeItem ? item : undefined;
+        const pythonExecutor = this.executorFor(item?.folder);
+        
         // If already active, do nothing
         if (envItem && envItem.envInfo.isActive) {
             vscode.window.showInformationMessage(`Environment '${envItem.envInfo.name}' is already active`);
             return;
         }
         
-        const envName = envItem ? envItem.envInfo.name : '';
+        const envInfo = envItem?.envInfo || await this.pickEnvironment(pythonExecutor, this.withFolderName(pythonExecutor, 'Select the environment to switch to'));
+        if (!envInfo) {
+            return;
+        }
         
         // Set the active environment
-        this.environmentProvider.setActiveEnvironment(envName);
+        this.environmentProvider.setActiveEnvironment(envInfo, pythonExecutor.folder);
         
         // Refresh the package list for the new environment
         this.packageProvider.refresh();
         
-        vscode.window.showInformationMessage(`Switched to environment '${envName}'`);
+        vscode.window.showInformationMessage(`Switched to environment '${envInfo.name}'`);
+    }
+    
+    /**
+     * Delete an environment after confirmation. The active environment is kept.
+     */
+    public async deleteEnvironment(envItem?: EnvironmentTreeItem): Promise<void> {
+        const pythonExecutor = this.executorFor(envItem?.folder);
+        const envInfo = envItem?.envInfo || await this.pickEnvironment(pythonExecutor, 'Select the environment to delete', env => isDisposableEnvironment(env));
+        if (!envInfo) {
+            return;
+        }
+        // Another workspace folder may be using the environment
+        const user = this.executors.all.find(executor => executor.currentEnv?.path === envInfo.path);
+        if (envInfo.isActive || user) {
+            const where = user?.folder && this.executors.isMultiRoot ? ` of ${user.folder.name}` : '';
+            vscode.window.showWarningMessage(`'${envInfo.name}' is the active environment${where}. Switch to another environment before deleting it.`);
+            return;
+        }
+        if (!isDisposableEnvironment(envInfo)) {
+            vscode.window.showWarningMessage(`'${envInfo.name}' is managed by ${ENVIRONMENT_KIND_LABELS[envInfo.kind]} and cannot be deleted from Piping`);
+            return;
+        }
+        
+        const confirmation = await vscode.window.showWarningMessage(
+            `Delete the environment '${envInfo.name}'?`,
+            { modal: true, detail: `${envInfo.path} and every package installed in it will be removed. This cannot be undone.` },
+            'Delete'
+        );
+        if (confirmation !== 'Delete') {
+            return;
+        }
+        
+        let cancelled = false;
+        const deleted = await vscode.window.withProgress({
+            location: vscode.ProgressLocation.Notification,
+            title: `Deleting environment '${envInfo.name}'...`,
+            cancellable: true
+        }, async (_progress, token) => {
+            const result = await pythonExecutor.deleteEnvironment(envInfo, token);
+            cancelled = token.isCancellationRequested;
+            return result;
+        });
+        
+        this.environmentProvider.refresh();
+        if (deleted) {
+            vscode.window.showInformationMessage(`Deleted environment '${envInfo.name}'`);
+        } else if (cancelled) {
+            vscode.window.showInformationMessage(`Cancelled deleting environment '${envInfo.name}'`);
+        } else {
+            vscode.window.showErrorMessage(`Failed to delete environment '${envInfo.name}'. See output channel for details.`);
+        }
+    }
+    
+    /**
+     * Copy an environment's packages into a new virtual environment
+     */
+    public async cloneEnvironment(envItem?: EnvironmentTreeItem): Promise<void> {
+        const pythonExecutor = this.executorFor(envItem?.folder);
+        const envInfo = envItem?.envInfo || await this.pickEnvironment(pythonExecutor, 'Select the environment to clone');
+        if (!envInfo) {
+            return;
+        }
+        
+        // Managed environments are cloned next to the original, so the same tool finds the clone
+        let folder = path.dirname(envInfo.path);
+        if (!isDisposableEnvironment(envInfo) || envInfo.kind === 'conda') {
+            const workspaceFolder = pythonExecutor.folder || await askFolder();
+            if (!workspaceFolder) {
+                return;
+            }
+            folder = workspaceFolder.uri.fsPath;
+        }
+        
+        const name = await this.askNewEnvironmentName(folder, `${path.basename(envInfo.path)}-copy`, 'Enter the name of the clone');
+        if (!name) {
+            return;
+        }
+        
+        let cancelled = false;
+        const result = await withPipProgress(`Cloning '${envInfo.name}' into '${name}'...`, async (operation) => {
+            const clone = await pythonExecutor.cloneEnvironment(envInfo, { name, folder }, operation);
+            cancelled = operation.token.isCancellationRequested;
+            return clone;
+        });
+        
+        this.environmentProvider.refresh();
+        if (!result && cancelled) {
+            vscode.window.showInformationMessage(`Cancelled cloning '${envInfo.name}'`);
+            return;
+        }
+        if (!result) {
+            vscode.window.showErrorMessage(`Failed to clone '${envInfo.name}'. See output channel for details.`);
+            return;
+        }
+        vscode.window.showInformationMessage(`Cloned '${envInfo.name}' into '${name}'${this.describeTransfer(result.transfer)}`);
+    }
+    
+    /**
+     * Rename a virtual environment. Environments hold their own path in their scripts,
+     * so the environment is cloned under the new name and the original deleted.
+     */
+    public async renameEnvironment(envItem?: EnvironmentTreeItem): Promise<void> {
+        const pythonExecutor = this.executorFor(envItem?.folder);
+        const envInfo = envItem?.envInfo || await this.pickEnvironment(pythonExecutor, 'Select the environment to rename', env => this.canRebuild(env));
+        if (!envInfo) {
+            return;
+        }
+        if (!this.canRebuild(envInfo)) {
+            vscode.window.showWarningMessage(`'${envInfo.name}' is managed by ${ENVIRONMENT_KIND_LABELS[envInfo.kind]} and cannot be renamed from Piping`);
+            return;
+        }
+        
+        const folder = path.dirname(envInfo.path);
+        const name = await this.askNewEnvironmentName(folder, path.basename(envInfo.path), 'Enter the new name of the environment');
+        if (!name || name === path.basename(envInfo.path)) {
+            return;
+        }
+        
+        await withPipProgress(`Renaming '${envInfo.name}' to '${name}'...`, async (operation) => {
+            const result = await pythonExecutor.cloneEnvironment(envInfo, { name, folder }, operation);
+            if (!result && operation.token.isCancellationRequested) {
+                vscode.window.showInformationMessage(`Cancelled renaming '${envInfo.name}'`);
+                return;
+            }
+            if (!result) {
+                vscode.window.showErrorMessage(`Failed to rename '${envInfo.name}'. See output channel for details.`);
+                return;
+            }
+            
+            // Other versions than the pinned ones were installed, so the original is the only exact copy
+            if (result.transfer === 'relaxed') {
+                const deleteOption = `Delete '${envInfo.name}'`;
+                const choice = await vscode.window.showWarningMessage(
+                    `'${name}' could not get the exact package versions of '${envInfo.name}'`,
+                    {
+                        modal: true,
+                        detail: `pip installed other versions of some packages. Keep '${envInfo.name}' to compare them, or delete it to finish the rename.`
+                    },
+                    deleteOption
+                );
+                if (choice !== deleteOption) {
+                    vscode.window.showInformationMessage(`Created '${name}' with other package versions and kept '${envInfo.name}'`);
+                    this.environmentProvider.refresh();
+                    return;
+                }
+            }
+            
+            // The renamed environment stays active in every folder that used it
+            const users = this.executors.all.filter(executor => executor.currentEnv?.path === envInfo.path);
+            for (const user of users) {
+                this.environmentProvider.setActiveEnvironment(result.env, user.folder);
+            }
+            if (users.length) {
+                this.packageProvider.refresh();
+            }
+            
+            if (!await pythonExecutor.deleteEnvironment(envInfo)) {
+                vscode.window.showWarningMessage(`Created '${name}', but could not delete '${envInfo.name}'. See output channel for details.`);
+            } else {
+                vscode.window.showInformationMessage(`Renamed '${envInfo.name}' to '${name}'${this.describeTransfer(result.transfer)}`);
+            }
+            this.environmentProvider.refresh();
+        });
+    }
+    
+    /**
+     * Rebuild a virtual environment on another Python version with the same packages
+     */
+    public async recreateEnvironment(envItem?: EnvironmentTreeItem): Promise<void> {
+        const pythonExecutor = this.executorFor(envItem?.folder);
+        const envInfo = envItem?.envInfo || await this.pickEnvironment(pythonExecutor, 'Select the environment to recreate', env => this.canRebuild(env));
+        if (!envInfo) {
+            return;
+        }
+        if (!this.canRebuild(envInfo)) {
+            vscode.window.showWarningMessage(`'${envInfo.name}' is managed by ${ENVIRONMENT_KIND_LABELS[envInfo.kind]} and cannot be recreated from Piping`);
+            return;
+        }
+        
+        const interpreter = await askInterpreter(pythonExecutor);
+        if (!interpreter) {
+            return;
+        }
+        
+        const confirmation = await vscode.window.showWarningMessage(
+            `Recreate '${envInfo.name}' with Python ${interpreter.version || interpreter.path}?`,
+            { modal: true, detail: `The environment is rebuilt from scratch and its packages installed again. If that fails, the current environment is put back. If pip has to install other versions, you are asked before the current environment is deleted.` },
+            'Recreate'
+        );
+        if (confirmation !== 'Recreate') {
+            return;
+        }
+        
+        let cancelled = false;
+        const result = await withPipProgress(`Recreating '${envInfo.name}'...`, async (operation) => {
+            const recreated = await pythonExecutor.recreateEnvironment(envInfo, interpreter.path, operation);
+            cancelled = operation.token.isCancellationRequested;
+            return recreated;
+        });
+        
+        // Other versions than the pinned ones were installed, so the old environment is the only exact copy
+        let restored = false;
+        if (result?.backupPath) {
+            const keepOption = 'Keep the new environment';
+            const choice = await vscode.window.showWarningMessage(
+                `'${envInfo.name}' could not get its exact package versions on Python ${interpreter.version || interpreter.path}`,
+                {
+                    modal: true,
+                    detail: `pip installed other versions of some packages. Keep the new environment and delete the old one, or put the old one back.`
+                },
+                keepOption
+            );
+            if (choice === keepOption) {
+                await pythonExecutor.discardBackup(result.backupPath);
+            } else if (await pythonExecutor.restoreBackup(envInfo, result.backupPath)) {
+                restored = true;
+            } else {
+                this.environmentProvider.refresh();
+                vscode.window.showErrorMessage(`Could not put the old '${envInfo.name}' back; it is kept at ${result.backupPath}. See output channel for details.`);
+                return;
+            }
+        }
+        
+        this.environmentProvider.refresh();
+        const users = this.executors.all.filter(executor => executor.currentEnv?.path === envInfo.path);
+        users.forEach(user => user.invalidatePackageCache());
+        if (users.length) {
+            this.packageProvider.refresh();
+        }
+        if (restored) {
+            vscode.window.showInformationMessage(`Kept the previous '${envInfo.name}'`);
+        } else if (result) {
+            vscode.window.showInformationMessage(`Recreated '${envInfo.name}'${this.describeTransfer(result.transfer)}`);
+        } else if (cancelled) {
+            vscode.window.showInformationMessage(`Cancelled recreating '${envInfo.name}'; the previous environment was kept`);
+        } else {
+            vscode.window.showErrorMessage(`Failed to recreate '${envInfo.name}'; the previous environment was kept. See output channel for details.`);
+        }
+    }
+    
+    /**
+     * The executor of a workspace folder, or of the active editor's folder when no folder is given,
+     * e.g. for commands run from the command palette
+     */
+    private executorFor(folder?: vscode.WorkspaceFolder): PythonExecutor {
+        return folder ? this.executors.get(folder) : this.executors.active;
+    }
+    
+    /**
+     * Mention the folder a prompt is about when the workspace has several
+     */
+    private withFolderName(pythonExecutor: PythonExecutor, text: string): string {
+        return this.executors.isMultiRoot && pythonExecutor.folder ? `${text} (${pythonExecutor.folder.name})` : text;
+    }
+    
+    private async findInstalledPackage(pythonExecutor: PythonExecutor, name: string): Promise<PackageInfo | undefined> {
+        const normalized = normalizePackageName(name);
+        return (await pythonExecutor.getInstalledPackages()).find(pkg => normalizePackageName(pkg.name) === normalized);
+    }
+    
+    /**
+     * Let the user pick one of the environments discovered for a folder
+     */
+    private async pickEnvironment(pythonExecutor: PythonExecutor, placeHolder: string, filter: (env: EnvironmentInfo) => boolean = () => true): Promise<EnvironmentInfo | undefined> {
+        const environments = (await pythonExecutor.getVirtualEnvironments()).filter(filter);
+        if (!environments.length) {
+            vscode.window.showWarningMessage('No Python environments found');
+            return undefined;
+        }
+        
+        const picked = await vscode.window.showQuickPick(
+            environments.map(env => ({
+                label: env.name,
+                description: `${ENVIRONMENT_KIND_LABELS[env.kind]}${env.isActive ? ' (active)' : ''}`,
+                detail: env.path,
+                env
+            })),
+            { placeHolder, matchOnDetail: true }
+        );
+        return picked?.env;
+    }
+    
+    /**
+     * Virtual environments Piping can build again: neither conda's nor one that is more than a folder
+     */
+    private canRebuild(env: EnvironmentInfo): boolean {
+        return env.kind !== 'conda' && isDisposableEnvironment(env);
+    }
+    
+    private async askNewEnvironmentName(folder: string, value: string, prompt: string): Promise<string | undefined> {
+        const name = await vscode.window.showInputBox({
+            prompt,
+            value,
+            validateInput: async input => {
+                if (!/^[^\\/:*?"<>|]+$/.test(input.trim())) {
+                    return 'Enter a folder name';
+                }
+                if (input.trim() !== value) {
+                    try {
+                        await vscode.workspace.fs.stat(vscode.Uri.file(path.join(folder, input.trim())));
+                        return `${input.trim()} already exists in ${folder}`;
+                    } catch (error) {
+                        // The name is free
+                    }
+                }
+                return undefined;
+            }
+        });
+        return name?.trim();
+    }
+    
+    private describeTransfer(transfer: PackageTransfer): string {
+        return transfer === 'relaxed'
+            ? '. Some pinned versions did not install, so pip chose the versions.'
+            : '';
     }
-} 
\ No newline at end of file
+}
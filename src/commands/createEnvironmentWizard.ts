@@ -0,0 +1,242 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { CreateEnvironmentOptions, EnvironmentBackend, PythonExecutor } from '../utils/pythonExecutor';
+import { InterpreterInfo } from '../utils/interpreters';
+import { findRequirementsFiles } from '../utils/requirementsFile';
+import { MAIN_DEPENDENCY_GROUP, readPyprojectDependencies } from '../utils/pyproject';
+import { compareVersions } from '../utils/pep440';
+
+export type CreateEnvironmentChoice =
+    | { backend: 'conda', name: string, pythonVersion?: string }
+    | { backend: EnvironmentBackend, options: CreateEnvironmentOptions, seedFile?: vscode.Uri };
+
+const BACKEND_DESCRIPTIONS: { [backend in EnvironmentBackend | 'conda']: string } = {
+    venv: 'A virtual environment made by Python\'s venv module',
+    virtualenv: 'A virtual environment made by virtualenv',
+    uv: 'A virtual environment made by uv, with pip seeded into it',
+    conda: 'A named conda environment with a Python version of your choice'
+};
+
+type OptionItem = vscode.QuickPickItem & { option: 'systemSitePackages' | 'upgradeDeps' | 'prompt' };
+
+async function askBackend(pythonExecutor: PythonExecutor): Promise<EnvironmentBackend | 'conda' | undefined> {
+    const backends: Array<EnvironmentBackend | 'conda'> = await pythonExecutor.getEnvironmentBackends();
+    if (await pythonExecutor.hasConda()) {
+        backends.push('conda');
+    }
+    if (backends.length === 1) {
+        return backends[0];
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        backends.map(backend => ({ label: backend, description: BACKEND_DESCRIPTIONS[backend], backend })),
+        { placeHolder: 'Select the kind of environment to create' }
+    );
+    return picked?.backend;
+}
+
+async function askCondaEnvironment(): Promise<CreateEnvironmentChoice | undefined> {
+    const name = await vscode.window.showInputBox({
+        placeHolder: 'Name of the conda environment',
+        prompt: 'Enter conda environment name'
+    });
+    if (!name) {
+        return undefined;
+    }
+
+    const pythonVersion = await vscode.window.showInputBox({
+        placeHolder: 'e.g. 3.12 (leave empty for conda\'s default)',
+        prompt: 'Enter the Python version for the conda environment',
+        validateInput: value => !value || /^\d+(\.\d+){0,2}$/.test(value.trim())
+            ? undefined
+            : 'Enter a version such as 3.12 or 3.11.9'
+    });
+    if (pythonVersion === undefined) {
+        return undefined;
+    }
+
+    return { backend: 'conda', name, pythonVersion: pythonVersion.trim() || undefined };
+}
+
+/**
+ * Pick one of the installed interpreters, or browse for another one
+ */
+export async function askInterpreter(pythonExecutor: PythonExecutor): Promise<InterpreterInfo | undefined> {
+    // The quick pick shows as busy while every interpreter found is asked for its version
+    const items = pythonExecutor.getInterpreters().then(interpreters => [
+        ...interpreters.map(interpreter => ({
+            label: `Python ${interpreter.version}`,
+            description: interpreter.implementation,
+            detail: interpreter.path,
+            interpreter
+        })),
+        { label: 'Browse...', description: 'Choose an interpreter that was not found', interpreter: undefined }
+    ]);
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Select the interpreter to create the environment from',
+        matchOnDetail: true
+    });
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.interpreter) {
+        return picked.interpreter;
+    }
+
+    const uris = await vscode.window.showOpenDialog({ canSelectMany: false, openLabel: 'Use Interpreter' });
+    // The version is unknown, so version-dependent options are offered as if it were recent
+    return uris?.[0] ? { path: uris[0].fsPath, version: '', implementation: '' } : undefined;
+}
+
+/**
+ * Pick the workspace folder to create an environment in, without asking when there is only one
+ */
+export async function askFolder(): Promise<vscode.WorkspaceFolder | undefined> {
+    const folders = vscode.workspace.workspaceFolders || [];
+    if (!folders.length) {
+        vscode.window.showErrorMessage('Open a folder to create a virtual environment in');
+        return undefined;
+    }
+    if (folders.length === 1) {
+        return folders[0];
+    }
+    return vscode.window.showWorkspaceFolderPick({ placeHolder: 'Select the folder to create the environment in' });
+}
+
+/**
+ * The options the backend supports. venv has --upgrade-deps from Python 3.9 on,
+ * virtualenv upgrades by downloading its seed packages, and uv always seeds the latest.
+ */
+function optionItems(backend: EnvironmentBackend, interpreter: InterpreterInfo): OptionItem[] {
+    const items: OptionItem[] = [
+        { label: '--system-site-packages', description: 'Let the environment see the interpreter\'s own packages', option: 'systemSitePackages' }
+    ];
+    if (backend === 'venv' && (!interpreter.version || compareVersions(interpreter.version, '3.9') >= 0)) {
+        items.push({ label: '--upgrade-deps', description: 'Upgrade pip and setuptools to their latest versions', option: 'upgradeDeps' });
+    }
+    if (backend === 'virtualenv') {
+        items.push({ label: '--download', description: 'Download the latest pip, setuptools and wheel', option: 'upgradeDeps' });
+    }
+    items.push({ label: '--prompt', description: 'Set the name shown in the shell prompt while the environment is active', option: 'prompt' });
+    return items;
+}
+
+/**
+ * Offer the folder's requirements files and pyproject.toml for installing into the new environment
+ */
+async function askSeedFile(folder: vscode.WorkspaceFolder): Promise<vscode.Uri | null | undefined> {
+    const candidates = await findRequirementsFiles(folder);
+    const pyproject = vscode.Uri.joinPath(folder.uri, 'pyproject.toml');
+    try {
+        await vscode.workspace.fs.stat(pyproject);
+        candidates.push(pyproject);
+    } catch (error) {
+        // No pyproject.toml in this folder
+    }
+
+    const items: Array<vscode.QuickPickItem & { uri?: vscode.Uri, browse?: boolean }> = [
+        { label: 'None', description: 'Create an empty environment' },
+        ...candidates.map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri })),
+        { label: 'Browse...', description: 'Choose another requirements file', browse: true }
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: 'Install packages from a file after creating the environment?'
+    });
+    if (!picked) {
+        return undefined;
+    }
+    if (picked.browse) {
+        const uris = await vscode.window.showOpenDialog({
+            canSelectMany: false,
+            defaultUri: folder.uri,
+            filters: { 'Requirements': ['txt', 'in', 'toml'] }
+        });
+        return uris?.[0];
+    }
+    return picked.uri || null;
+}
+
+/**
+ * Walk the user through the options of a new environment.
+ * Resolves to undefined when the user cancels at any step.
+ */
+export async function askCreateEnvironmentOptions(pythonExecutor: PythonExecutor): Promise<CreateEnvironmentChoice | undefined> {
+    const backend = await askBackend(pythonExecutor);
+    if (!backend) {
+        return undefined;
+    }
+    if (backend === 'conda') {
+        return askCondaEnvironment();
+    }
+
+    // Environments go into the folder the command was run for
+    const folder = pythonExecutor.folder || await askFolder();
+    if (!folder) {
+        return undefined;
+    }
+
+    const interpreter = await askInterpreter(pythonExecutor);
+    if (!interpreter) {
+        return undefined;
+    }
+
+    const name = await vscode.window.showInputBox({
+        placeHolder: 'venv (default)',
+        prompt: `Enter virtual environment name (created in ${folder.name})`,
+        value: 'venv',
+        validateInput: value => /^[^\\/:*?"<>|]+$/.test(value.trim()) ? undefined : 'Enter a folder name'
+    });
+    if (!name) {
+        return undefined;
+    }
+
+    const picked = await vscode.window.showQuickPick(optionItems(backend, interpreter), {
+        canPickMany: true,
+        placeHolder: 'Select options for the environment (none is fine)'
+    });
+    if (!picked) {
+        return undefined;
+    }
+    const chosen = new Set(picked.map(item => item.option));
+
+    let prompt: string | undefined;
+    if (chosen.has('prompt')) {
+        prompt = await vscode.window.showInputBox({ prompt: 'Enter the prompt name', value: name.trim() });
+        if (prompt === undefined) {
+            return undefined;
+        }
+    }
+
+    const seedFile = await askSeedFile(folder);
+    if (seedFile === undefined) {
+        return undefined;
+    }
+
+    return {
+        backend,
+        options: {
+            name: name.trim(),
+            folder: folder.uri.fsPath,
+            interpreter: interpreter.path,
+            backend,
+            systemSitePackages: chosen.has('systemSitePackages'),
+            upgradeDeps: chosen.has('upgradeDeps'),
+            prompt: prompt?.trim() || undefined
+        },
+        seedFile: seedFile || undefined
+    };
+}
+
+/**
+ * The requirement lines that install a seed file: the file itself for requirements
+ * files, the [project.dependencies] for a pyproject.toml
+ */
+export async function seedRequirementLines(seedFile: vscode.Uri): Promise<string[]> {
+    if (path.basename(seedFile.fsPath) === 'pyproject.toml') {
+        const dependencies = await readPyprojectDependencies(seedFile);
+        return dependencies.groups[MAIN_DEPENDENCY_GROUP] || [];
+    }
+    return [`-r "${seedFile.fsPath}"`];
+}
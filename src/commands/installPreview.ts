@@ -0,0 +1,57 @@
+import * as vscode from 'vscode';
+import { InstallPreviewItem, PythonExecutor } from '../utils/pythonExecutor';
+
+const ACTION_ORDER: InstallPreviewItem['action'][] = ['downgrade', 'upgrade', 'install', 'reinstall'];
+
+/**
+ * Describe one package of the preview, e.g. "numpy 1.26.4 → 1.24.0 (downgrade)"
+ */
+function describePreviewItem(item: InstallPreviewItem): string {
+    const version = item.currentVersion && item.action !== 'reinstall'
+        ? `${item.currentVersion} → ${item.version}`
+        : item.version;
+    return `${item.name} ${version} (${item.action}${item.requested ? ', requested' : ''})`;
+}
+
+/**
+ * Show what pip would change for an install and let the user confirm it.
+ * Resolves to true when the install should go ahead.
+ */
+export async function confirmInstallPreview(pythonExecutor: PythonExecutor, packageSpecs: string[]): Promise<boolean> {
+    const label = packageSpecs.join(' ');
+    const preview = await vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title: `Resolving ${label}...`,
+        cancellable: false
+    }, () => pythonExecutor.previewInstall(packageSpecs));
+
+    if (!preview) {
+        const installAnyway = 'Install Anyway';
+        const choice = await vscode.window.showWarningMessage(
+            `Could not preview the installation of ${label}.`,
+            { modal: true, detail: 'pip 22.2 or later is needed for a dry run. See output channel for details.' },
+            installAnyway
+        );
+        return choice === installAnyway;
+    }
+
+    // Nothing would change, so there is nothing to confirm
+    if (!preview.length) {
+        return true;
+    }
+
+    const sorted = [...preview].sort((a, b) =>
+        ACTION_ORDER.indexOf(a.action) - ACTION_ORDER.indexOf(b.action) || a.name.localeCompare(b.name));
+    const downgrades = preview.filter(item => item.action === 'downgrade');
+    const message = downgrades.length
+        ? `Installing ${label} would downgrade ${downgrades.map(item => item.name).join(', ')}. Continue?`
+        : `Installing ${label} would change ${preview.length} package(s). Continue?`;
+
+    const install = 'Install';
+    const choice = await vscode.window.showWarningMessage(
+        message,
+        { modal: true, detail: sorted.map(describePreviewItem).join('\n') },
+        install
+    );
+    return choice === install;
+}
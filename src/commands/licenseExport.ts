@@ -0,0 +1,89 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PythonExecutor } from '../utils/pythonExecutor';
+import {
+    LicenseInventoryEntry,
+    LicensePolicy,
+    buildLicenseInventory,
+    formatLicenseCsv,
+    formatLicenseJson,
+    isLicenseViolation,
+    readLicensePolicy
+} from '../utils/licenses';
+
+export type LicenseExportFormat = 'csv' | 'json';
+
+export interface LicenseInventory {
+    entries: LicenseInventoryEntry[];
+    policy?: LicensePolicy;
+}
+
+/**
+ * The license inventory of an executor's environment, checked against its folder's policy.
+ * Rejects when the policy file cannot be read.
+ */
+export async function loadLicenseInventory(pythonExecutor: PythonExecutor): Promise<LicenseInventory> {
+    const [packages, policy] = await Promise.all([
+        pythonExecutor.getInstalledPackages(),
+        readLicensePolicy(pythonExecutor.folder)
+    ]);
+    return { entries: buildLicenseInventory(packages, policy), policy };
+}
+
+/**
+ * Write the license inventory of an environment to a CSV or JSON file of the user's choice
+ */
+export async function exportLicenseInventory(pythonExecutor: PythonExecutor, format?: LicenseExportFormat): Promise<void> {
+    if (!format) {
+        const picked = await vscode.window.showQuickPick([
+            { label: 'CSV', description: 'One row per package, for spreadsheets', format: 'csv' as const },
+            { label: 'JSON', description: 'Packages with the environment and the license policy', format: 'json' as const }
+        ], { placeHolder: 'Select the inventory format' });
+        if (!picked) {
+            return;
+        }
+        format = picked.format;
+    }
+
+    let inventory: LicenseInventory;
+    try {
+        inventory = await loadLicenseInventory(pythonExecutor);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Error reading the license policy: ${error}`);
+        return;
+    }
+    if (!inventory.entries.length) {
+        vscode.window.showWarningMessage('No installed packages found to list');
+        return;
+    }
+
+    const folder = pythonExecutor.folder;
+    const fileName = `licenses.${format}`;
+    const target = await vscode.window.showSaveDialog({
+        defaultUri: folder ? vscode.Uri.joinPath(folder.uri, fileName) : undefined,
+        filters: format === 'json' ? { 'JSON': ['json'] } : { 'CSV': ['csv'] }
+    });
+    if (!target) {
+        return;
+    }
+
+    const environment = pythonExecutor.currentEnv?.path || 'global Python environment';
+    const content = format === 'json'
+        ? formatLicenseJson(inventory.entries, environment, inventory.policy)
+        : formatLicenseCsv(inventory.entries);
+
+    try {
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+    } catch (error) {
+        vscode.window.showErrorMessage(`Error writing ${path.basename(target.fsPath)}: ${error}`);
+        return;
+    }
+
+    const violations = inventory.entries.filter(entry => isLicenseViolation(entry.status)).length;
+    const message = `Wrote the licenses of ${inventory.entries.length} packages to ${path.basename(target.fsPath)}`;
+    if (violations) {
+        vscode.window.showWarningMessage(`${message}. ${violations} package(s) violate the license policy.`);
+    } else {
+        vscode.window.showInformationMessage(message);
+    }
+}
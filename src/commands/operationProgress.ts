@@ -0,0 +1,40 @@
+import * as vscode from 'vscode';
+import { PipOperation } from '../utils/pipProgress';
+
+/**
+ * Run pip operations under a cancellable notification that shows pip's phase and percentage.
+ * The observer, such as the dashboard, gets the same updates and can cancel through its own token.
+ */
+export function withPipProgress<T>(
+    title: string,
+    task: (operation: Required<PipOperation>) => Promise<T>,
+    observer?: PipOperation
+): Thenable<T> {
+    return vscode.window.withProgress({
+        location: vscode.ProgressLocation.Notification,
+        title,
+        cancellable: true
+    }, async (progress, token) => {
+        const source = new vscode.CancellationTokenSource();
+        const subscriptions = [token, observer?.token]
+            .filter((t): t is vscode.CancellationToken => !!t)
+            .map(t => t.onCancellationRequested(() => source.cancel()));
+        let reported = 0;
+
+        try {
+            return await task({
+                token: source.token,
+                cancel: () => source.cancel(),
+                onProgress: update => {
+                    // The bar only moves forward, also when several pip runs share it
+                    progress.report({ message: `${update.message} (${update.percent}%)`, increment: Math.max(0, update.percent - reported) });
+                    reported = Math.max(reported, update.percent);
+                    observer?.onProgress?.(update);
+                }
+            });
+        } finally {
+            subscriptions.forEach(subscription => subscription.dispose());
+            source.dispose();
+        }
+    });
+}
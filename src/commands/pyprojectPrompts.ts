@@ -0,0 +1,102 @@
+import * as vscode from 'vscode';
+import {
+    MAIN_DEPENDENCY_GROUP,
+    addPyprojectDependency,
+    findPyprojectFile,
+    getDependencyGroups,
+    readPyprojectDependencies,
+    removePyprojectDependency
+} from '../utils/pyproject';
+
+export interface PyprojectTarget {
+    uri?: vscode.Uri;
+    group?: string;
+}
+
+/**
+ * Ask whether an installed package should also be declared in pyproject.toml,
+ * the one of the given workspace folder when there is one.
+ * Resolves to undefined when the user cancels.
+ */
+export async function askPyprojectTarget(folder?: vscode.WorkspaceFolder): Promise<PyprojectTarget | undefined> {
+    const uri = await findPyprojectFile(folder);
+    if (!uri) {
+        return {};
+    }
+
+    const dependencies = await readPyprojectDependencies(uri);
+    if (!dependencies.hasProjectTable) {
+        // Not a PEP 621 project (e.g. Poetry), so there is nothing we can edit
+        return {};
+    }
+
+    const optionalGroups = Object.keys(dependencies.groups).filter(group => group !== MAIN_DEPENDENCY_GROUP);
+    const items: Array<vscode.QuickPickItem & { group?: string, newGroup?: boolean }> = [
+        { label: 'Install only', description: 'Leave pyproject.toml unchanged' },
+        { label: 'Add to [project.dependencies]', group: MAIN_DEPENDENCY_GROUP },
+        ...optionalGroups.map(group => ({ label: `Add to optional group '${group}'`, group })),
+        { label: 'Add to a new optional group...', newGroup: true }
+    ];
+
+    const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Also declare the package in ${vscode.workspace.asRelativePath(uri)}?`
+    });
+    if (!picked) {
+        return undefined;
+    }
+
+    if (picked.newGroup) {
+        const group = await vscode.window.showInputBox({
+            prompt: 'Name of the optional dependency group',
+            placeHolder: 'dev',
+            validateInput: value => /^[A-Za-z0-9][A-Za-z0-9._-]*$/.test(value.trim()) ? undefined : 'Enter a valid group name'
+        });
+        return group ? { uri, group: group.trim() } : undefined;
+    }
+
+    return { uri, group: picked.group };
+}
+
+/**
+ * Add a spec to pyproject.toml, reporting the outcome to the user
+ */
+export async function addToPyproject(target: PyprojectTarget, spec: string): Promise<void> {
+    if (!target.uri || !target.group) {
+        return;
+    }
+
+    try {
+        await addPyprojectDependency(target.uri, spec, target.group);
+        const table = target.group === MAIN_DEPENDENCY_GROUP ? '[project.dependencies]' : `optional group '${target.group}'`;
+        vscode.window.showInformationMessage(`Added ${spec} to ${table} in pyproject.toml`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`Error updating pyproject.toml: ${error}`);
+    }
+}
+
+/**
+ * Find the pyproject.toml dependency groups that declare a package
+ */
+export async function findDeclaringGroups(packageName: string, folder?: vscode.WorkspaceFolder): Promise<PyprojectTarget & { groups: string[] } | undefined> {
+    const uri = await findPyprojectFile(folder);
+    if (!uri) {
+        return undefined;
+    }
+
+    const groups = getDependencyGroups(await readPyprojectDependencies(uri), packageName);
+    return groups.length ? { uri, groups } : undefined;
+}
+
+/**
+ * Remove a package from pyproject.toml, reporting the outcome to the user
+ */
+export async function removeFromPyproject(uri: vscode.Uri, packageName: string): Promise<void> {
+    try {
+        const groups = await removePyprojectDependency(uri, packageName);
+        if (groups.length) {
+            vscode.window.showInformationMessage(`Removed ${packageName} from pyproject.toml (${groups.join(', ')})`);
+        }
+    } catch (error) {
+        vscode.window.showErrorMessage(`Error updating pyproject.toml: ${error}`);
+    }
+}
@@ -0,0 +1,62 @@
+import * as vscode from 'vscode';
+import { PythonExecutor } from '../utils/pythonExecutor';
+import { DependencyNode, findDependents, findOrphanedDependencies } from '../utils/dependencyGraph';
+import { findDeclaringGroups } from './pyprojectPrompts';
+
+export interface UninstallChoice {
+    packages: string[];
+    removeFromPyproject?: vscode.Uri;
+}
+
+function formatNodes(nodes: DependencyNode[]): string {
+    return nodes.map(node => `${node.name} ${node.version}`).join(', ');
+}
+
+/**
+ * Confirm an uninstall, warning about installed packages that require the target
+ * and offering to remove the dependencies nothing else needs.
+ * Resolves to undefined when the user cancels.
+ */
+export async function confirmUninstall(pythonExecutor: PythonExecutor, packageName: string): Promise<UninstallChoice | undefined> {
+    const graph = await pythonExecutor.getDependencyGraph();
+    const dependents = findDependents(graph, packageName);
+    const orphans = findOrphanedDependencies(graph, [packageName]);
+    const declared = await findDeclaringGroups(packageName, pythonExecutor.folder);
+
+    const details: string[] = [];
+    if (dependents.length) {
+        details.push(`Required by: ${formatNodes(dependents)}`);
+    }
+    if (orphans.length) {
+        details.push(`No longer needed afterwards: ${formatNodes(orphans)}`);
+    }
+
+    const uninstallOption = dependents.length ? 'Uninstall Anyway' : 'Yes';
+    const withOrphansOption = 'Also Remove Unused Dependencies';
+    const removeFromPyprojectOption = 'Yes, and remove from pyproject.toml';
+    const options = [uninstallOption];
+    if (orphans.length) {
+        options.push(withOrphansOption);
+    }
+    if (declared) {
+        options.push(removeFromPyprojectOption);
+    }
+
+    const confirmation = await vscode.window.showWarningMessage(
+        dependents.length
+            ? `${packageName} is required by ${dependents.length} installed package(s), which may stop working. Uninstall it anyway?`
+            : `Are you sure you want to uninstall ${packageName}?`,
+        { modal: true, detail: details.length ? details.join('\n\n') : undefined },
+        ...options,
+        'No'
+    );
+
+    if (!confirmation || confirmation === 'No') {
+        return undefined;
+    }
+
+    return {
+        packages: confirmation === withOrphansOption ? [packageName, ...orphans.map(node => node.name)] : [packageName],
+        removeFromPyproject: confirmation === removeFromPyprojectOption ? declared?.uri : undefined
+    };
+}
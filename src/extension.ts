@@ -2,16 +2,70 @@ import * as vscode from 'vscode';
 import { PipingDashboardPanel } from './panels/dashboardPanel';
 import { PipingPackageProvider } from './providers/packageProvider';
 import { PipingEnvironmentProvider } from './providers/environmentProvider';
+import { WorkspaceFolderTreeItem } from './providers/workspaceFolderTreeItem';
+import { PipingHistoryProvider } from './providers/historyProvider';
+import { PipingQueueProvider, QueuedOperationTreeItem } from './providers/queueProvider';
+import { PipingImportDiagnosticsProvider } from './providers/importDiagnosticsProvider';
 import { PipingCommandManager } from './commands/commandManager';
-import { PythonExecutor } from './utils/pythonExecutor';
+import { PackageIndex } from './utils/packageIndex';
+import { SnapshotStore } from './utils/snapshotStore';
+import { OperationQueue } from './utils/operationQueue';
+import { SecurityAudit } from './utils/securityAudit';
+import { DEFAULT_LICENSE_POLICY_FILE } from './utils/licenses';
+import { getPythonEnvironmentsApi } from './utils/pythonExtension';
+import { WorkspaceExecutors } from './utils/workspaceExecutors';
 
 export async function activate(context: vscode.ExtensionContext) {
-    // Initialize Python executor
-    const pythonExecutor = new PythonExecutor();
+    // Initialize the Python executors, one per workspace folder
+    const outputChannel = vscode.window.createOutputChannel('Piping');
+    const packageIndex = new PackageIndex(context.globalStorageUri, outputChannel);
+    const snapshotStore = new SnapshotStore(context.globalStorageUri, outputChannel);
+    const operationQueue = new OperationQueue();
+    const securityAudit = new SecurityAudit(outputChannel);
+    const executors = new WorkspaceExecutors(outputChannel, snapshotStore, operationQueue);
     
     // Initialize tree view data providers
-    const packageProvider = new PipingPackageProvider(pythonExecutor);
-    const environmentProvider = new PipingEnvironmentProvider(pythonExecutor);
+    const packageProvider = new PipingPackageProvider(executors, securityAudit);
+    const environmentProvider = new PipingEnvironmentProvider(executors, context.workspaceState);
+    const historyProvider = new PipingHistoryProvider(executors, snapshotStore);
+    const queueProvider = new PipingQueueProvider(operationQueue);
+
+    const importDiagnostics = new PipingImportDiagnosticsProvider(executors);
+
+    // Packages are listed for the active environment, so follow it
+    environmentProvider.onDidChangeActiveEnvironment(() => packageProvider.refresh());
+
+    // Flag the packages each audit finds advisories for
+    securityAudit.onDidChange(() => packageProvider.refresh());
+
+    // Folders added to the workspace get their own environment
+    executors.onDidChangeFolders(async () => {
+        try {
+            await environmentProvider.restoreActiveEnvironment();
+        } catch (error) {
+            outputChannel.appendLine(`Error restoring the environments of the workspace folders: ${error}`);
+        }
+        environmentProvider.refresh();
+        packageProvider.refresh();
+        importDiagnostics.scheduleAnalysis();
+    });
+
+    // Follow the interpreter selected in the Python extension
+    getPythonEnvironmentsApi(outputChannel).then(api => {
+        if (api) {
+            context.subscriptions.push(api.onDidChangeActiveEnvironmentPath(event => {
+                environmentProvider.followInterpreter(event.path, event.resource).catch(error => {
+                    outputChannel.appendLine(`Error following the Python extension: ${error}`);
+                });
+            }));
+        }
+    });
+
+    // The history and the import analysis depend on the installed packages, so follow the package list
+    packageProvider.onDidChangeTreeData(() => {
+        historyProvider.refresh();
+        importDiagnostics.scheduleAnalysis();
+    });
 
     // Register views
     const packagesView = vscode.window.createTreeView('pipingExplorer', {
@@ -24,26 +78,157 @@ export async function activate(context: vscode.ExtensionContext) {
         showCollapseAll: true
     });
 
+    const historyView = vscode.window.createTreeView('pipingHistory', {
+        treeDataProvider: historyProvider,
+        showCollapseAll: true
+    });
+
+    const queueView = vscode.window.createTreeView('pipingQueue', {
+        treeDataProvider: queueProvider
+    });
+
+    // Keep the pyproject.toml dependency groups in the package tree current
+    const pyprojectWatcher = vscode.workspace.createFileSystemWatcher('**/pyproject.toml');
+    pyprojectWatcher.onDidChange(() => packageProvider.refresh());
+    pyprojectWatcher.onDidCreate(() => packageProvider.refresh());
+    pyprojectWatcher.onDidDelete(() => packageProvider.refresh());
+
+    // Keep the license policy shown in the package tooltips current
+    const licensePolicyFile = vscode.workspace.getConfiguration('piping').get<string>('licensePolicyFile') || DEFAULT_LICENSE_POLICY_FILE;
+    const licensePolicyWatcher = vscode.workspace.createFileSystemWatcher(`**/${licensePolicyFile}`);
+    licensePolicyWatcher.onDidChange(() => packageProvider.refresh());
+    licensePolicyWatcher.onDidCreate(() => packageProvider.refresh());
+    licensePolicyWatcher.onDidDelete(() => packageProvider.refresh());
+
+    // Keep the import analysis current as Python files and notebooks change
+    const importWatcher = vscode.workspace.createFileSystemWatcher('**/*.{py,ipynb}');
+    importWatcher.onDidChange(uri => importDiagnostics.updateFile(uri));
+    importWatcher.onDidCreate(uri => importDiagnostics.updateFile(uri));
+    importWatcher.onDidDelete(uri => importDiagnostics.removeFile(uri));
+
+    if (vscode.workspace.getConfiguration('piping').get<boolean>('importDiagnostics', true)) {
+        importDiagnostics.scanWorkspace().catch(error => {
+            outputChannel.appendLine(`Error scanning imports: ${error}`);
+        });
+    }
+
     // Initialize command manager
     const commandManager = new PipingCommandManager(
         context, 
-        pythonExecutor,
+        executors,
         packageProvider,
-        environmentProvider
+        environmentProvider,
+        packageIndex,
+        securityAudit
     );
 
     // Register commands
     context.subscriptions.push(
         vscode.commands.registerCommand('piping.openDashboard', () => {
-            PipingDashboardPanel.createOrShow(context.extensionUri, pythonExecutor);
+            PipingDashboardPanel.createOrShow(context.extensionUri, executors.active, packageIndex, importDiagnostics, securityAudit);
+        }),
+
+        vscode.commands.registerCommand('piping.syncRequirements', async (fileUri?: vscode.Uri) => {
+            const pythonExecutor = fileUri ? executors.forUri(fileUri) : executors.active;
+            PipingDashboardPanel.createOrShow(context.extensionUri, pythonExecutor, packageIndex, importDiagnostics, securityAudit);
+            await PipingDashboardPanel.currentPanel?.showRequirementsSync(fileUri);
+        }),
+
+        vscode.commands.registerCommand('piping.refreshPackageIndex', async () => {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: `Refreshing package index from ${packageIndex.indexUrl}...`,
+                cancellable: false
+            }, async () => {
+                try {
+                    const names = await packageIndex.getProjectNames(true);
+                    vscode.window.showInformationMessage(`Package index refreshed (${names.length} projects)`);
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Error refreshing package index: ${error}`);
+                }
+            });
         }),
 
         vscode.commands.registerCommand('piping.refreshPackages', () => {
+            executors.all.forEach(pythonExecutor => pythonExecutor.invalidatePackageCache());
             packageProvider.refresh();
         }),
 
-        vscode.commands.registerCommand('piping.installPackage', async () => {
-            await commandManager.installPackage();
+        vscode.commands.registerCommand('piping.freezeEnvironment', async () => {
+            await commandManager.freezeEnvironment();
+        }),
+
+        vscode.commands.registerCommand('piping.restoreEnvironment', async (fileUri?: vscode.Uri) => {
+            await commandManager.restoreEnvironment(fileUri);
+        }),
+
+        vscode.commands.registerCommand('piping.rollbackSnapshot', async (snapshotItem) => {
+            await commandManager.rollbackSnapshot(snapshotItem);
+        }),
+
+        vscode.commands.registerCommand('piping.clearHistory', async () => {
+            await commandManager.clearHistory();
+        }),
+
+        vscode.commands.registerCommand('piping.cancelQueuedOperation', (item: QueuedOperationTreeItem) => {
+            operationQueue.cancel(item.operation.id);
+        }),
+
+        vscode.commands.registerCommand('piping.moveQueuedOperationUp', (item: QueuedOperationTreeItem) => {
+            operationQueue.move(item.operation.id, -1);
+        }),
+
+        vscode.commands.registerCommand('piping.moveQueuedOperationDown', (item: QueuedOperationTreeItem) => {
+            operationQueue.move(item.operation.id, 1);
+        }),
+
+        vscode.commands.registerCommand('piping.findOrphans', async () => {
+            await commandManager.findOrphans();
+        }),
+
+        vscode.commands.registerCommand('piping.showOrphans', () => {
+            packageProvider.setOrphanFilter(true);
+        }),
+
+        vscode.commands.registerCommand('piping.showAllPackages', () => {
+            packageProvider.setOrphanFilter(false);
+        }),
+
+        vscode.commands.registerCommand('piping.scanImports', async () => {
+            await vscode.window.withProgress({
+                location: vscode.ProgressLocation.Notification,
+                title: 'Scanning workspace imports...',
+                cancellable: false
+            }, async () => {
+                try {
+                    const report = await importDiagnostics.scanWorkspace();
+                    vscode.window.showInformationMessage(
+                        `Scanned ${report.scannedFiles} file(s): ${report.missing.length} import(s) without an installed package, ${report.unused.length} package(s) never imported`
+                    );
+                } catch (error) {
+                    vscode.window.showErrorMessage(`Error scanning imports: ${error}`);
+                }
+            });
+        }),
+
+        vscode.commands.registerCommand('piping.auditEnvironment', async () => {
+            await commandManager.auditEnvironment();
+        }),
+
+        vscode.commands.registerCommand('piping.upgradeToSafeVersion', async (packageItem) => {
+            await commandManager.upgradeToSafeVersion(packageItem);
+        }),
+
+        vscode.commands.registerCommand('piping.exportLicenseInventory', async () => {
+            await commandManager.exportLicenseInventory();
+        }),
+
+        vscode.commands.registerCommand('piping.installPackage', async (packageSpec?: string | WorkspaceFolderTreeItem) => {
+            if (packageSpec instanceof WorkspaceFolderTreeItem) {
+                await commandManager.installPackage(undefined, packageSpec.folder);
+            } else {
+                await commandManager.installPackage(typeof packageSpec === 'string' ? packageSpec : undefined);
+            }
         }),
 
         vscode.commands.registerCommand('piping.uninstallPackage', async (packageItem) => {
@@ -54,18 +239,53 @@ export async function activate(context: vscode.ExtensionContext) {
             await commandManager.updatePackage(packageItem);
         }),
 
-        vscode.commands.registerCommand('piping.createEnvironment', async () => {
-            await commandManager.createEnvironment();
+        vscode.commands.registerCommand('piping.createEnvironment', async (folderItem?: WorkspaceFolderTreeItem) => {
+            await commandManager.createEnvironment(folderItem instanceof WorkspaceFolderTreeItem ? folderItem.folder : undefined);
         }),
 
         vscode.commands.registerCommand('piping.switchEnvironment', async (envItem) => {
             await commandManager.switchEnvironment(envItem);
         }),
 
+        vscode.commands.registerCommand('piping.deleteEnvironment', async (envItem) => {
+            await commandManager.deleteEnvironment(envItem);
+        }),
+
+        vscode.commands.registerCommand('piping.renameEnvironment', async (envItem) => {
+            await commandManager.renameEnvironment(envItem);
+        }),
+
+        vscode.commands.registerCommand('piping.cloneEnvironment', async (envItem) => {
+            await commandManager.cloneEnvironment(envItem);
+        }),
+
+        vscode.commands.registerCommand('piping.recreateEnvironment', async (envItem) => {
+            await commandManager.recreateEnvironment(envItem);
+        }),
+
+        executors,
+        outputChannel,
         packagesView,
-        environmentsView
+        environmentsView,
+        historyView,
+        queueView,
+        operationQueue,
+        securityAudit,
+        pyprojectWatcher,
+        licensePolicyWatcher,
+        importWatcher,
+        importDiagnostics,
+        vscode.languages.registerCodeActionsProvider({ language: 'python' }, importDiagnostics, {
+            providedCodeActionKinds: PipingImportDiagnosticsProvider.providedCodeActionKinds
+        })
     );
 
+    // Start in the environment each folder used last, or the Python extension's one.
+    // The views and commands are already there and follow once the environments are restored.
+    environmentProvider.restoreActiveEnvironment().then(() => environmentProvider.refresh(), error => {
+        outputChannel.appendLine(`Error restoring the active environments: ${error}`);
+    });
+
     console.log('Piping extension activated!');
 }
 
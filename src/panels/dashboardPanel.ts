@@ -1,22 +1,70 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { PythonExecutor, PackageInfo } from '../utils/pythonExecutor';
+import { PackageIndex } from '../utils/packageIndex';
+import { getNonce } from '../utils/webview';
+import { normalizePackageName } from '../utils/dependencyGraph';
+import { constraintFiles, fileOptionLines, findRequirementsFiles, parseRequirementsFile, RequirementProblem, RequirementsFile } from '../utils/requirementsFile';
+import { diffRequirements, RequirementDiffEntry } from '../utils/requirementsDiff';
+import { requirementLineOf } from '../utils/restorePlan';
+import { addToPyproject, askPyprojectTarget, removeFromPyproject } from '../commands/pyprojectPrompts';
+import { confirmInstallPreview } from '../commands/installPreview';
+import { confirmUninstall } from '../commands/uninstallConfirmation';
+import { withPipProgress } from '../commands/operationProgress';
+import { PipOperation } from '../utils/pipProgress';
+import { isValidProjectName, validateRequirementInput } from '../utils/pep508';
+import { PipingImportDiagnosticsProvider } from '../providers/importDiagnosticsProvider';
+import { ImportReport } from '../utils/importScanner';
+import { ENVIRONMENT_KIND_LABELS } from '../utils/environmentDiscovery';
+import { formatSize } from '../utils/environmentDetails';
+import { SecurityAudit } from '../utils/securityAudit';
+import { auditWithProgress, describeAuditReport } from '../commands/auditProgress';
+import { exportLicenseInventory, loadLicenseInventory } from '../commands/licenseExport';
+import { LICENSE_STATUS_LABELS, LicenseSource, isLicenseViolation } from '../utils/licenses';
+
+const LICENSE_SOURCE_LABELS: { [source in LicenseSource]: string } = {
+    expression: 'License-Expression',
+    license: 'License field',
+    classifier: 'Classifiers',
+    unknown: ''
+};
 
 export class PipingDashboardPanel {
     public static currentPanel: PipingDashboardPanel | undefined;
     
     private readonly _panel: vscode.WebviewPanel;
     private readonly _extensionUri: vscode.Uri;
-    private readonly _pythonExecutor: PythonExecutor;
+    private _pythonExecutor: PythonExecutor;
+    private readonly _packageIndex: PackageIndex;
+    private readonly _importDiagnostics: PipingImportDiagnosticsProvider;
+    private readonly _securityAudit: SecurityAudit;
     private _disposables: vscode.Disposable[] = [];
+    private _requirementsFile?: string;
+    private _requirementsDiff?: RequirementDiffEntry[];
+    private _requirementsProblems: RequirementProblem[] = [];
+    // The compared file as parsed, whose options and constraint files are kept when reconciling
+    private _requirementsSource?: RequirementsFile;
+    // The running pip operations by id, each with a Cancel button in the dashboard
+    private _operations = new Map<number, { cancellation: vscode.CancellationTokenSource, title: string, message: string, percent: number }>();
+    private _nextOperationId = 1;
+    // Searches wait for a pause in the queries, and only the latest one shows its results
+    private _searchTimer?: NodeJS.Timeout;
+    private _searchId = 0;
     
-    public static createOrShow(extensionUri: vscode.Uri, pythonExecutor: PythonExecutor) {
+    public static createOrShow(
+        extensionUri: vscode.Uri,
+        pythonExecutor: PythonExecutor,
+        packageIndex: PackageIndex,
+        importDiagnostics: PipingImportDiagnosticsProvider,
+        securityAudit: SecurityAudit
+    ) {
         const column = vscode.window.activeTextEditor
             ? vscode.window.activeTextEditor.viewColumn
             : undefined;
             
-        // If we already have a panel, show it
+        // If we already have a panel, show it for the requested workspace folder
         if (PipingDashboardPanel.currentPanel) {
+            PipingDashboardPanel.currentPanel._setPythonExecutor(pythonExecutor);
             PipingDashboardPanel.currentPanel._panel.reveal(column);
             return;
         }
@@ -38,13 +86,23 @@ export class PipingDashboardPanel {
             }
         );
         
-        PipingDashboardPanel.currentPanel = new PipingDashboardPanel(panel, extensionUri, pythonExecutor);
+        PipingDashboardPanel.currentPanel = new PipingDashboardPanel(panel, extensionUri, pythonExecutor, packageIndex, importDiagnostics, securityAudit);
     }
     
-    private constructor(panel: vscode.WebviewPanel, extensionUri: vscode.Uri, pythonExecutor: PythonExecutor) {
+    private constructor(
+        panel: vscode.WebviewPanel,
+        extensionUri: vscode.Uri,
+        pythonExecutor: PythonExecutor,
+        packageIndex: PackageIndex,
+        importDiagnostics: PipingImportDiagnosticsProvider,
+        securityAudit: SecurityAudit
+    ) {
         this._panel = panel;
         this._extensionUri = extensionUri;
         this._pythonExecutor = pythonExecutor;
+        this._packageIndex = packageIndex;
+        this._importDiagnostics = importDiagnostics;
+        this._securityAudit = securityAudit;
         
         // Set the webview's initial html content
         this._update();
@@ -64,11 +122,30 @@ export class PipingDashboardPanel {
             this._disposables
         );
         
+        // Show new import analyses, e.g. after a file was saved
+        this._importDiagnostics.onDidUpdateReport(() => this._postFolderImportReport(), null, this._disposables);
+        
+        // Show new audits of the environment, also those run from the package tree
+        this._securityAudit.onDidChange(() => this._postAuditReport(false), null, this._disposables);
+        
         // Handle messages from the webview
         this._panel.webview.onDidReceiveMessage(
             async (message) => {
                 switch (message.command) {
+                    case 'ready':
+                        await this._updatePackageData();
+                        this._postRequirementsDiff(false);
+                        this._postFolderImportReport();
+                        this._postOperationProgress();
+                        await this._postAuditReport(false);
+                        break;
+                    case 'cancelOperation':
+                        this._operations.get(message.id)?.cancellation.cancel();
+                        break;
                     case 'refreshPackages':
+                        if (message.reload) {
+                            this._pythonExecutor.invalidatePackageCache();
+                        }
                         await this._updatePackageData();
                         break;
                     case 'installPackage':
@@ -88,9 +165,50 @@ export class PipingDashboardPanel {
                         break;
                     case 'searchPackages':
                         if (message.query) {
-                            await this._searchPackages(message.query);
+                            this._scheduleSearch(message.query);
+                        }
+                        break;
+                    case 'getDependencyGraph':
+                        await this._updateDependencyGraph();
+                        break;
+                    case 'selectRequirementsFile':
+                        await this.showRequirementsSync();
+                        break;
+                    case 'compareRequirements':
+                        await this._updateRequirementsDiff(false);
+                        break;
+                    case 'reconcileRequirements':
+                        await this._reconcileRequirements(!!message.removeUnlisted);
+                        break;
+                    case 'scanImports':
+                        await this._scanImports();
+                        break;
+                    case 'openImport':
+                        await this._openImport(message.file, message.line);
+                        break;
+                    case 'getEnvironments':
+                        await this._updateEnvironments();
+                        break;
+                    case 'auditEnvironment':
+                        if (!await auditWithProgress(this._securityAudit, this._pythonExecutor)) {
+                            // Show the previous report again in place of "Auditing..."
+                            await this._postAuditReport(true);
                         }
                         break;
+                    case 'upgradeToSafeVersion':
+                        if (message.package) {
+                            await this._upgradeToSafeVersion(message.package);
+                        }
+                        break;
+                    case 'getLicenses':
+                        await this._updateLicenses();
+                        break;
+                    case 'exportLicenses':
+                        await exportLicenseInventory(this._pythonExecutor, message.format === 'json' ? 'json' : 'csv');
+                        break;
+                    case 'openAdvisory':
+                        await this._openAdvisory(message.url);
+                        break;
                 }
             },
             null,
@@ -98,10 +216,29 @@ export class PipingDashboardPanel {
         );
     }
     
+    /**
+     * Show another workspace folder's environment, forgetting what belonged to the previous one
+     */
+    private _setPythonExecutor(pythonExecutor: PythonExecutor) {
+        if (pythonExecutor === this._pythonExecutor) {
+            return;
+        }
+        this._pythonExecutor = pythonExecutor;
+        this._requirementsFile = undefined;
+        this._requirementsDiff = undefined;
+        this._requirementsProblems = [];
+        this._requirementsSource = undefined;
+        this._update();
+    }
+    
     private async _update() {
         const webview = this._panel.webview;
         
-        this._panel.title = 'Piping Dashboard';
+        // Multi-root workspaces have a dashboard per folder, one at a time
+        const folder = this._pythonExecutor.folder;
+        this._panel.title = folder && (vscode.workspace.workspaceFolders?.length || 0) > 1
+            ? `Piping Dashboard: ${folder.name}`
+            : 'Piping Dashboard';
         this._panel.webview.html = this._getHtmlForWebview(webview);
         
         // Load package data
@@ -119,17 +256,400 @@ export class PipingDashboardPanel {
                 packages
             });
         } catch (error) {
-            console.error('Error updating package data:', error);
+            this._pythonExecutor.outputChannel.appendLine(`Error updating package data: ${error}`);
         }
     }
     
-    private async _installPackage(packageSpec: string) {
+    private async _updateDependencyGraph() {
         try {
-            vscode.window.withProgress({
+            const graph = await this._pythonExecutor.getDependencyGraph();
+            
+            this._panel.webview.postMessage({
+                command: 'updateGraph',
+                graph
+            });
+        } catch (error) {
+            this._pythonExecutor.outputChannel.appendLine(`Error updating dependency graph: ${error}`);
+        }
+    }
+    
+    /**
+     * Read the details of every discovered environment for the overview table
+     */
+    private async _updateEnvironments() {
+        try {
+            const environments = await this._pythonExecutor.getVirtualEnvironments();
+            const rows = [];
+            
+            // One at a time: each environment starts an interpreter and walks its folder
+            for (const env of environments) {
+                const details = await this._pythonExecutor.getEnvironmentDetails(env);
+                rows.push({
+                    name: details.name,
+                    path: details.path,
+                    kind: ENVIRONMENT_KIND_LABELS[details.kind],
+                    isActive: details.isActive,
+                    python: details.pythonVersion
+                        ? `${details.pythonVersion}${details.implementation ? ` (${details.implementation})` : ''}`
+                        : '',
+                    baseInterpreter: details.baseInterpreter || '',
+                    packageCount: details.packageCount,
+                    size: details.sizeBytes !== undefined ? formatSize(details.sizeBytes) : '',
+                    systemSitePackages: details.systemSitePackages === undefined ? '' : details.systemSitePackages ? 'shared' : 'isolated',
+                    created: details.createdAt !== undefined ? new Date(details.createdAt).toLocaleDateString() : ''
+                });
+            }
+            
+            this._panel.webview.postMessage({
+                command: 'environments',
+                environments: rows
+            });
+        } catch (error) {
+            this._pythonExecutor.outputChannel.appendLine(`Error updating environments: ${error}`);
+        }
+    }
+    
+    /**
+     * Compare a requirements file with the active environment and show the result
+     */
+    public async showRequirementsSync(fileUri?: vscode.Uri) {
+        const filePath = fileUri ? fileUri.fsPath : await this._pickRequirementsFile();
+        if (!filePath) {
+            return;
+        }
+        
+        this._requirementsFile = filePath;
+        await this._updateRequirementsDiff(true);
+    }
+    
+    private async _pickRequirementsFile(): Promise<string | undefined> {
+        const files = await findRequirementsFiles(this._pythonExecutor.folder);
+        if (!files.length) {
+            vscode.window.showWarningMessage('No requirements*.txt files found in the workspace');
+            return undefined;
+        }
+        
+        const picked = await vscode.window.showQuickPick(
+            files.map(uri => ({ label: vscode.workspace.asRelativePath(uri), uri })),
+            { placeHolder: 'Select a requirements file to compare with the active environment' }
+        );
+        return picked?.uri.fsPath;
+    }
+    
+    private async _updateRequirementsDiff(reveal: boolean) {
+        if (!this._requirementsFile) {
+            return;
+        }
+        
+        try {
+            const requirementsFile = await parseRequirementsFile(this._requirementsFile);
+            const [installed, environment] = await Promise.all([
+                this._pythonExecutor.getInstalledPackages(),
+                this._pythonExecutor.getMarkerEnvironment()
+            ]);
+            
+            this._requirementsDiff = diffRequirements(requirementsFile, installed, environment);
+            this._requirementsProblems = requirementsFile.problems;
+            this._requirementsSource = requirementsFile;
+            this._postRequirementsDiff(reveal);
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error comparing requirements: ${error}`);
+        }
+    }
+    
+    private _postRequirementsDiff(reveal: boolean) {
+        if (!this._requirementsFile || !this._requirementsDiff) {
+            return;
+        }
+        
+        this._panel.webview.postMessage({
+            command: 'requirementsDiff',
+            file: vscode.workspace.asRelativePath(this._requirementsFile),
+            entries: this._requirementsDiff,
+            problems: this._requirementsProblems.map(problem => ({
+                ...problem,
+                file: vscode.workspace.asRelativePath(problem.file)
+            })),
+            reveal
+        });
+    }
+    
+    /**
+     * Run pip under a cancellable notification, showing the same progress in the dashboard
+     */
+    private async _runPipOperation<T>(title: string, task: (operation: Required<PipOperation>) => Promise<T>): Promise<T> {
+        const id = this._nextOperationId++;
+        const cancellation = new vscode.CancellationTokenSource();
+        const running = { cancellation, title, message: 'Starting pip', percent: 0 };
+        this._operations.set(id, running);
+        this._postOperationProgress();
+        
+        try {
+            return await withPipProgress(title, task, {
+                token: cancellation.token,
+                onProgress: update => {
+                    running.message = update.message;
+                    running.percent = update.percent;
+                    this._postOperationProgress();
+                }
+            });
+        } finally {
+            this._operations.delete(id);
+            this._postOperationProgress();
+            cancellation.dispose();
+        }
+    }
+    
+    private _postOperationProgress() {
+        const operations = [...this._operations].map(([id, { title, message, percent }]) => ({ id, title, message, percent }));
+        this._panel.webview.postMessage({ command: 'operationProgress', operations });
+    }
+    
+    /**
+     * List the license of every installed package and how it fares against the folder's policy
+     */
+    private async _updateLicenses() {
+        try {
+            const { entries, policy } = await loadLicenseInventory(this._pythonExecutor);
+            this._panel.webview.postMessage({
+                command: 'licenses',
+                policy: policy ? vscode.workspace.asRelativePath(policy.file) : undefined,
+                entries: entries.map(entry => ({
+                    ...entry,
+                    source: LICENSE_SOURCE_LABELS[entry.source],
+                    status: LICENSE_STATUS_LABELS[entry.status],
+                    violation: isLicenseViolation(entry.status)
+                }))
+            });
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error reading the license policy: ${error}`);
+        }
+    }
+    
+    /**
+     * Show the Security tab with the latest audit of the environment
+     */
+    public async showSecurityAudit() {
+        await this._postAuditReport(true);
+    }
+    
+    private async _postAuditReport(reveal: boolean) {
+        const report = this._securityAudit.getReport(await this._pythonExecutor.getEnvironmentKey());
+        if (!report && !reveal) {
+            return;
+        }
+        
+        this._panel.webview.postMessage({
+            command: 'auditReport',
+            report: report && {
+                summary: describeAuditReport(report),
+                source: report.source,
+                checkedAt: new Date(report.checkedAt).toLocaleString(),
+                vulnerable: report.vulnerable
+            },
+            reveal
+        });
+    }
+    
+    private async _openAdvisory(url: unknown) {
+        // Only web pages, whatever the webview sends
+        const uri = vscode.Uri.parse(String(url ?? ''));
+        if (uri.scheme === 'https' || uri.scheme === 'http') {
+            await vscode.env.openExternal(uri);
+        }
+    }
+    
+    private async _upgradeToSafeVersion(packageName: string) {
+        try {
+            const report = this._securityAudit.getReport(await this._pythonExecutor.getEnvironmentKey());
+            const installed = (await this._pythonExecutor.getInstalledPackages())
+                .find(pkg => normalizePackageName(pkg.name) === normalizePackageName(String(packageName ?? '')));
+            const vulnerability = installed && this._securityAudit.findVulnerability(report, installed.name, installed.version);
+            if (!installed || !vulnerability?.safeVersion) {
+                vscode.window.showWarningMessage(`Audit the environment again to find a safe version of ${packageName}`);
+                return;
+            }
+            
+            const { name } = installed;
+            const { safeVersion } = vulnerability;
+            if (!await confirmInstallPreview(this._pythonExecutor, [`${name}==${safeVersion}`])) {
+                return;
+            }
+            
+            const upgraded = await this._runPipOperation(`Upgrading ${name} to ${safeVersion}`, async (operation) => {
+                const success = await this._pythonExecutor.installPackage(name, safeVersion, operation);
+                
+                if (success) {
+                    vscode.window.showInformationMessage(`Successfully upgraded ${name} to ${safeVersion}`);
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled upgrading ${name}`);
+                } else {
+                    vscode.window.showErrorMessage(`Failed to upgrade ${name} to ${safeVersion}`);
+                }
+                await this._updatePackageData();
+                return success;
+            });
+            
+            // The upgrade can bring in other versions of dependencies too
+            if (upgraded) {
+                await auditWithProgress(this._securityAudit, this._pythonExecutor);
+            }
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error upgrading package: ${error}`);
+        }
+    }
+    
+    private async _scanImports() {
+        try {
+            await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
-                title: `Installing ${packageSpec}...`,
+                title: 'Scanning workspace imports...',
                 cancellable: false
-            }, async () => {
+            }, () => this._importDiagnostics.scanWorkspace());
+        } catch (error) {
+            vscode.window.showErrorMessage(`Error scanning imports: ${error}`);
+        }
+    }
+    
+    private _postFolderImportReport() {
+        const report = this._importDiagnostics.reportFor(this._pythonExecutor);
+        if (report) {
+            this._postImportReport(report);
+        }
+    }
+    
+    private _postImportReport(report: ImportReport) {
+        this._panel.webview.postMessage({
+            command: 'importReport',
+            scannedFiles: report.scannedFiles,
+            missing: report.missing.map(entry => ({
+                module: entry.module,
+                distribution: entry.distribution,
+                references: entry.references.map(reference => ({
+                    file: reference.file,
+                    label: `${vscode.workspace.asRelativePath(reference.file)}${reference.cell !== undefined ? ` (cell ${reference.cell + 1})` : ''}:${reference.line + 1}`,
+                    line: reference.line
+                }))
+            })),
+            unused: report.unused
+        });
+    }
+    
+    private async _openImport(file: string, line: number) {
+        if (!file) {
+            return;
+        }
+        if (file.endsWith('.ipynb')) {
+            await vscode.commands.executeCommand('vscode.open', vscode.Uri.file(file));
+            return;
+        }
+        const document = await vscode.workspace.openTextDocument(vscode.Uri.file(file));
+        await vscode.window.showTextDocument(document, {
+            viewColumn: vscode.ViewColumn.One,
+            selection: new vscode.Range(line || 0, 0, line || 0, 0)
+        });
+    }
+    
+    private async _reconcileRequirements(removeUnlisted: boolean) {
+        if (!this._requirementsDiff) {
+            return;
+        }
+        
+        const toInstall = this._requirementsDiff.filter(entry =>
+            (entry.status === 'missing' || entry.status === 'mismatch') && entry.installSpec);
+        const toRemove = removeUnlisted ? this._requirementsDiff.filter(entry => entry.status === 'unlisted') : [];
+        
+        if (!toInstall.length && !toRemove.length) {
+            vscode.window.showInformationMessage('The environment already matches the requirements');
+            return;
+        }
+        
+        // Constraint files are on this machine, where pip on a remote target cannot read them
+        const remote = !!this._pythonExecutor.currentEnv?.target;
+        const skippedConstraints = remote && toInstall.length && this._requirementsSource ? constraintFiles(this._requirementsSource) : [];
+        
+        const details = [
+            ...toInstall.map(entry => `Install ${entry.installSpec}`),
+            ...toRemove.map(entry => `Uninstall ${entry.name} ${entry.installedVersion}`)
+        ];
+        const notes = skippedConstraints.map(file => `The constraints in ${vscode.workspace.asRelativePath(file)} are not applied on the remote target`);
+        const confirmation = await vscode.window.showWarningMessage(
+            `Apply ${details.length} change(s) to the active environment?`,
+            { modal: true, detail: [...details, ...notes].join('\n') },
+            'Apply'
+        );
+        
+        if (confirmation !== 'Apply') {
+            return;
+        }
+        
+        // The installs run as one requirements file, so pip checks the hashes and uses the file's indexes and constraints
+        const optionLines = this._requirementsSource ? fileOptionLines(this._requirementsSource, !remote) : [];
+        const installLines = [...optionLines, ...toInstall.map(requirementLineOf)];
+        notes.forEach(note => this._pythonExecutor.outputChannel.appendLine(note));
+        const failures: string[] = [];
+        const removeNames = toRemove.map(entry => entry.name);
+        const steps: Array<{ label: string, run: (operation: PipOperation) => Promise<boolean> }> = [];
+        if (toInstall.length) {
+            steps.push({ label: `${toInstall.length} requirement(s)`, run: operation => this._pythonExecutor.installRequirements(installLines, operation) });
+        }
+        if (removeNames.length) {
+            steps.push({ label: removeNames.join(', '), run: operation => this._pythonExecutor.uninstallPackages(removeNames, operation) });
+        }
+        
+        const cancelled = await this._runPipOperation('Reconciling requirements', async (operation) => {
+            for (const [index, step] of steps.entries()) {
+                // Each step fills its share of the bar
+                const stepOperation: PipOperation = {
+                    token: operation.token,
+                    cancel: operation.cancel,
+                    onProgress: update => operation.onProgress({
+                        ...update,
+                        message: `${step.label}: ${update.message}`,
+                        percent: Math.round((index * 100 + update.percent) / steps.length)
+                    })
+                };
+                if (!await step.run(stepOperation)) {
+                    if (operation.token.isCancellationRequested) {
+                        return true;
+                    }
+                    failures.push(step.label);
+                }
+            }
+            return false;
+        });
+        
+        if (cancelled) {
+            vscode.window.showInformationMessage('Cancelled reconciling the requirements');
+        } else if (failures.length) {
+            vscode.window.showErrorMessage(`Failed to apply: ${failures.join(', ')}. See output channel for details.`);
+        } else {
+            vscode.window.showInformationMessage('Environment reconciled with the requirements');
+        }
+        
+        await this._updatePackageData();
+        await this._updateRequirementsDiff(false);
+    }
+    
+    private async _installPackage(packageSpec: string) {
+        try {
+            // Messages from the webview are checked like typed input
+            const problem = validateRequirementInput(String(packageSpec ?? ''));
+            if (problem) {
+                vscode.window.showErrorMessage(problem);
+                return;
+            }
+            
+            if (!await confirmInstallPreview(this._pythonExecutor, [packageSpec])) {
+                return;
+            }
+            
+            const pyprojectTarget = await askPyprojectTarget(this._pythonExecutor.folder);
+            if (!pyprojectTarget) {
+                return;
+            }
+            
+            await this._runPipOperation(`Installing ${packageSpec}`, async (operation) => {
                 let packageName = packageSpec;
                 let version: string | undefined;
                 
@@ -140,10 +660,14 @@ export class PipingDashboardPanel {
                     version = parts[1];
                 }
                 
-                const success = await this._pythonExecutor.installPackage(packageName, version);
+                const success = await this._pythonExecutor.installPackage(packageName, version, operation);
                 
                 if (success) {
                     vscode.window.showInformationMessage(`Successfully installed ${packageSpec}`);
+                    await addToPyproject(pyprojectTarget, packageSpec);
+                    await this._updatePackageData();
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled installing ${packageSpec}`);
                     await this._updatePackageData();
                 } else {
                     vscode.window.showErrorMessage(`Failed to install ${packageSpec}`);
@@ -156,30 +680,32 @@ export class PipingDashboardPanel {
     
     private async _uninstallPackage(packageName: string) {
         try {
-            // Confirm with the user
-            const confirmation = await vscode.window.showWarningMessage(
-                `Are you sure you want to uninstall ${packageName}?`,
-                { modal: true },
-                'Yes',
-                'No'
-            );
-            
-            if (confirmation !== 'Yes') {
+            if (!isValidProjectName(String(packageName ?? ''))) {
+                vscode.window.showErrorMessage(`Invalid package name '${packageName}'`);
                 return;
             }
             
-            vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `Uninstalling ${packageName}...`,
-                cancellable: false
-            }, async () => {
-                const success = await this._pythonExecutor.uninstallPackage(packageName);
+            // Confirm with the user, warning about packages that depend on this one
+            const choice = await confirmUninstall(this._pythonExecutor, packageName);
+            if (!choice) {
+                return;
+            }
+            
+            const removed = choice.packages.join(', ');
+            await this._runPipOperation(`Uninstalling ${removed}`, async (operation) => {
+                const success = await this._pythonExecutor.uninstallPackages(choice.packages, operation);
                 
                 if (success) {
-                    vscode.window.showInformationMessage(`Successfully uninstalled ${packageName}`);
+                    vscode.window.showInformationMessage(`Successfully uninstalled ${removed}`);
+                    if (choice.removeFromPyproject) {
+                        await removeFromPyproject(choice.removeFromPyproject, packageName);
+                    }
+                    await this._updatePackageData();
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled uninstalling ${removed}`);
                     await this._updatePackageData();
                 } else {
-                    vscode.window.showErrorMessage(`Failed to uninstall ${packageName}`);
+                    vscode.window.showErrorMessage(`Failed to uninstall ${removed}`);
                 }
             });
         } catch (error) {
@@ -189,16 +715,20 @@ export class PipingDashboardPanel {
     
     private async _updatePackage(packageName: string) {
         try {
-            vscode.window.withProgress({
-                location: vscode.ProgressLocation.Notification,
-                title: `Updating ${packageName}...`,
-                cancellable: false
-            }, async () => {
-                const success = await this._pythonExecutor.updatePackage(packageName);
+            if (!isValidProjectName(String(packageName ?? ''))) {
+                vscode.window.showErrorMessage(`Invalid package name '${packageName}'`);
+                return;
+            }
+            
+            await this._runPipOperation(`Updating ${packageName}`, async (operation) => {
+                const success = await this._pythonExecutor.updatePackage(packageName, operation);
                 
                 if (success) {
                     vscode.window.showInformationMessage(`Successfully updated ${packageName}`);
                     await this._updatePackageData();
+                } else if (operation.token.isCancellationRequested) {
+                    vscode.window.showInformationMessage(`Cancelled updating ${packageName}`);
+                    await this._updatePackageData();
                 } else {
                     vscode.window.showErrorMessage(`Failed to update ${packageName}`);
                 }
@@ -208,14 +738,42 @@ export class PipingDashboardPanel {
         }
     }
     
-    private async _searchPackages(query: string) {
+    private _scheduleSearch(query: string) {
+        if (this._searchTimer) {
+            clearTimeout(this._searchTimer);
+        }
+        const searchId = ++this._searchId;
+        this._searchTimer = setTimeout(() => {
+            this._searchTimer = undefined;
+            this._searchPackages(query, searchId);
+        }, 300);
+    }
+    
+    private async _searchPackages(query: string, searchId: number) {
         try {
-            vscode.window.withProgress({
+            await vscode.window.withProgress({
                 location: vscode.ProgressLocation.Notification,
                 title: `Searching for '${query}'...`,
                 cancellable: false
             }, async () => {
-                const results = await this._pythonExecutor.searchPackages(query);
+                let results: PackageInfo[];
+                
+                try {
+                    results = await this._packageIndex.search(query);
+                } catch (error) {
+                    // Fall back to searching the packages that are already installed
+                    this._pythonExecutor.outputChannel.appendLine(`Error searching package index: ${error}`);
+                    vscode.window.showWarningMessage(`Package index search failed (${error}). Showing matching installed packages instead.`);
+                    
+                    const normalizedQuery = normalizePackageName(query);
+                    const installed = await this._pythonExecutor.getInstalledPackages();
+                    results = installed.filter(pkg => normalizePackageName(pkg.name).includes(normalizedQuery));
+                }
+                
+                // A newer search replaces these results
+                if (searchId !== this._searchId) {
+                    return;
+                }
                 
                 // Update the webview with search results
                 this._panel.webview.postMessage({
@@ -224,6 +782,7 @@ export class PipingDashboardPanel {
                 });
             });
         } catch (error) {
+            this._pythonExecutor.outputChannel.appendLine(`Error searching packages: ${error}`);
             vscode.window.showErrorMessage(`Error searching packages: ${error}`);
         }
     }
@@ -363,6 +922,14 @@ export class PipingDashboardPanel {
             color: var(--vscode-notificationsUpdateIcon-foreground);
         }
         
+        .package-installer {
+            font-size: 0.85em;
+            padding: 0 4px;
+            border-radius: 3px;
+            background-color: var(--vscode-badge-background);
+            color: var(--vscode-badge-foreground);
+        }
+        
         .package-actions {
             display: flex;
             gap: 4px;
@@ -372,10 +939,198 @@ export class PipingDashboardPanel {
             display: none;
         }
         
+        .operations {
+            margin-bottom: 20px;
+        }
+        
+        .operation {
+            display: flex;
+            align-items: center;
+            gap: 10px;
+            margin-bottom: 8px;
+        }
+        
+        .operation-text {
+            flex: 1;
+        }
+        
+        .operation-message {
+            display: block;
+            font-size: 0.85em;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .operation progress {
+            width: 200px;
+        }
+        
+        .requirements-toolbar {
+            display: flex;
+            align-items: center;
+            flex-wrap: wrap;
+            margin-bottom: 10px;
+        }
+        
+        .requirements-toolbar .requirements-file {
+            flex: 1;
+            font-weight: bold;
+        }
+        
+        .requirements-toolbar input[type="checkbox"] {
+            display: inline;
+            width: auto;
+        }
+        
+        .requirement-status {
+            margin-left: 10px;
+        }
+        
+        .requirement-status.missing {
+            color: var(--vscode-errorForeground);
+        }
+        
+        .requirement-status.mismatch {
+            color: var(--vscode-notificationsWarningIcon-foreground);
+        }
+        
+        .requirement-status.unlisted {
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .requirement-status.satisfied {
+            color: var(--vscode-terminal-ansiGreen);
+        }
+        
+        .requirements-problems {
+            margin-top: 10px;
+            color: var(--vscode-errorForeground);
+        }
+        
+        .environments-table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        
+        .environments-table th,
+        .environments-table td {
+            text-align: left;
+            padding: 6px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+        
+        .environments-table tr.active td {
+            font-weight: bold;
+        }
+        
+        .environments-table .environment-path {
+            display: block;
+            font-size: 0.85em;
+            font-weight: normal;
+            color: var(--vscode-descriptionForeground);
+        }
+        
+        .environments-table th[data-sort] {
+            cursor: pointer;
+        }
+        
+        .environments-table tr.license-violation td {
+            color: var(--vscode-errorForeground);
+        }
+        
+        .license-not-spdx {
+            font-style: italic;
+        }
+        
+        .advisory {
+            margin: 4px 0 0 10px;
+        }
+        
+        .advisory a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
+        
+        .advisory-severity {
+            color: var(--vscode-errorForeground);
+            margin-left: 6px;
+        }
+        
+        .import-locations a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+            margin-right: 8px;
+        }
+        
         .graph-container {
             height: 500px;
             border: 1px solid var(--vscode-panel-border);
             position: relative;
+            overflow: auto;
+            flex: 1;
+        }
+        
+        .graph-toolbar {
+            display: flex;
+            align-items: center;
+            margin-bottom: 10px;
+        }
+        
+        .graph-toolbar input {
+            flex: 1;
+            margin-right: 10px;
+        }
+        
+        .graph-layout {
+            display: flex;
+            gap: 10px;
+        }
+        
+        .graph-details {
+            width: 250px;
+            padding: 8px;
+            border: 1px solid var(--vscode-panel-border);
+            overflow-y: auto;
+            max-height: 500px;
+        }
+        
+        .graph-details ul {
+            margin: 4px 0 12px 0;
+        }
+        
+        .graph-details a {
+            color: var(--vscode-textLink-foreground);
+            cursor: pointer;
+        }
+        
+        .graph-node rect {
+            fill: var(--vscode-editorWidget-background);
+            stroke: var(--vscode-panel-border);
+        }
+        
+        .graph-node text {
+            fill: var(--vscode-foreground);
+            font-size: 12px;
+        }
+        
+        .graph-node.missing rect {
+            stroke-dasharray: 4 2;
+        }
+        
+        .graph-node.selected rect {
+            stroke: var(--vscode-focusBorder);
+            stroke-width: 2px;
+        }
+        
+        .graph-edge {
+            fill: none;
+            stroke: var(--vscode-descriptionForeground);
+            stroke-opacity: 0.4;
+        }
+        
+        .graph-edge.highlighted {
+            stroke: var(--vscode-button-background);
+            stroke-opacity: 1;
+            stroke-width: 2px;
         }
     </style>
 </head>
@@ -389,11 +1144,18 @@ export class PipingDashboardPanel {
             <button id="refresh-button">Refresh</button>
         </div>
         
+        <div class="operations" id="operations"></div>
+        
         <div class="tabs">
             <div class="tab active" data-tab="installed">Installed Packages</div>
             <div class="tab" data-tab="updates">Updates Available</div>
             <div class="tab" data-tab="search">Search Results</div>
             <div class="tab" data-tab="graph">Dependency Graph</div>
+            <div class="tab" data-tab="requirements">Requirements</div>
+            <div class="tab" data-tab="imports">Imports</div>
+            <div class="tab" data-tab="environments">Environments</div>
+            <div class="tab" data-tab="security">Security</div>
+            <div class="tab" data-tab="licenses">Licenses</div>
         </div>
         
         <div class="tab-content active" data-tab="installed">
@@ -414,9 +1176,76 @@ export class PipingDashboardPanel {
             </div>
         </div>
         
+        <div class="tab-content" data-tab="requirements">
+            <div class="requirements-toolbar">
+                <span class="requirements-file" id="requirements-file">No requirements file selected</span>
+                <button id="requirements-choose">Choose File...</button>
+                <button id="requirements-compare">Compare Again</button>
+                <label><input type="checkbox" id="requirements-remove-unlisted"> Uninstall unlisted packages</label>
+                <button id="requirements-reconcile">Reconcile</button>
+            </div>
+            <div class="package-list" id="requirements-list">
+                <div class="no-results">Choose a requirements file to compare it with the active environment</div>
+            </div>
+            <div class="requirements-problems" id="requirements-problems"></div>
+        </div>
+        
+        <div class="tab-content" data-tab="imports">
+            <div class="requirements-toolbar">
+                <span class="requirements-file" id="imports-summary">The workspace has not been scanned yet</span>
+                <button id="imports-scan">Scan Workspace</button>
+            </div>
+            <h3>Imported but not installed</h3>
+            <div class="package-list" id="imports-missing">
+                <div class="no-results">Scan the workspace to find imports without an installed package</div>
+            </div>
+            <h3>Installed but never imported</h3>
+            <div class="package-list" id="imports-unused">
+                <div class="no-results">Scan the workspace to find packages the code never imports</div>
+            </div>
+        </div>
+        
+        <div class="tab-content" data-tab="environments">
+            <div class="requirements-toolbar">
+                <span class="requirements-file" id="environments-summary">Loading environments...</span>
+                <button id="environments-refresh">Refresh</button>
+            </div>
+            <div id="environments-list"></div>
+        </div>
+        
+        <div class="tab-content" data-tab="security">
+            <div class="requirements-toolbar">
+                <span class="requirements-file" id="security-summary">The environment has not been audited yet</span>
+                <button id="security-audit">Audit Environment</button>
+            </div>
+            <div class="package-list" id="security-list">
+                <div class="no-results">Audit the environment to check its packages against OSV advisories</div>
+            </div>
+        </div>
+        
+        <div class="tab-content" data-tab="licenses">
+            <div class="requirements-toolbar">
+                <span class="requirements-file" id="licenses-summary">Loading licenses...</span>
+                <button id="licenses-refresh">Refresh</button>
+                <button id="licenses-export-csv">Export CSV</button>
+                <button id="licenses-export-json">Export JSON</button>
+            </div>
+            <div id="licenses-list"></div>
+        </div>
+        
         <div class="tab-content" data-tab="graph">
-            <div class="graph-container" id="dependency-graph">
-                <div class="loading">Loading dependency graph...</div>
+            <div class="graph-toolbar">
+                <input type="text" id="graph-filter" list="graph-filter-options" placeholder="Filter graph to a package...">
+                <datalist id="graph-filter-options"></datalist>
+                <button id="graph-filter-clear">Show All</button>
+            </div>
+            <div class="graph-layout">
+                <div class="graph-container" id="dependency-graph">
+                    <div class="loading">Loading dependency graph...</div>
+                </div>
+                <div class="graph-details" id="graph-details">
+                    <div class="no-results">Select a package to see its details</div>
+                </div>
             </div>
         </div>
     </div>
@@ -425,6 +1254,12 @@ export class PipingDashboardPanel {
             // Store package data
             let installedPackages = [];
             let searchResults = [];
+            let dependencyGraph = null;
+            let graphFilter = '';
+            let selectedNodeId = null;
+            let environmentsLoaded = false;
+            let licenseEntries = [];
+            let licenseSort = { key: 'name', descending: false };
             
             // Get DOM elements
             const vsCode = acquireVsCodeApi();
@@ -434,6 +1269,39 @@ export class PipingDashboardPanel {
             const installedPackagesList = document.getElementById('installed-packages');
             const updatesPackagesList = document.getElementById('updates-packages');
             const searchPackagesList = document.getElementById('search-packages');
+            const graphContainer = document.getElementById('dependency-graph');
+            const graphDetails = document.getElementById('graph-details');
+            const graphFilterInput = document.getElementById('graph-filter');
+            const graphFilterOptions = document.getElementById('graph-filter-options');
+            const graphFilterClear = document.getElementById('graph-filter-clear');
+            const svgNamespace = 'http://www.w3.org/2000/svg';
+            const requirementsFileLabel = document.getElementById('requirements-file');
+            const requirementsList = document.getElementById('requirements-list');
+            const requirementsProblems = document.getElementById('requirements-problems');
+            const removeUnlistedCheckbox = document.getElementById('requirements-remove-unlisted');
+            const importsSummary = document.getElementById('imports-summary');
+            const importsMissingList = document.getElementById('imports-missing');
+            const importsUnusedList = document.getElementById('imports-unused');
+            const environmentsSummary = document.getElementById('environments-summary');
+            const environmentsList = document.getElementById('environments-list');
+            const securitySummary = document.getElementById('security-summary');
+            const licensesSummary = document.getElementById('licenses-summary');
+            const licensesList = document.getElementById('licenses-list');
+            const securityList = document.getElementById('security-list');
+            const operationsList = document.getElementById('operations');
+            
+            function escapeHtml(text) {
+                return String(text)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;');
+            }
+            
+            function activateTab(tabName) {
+                tabs.forEach(t => t.classList.toggle('active', t.getAttribute('data-tab') === tabName));
+                tabContents.forEach(c => c.classList.toggle('active', c.getAttribute('data-tab') === tabName));
+            }
             const tabs = document.querySelectorAll('.tab');
             const tabContents = document.querySelectorAll('.tab-content');
             
@@ -448,6 +1316,19 @@ export class PipingDashboardPanel {
                     tab.classList.add('active');
                     const tabName = tab.getAttribute('data-tab');
                     document.querySelector(\`.tab-content[data-tab="\${tabName}"]\`).classList.add('active');
+                    
+                    // The graph needs metadata for every package, so only load it on demand
+                    if (tabName === 'graph' && !dependencyGraph) {
+                        requestDependencyGraph();
+                    }
+                    // Reading environment details starts an interpreter per environment
+                    if (tabName === 'environments' && !environmentsLoaded) {
+                        requestEnvironments();
+                    }
+                    // The policy file may have changed since the tab was last shown
+                    if (tabName === 'licenses') {
+                        requestLicenses();
+                    }
                 });
             });
             
@@ -475,11 +1356,573 @@ export class PipingDashboardPanel {
             
             // Handle refresh button click
             refreshButton.addEventListener('click', () => {
-                vsCode.postMessage({ command: 'refreshPackages' });
+                vsCode.postMessage({ command: 'refreshPackages', reload: true });
                 installedPackagesList.innerHTML = '<div class="loading">Refreshing packages...</div>';
                 updatesPackagesList.innerHTML = '<div class="loading">Refreshing updates...</div>';
+                
+                if (dependencyGraph) {
+                    requestDependencyGraph();
+                }
+            });
+            
+            // Show a bar for each running pip operation; Cancel stops that operation only
+            const cancelledOperations = new Set();
+            
+            operationsList.addEventListener('click', event => {
+                const button = event.target.closest('.operation-cancel');
+                if (!button) {
+                    return;
+                }
+                const id = Number(button.getAttribute('data-id'));
+                cancelledOperations.add(id);
+                button.disabled = true;
+                vsCode.postMessage({ command: 'cancelOperation', id });
+            });
+            
+            function renderOperations(operations) {
+                operationsList.innerHTML = operations.map(operation => \`
+                    <div class="operation">
+                        <div class="operation-text">
+                            <span>\${escapeHtml(operation.title)}</span>
+                            <span class="operation-message">\${escapeHtml(operation.message)} (\${operation.percent}%)</span>
+                        </div>
+                        <progress max="100" value="\${operation.percent}"></progress>
+                        <button class="operation-cancel" data-id="\${operation.id}" \${cancelledOperations.has(operation.id) ? 'disabled' : ''}>Cancel</button>
+                    </div>
+                \`).join('');
+            }
+            
+            // Handle requirements sync
+            document.getElementById('requirements-choose').addEventListener('click', () => {
+                vsCode.postMessage({ command: 'selectRequirementsFile' });
+            });
+            
+            document.getElementById('requirements-compare').addEventListener('click', () => {
+                vsCode.postMessage({ command: 'compareRequirements' });
+            });
+            
+            document.getElementById('requirements-reconcile').addEventListener('click', () => {
+                vsCode.postMessage({ command: 'reconcileRequirements', removeUnlisted: removeUnlistedCheckbox.checked });
+            });
+            
+            const requirementStatusLabels = {
+                missing: 'Missing',
+                mismatch: 'Wrong version',
+                unlisted: 'Not listed',
+                satisfied: 'OK'
+            };
+            
+            function renderRequirementsDiff(message) {
+                requirementsFileLabel.textContent = message.file;
+                
+                // Show problems first, then drift, then satisfied requirements
+                const order = ['missing', 'mismatch', 'unlisted', 'satisfied'];
+                const entries = message.entries.slice().sort((a, b) =>
+                    order.indexOf(a.status) - order.indexOf(b.status) || a.name.localeCompare(b.name));
+                
+                requirementsList.innerHTML = entries.length ? entries.map(entry => \`
+                    <div class="package-item">
+                        <div class="package-info">
+                            <span class="package-name">\${escapeHtml(entry.name)}</span>
+                            <span class="requirement-status \${entry.status}">\${requirementStatusLabels[entry.status]}</span>
+                            <div class="package-version">
+                                \${entry.required ? 'Required: ' + escapeHtml(entry.required) : ''}
+                                \${entry.installedVersion ? ' Installed: ' + escapeHtml(entry.installedVersion) : ''}
+                            </div>
+                        </div>
+                    </div>
+                \`).join('') : '<div class="no-results">The requirements file lists no packages</div>';
+                
+                requirementsProblems.innerHTML = message.problems.map(problem =>
+                    \`<div>\${escapeHtml(problem.file)}:\${problem.line}: \${escapeHtml(problem.message)}</div>\`
+                ).join('');
+                
+                if (message.reveal) {
+                    activateTab('requirements');
+                }
+            }
+            
+            // Handle the import scan
+            document.getElementById('imports-scan').addEventListener('click', () => {
+                importsSummary.textContent = 'Scanning...';
+                vsCode.postMessage({ command: 'scanImports' });
             });
             
+            function renderImportReport(message) {
+                importsSummary.textContent = \`Scanned \${message.scannedFiles} file(s): \${message.missing.length} missing, \${message.unused.length} never imported\`;
+                
+                importsMissingList.innerHTML = message.missing.length ? message.missing.map(entry => \`
+                    <div class="package-item">
+                        <div class="package-info">
+                            <span class="package-name">\${escapeHtml(entry.module)}</span>
+                            <span class="package-version">from \${escapeHtml(entry.distribution)}</span>
+                            <div class="import-locations">
+                                \${entry.references.map(reference => \`<a data-file="\${escapeHtml(reference.file)}" data-line="\${reference.line}">\${escapeHtml(reference.label)}</a>\`).join('')}
+                            </div>
+                        </div>
+                        <div class="package-actions">
+                            <button class="import-install-button" data-package="\${escapeHtml(entry.distribution)}">Install</button>
+                        </div>
+                    </div>
+                \`).join('') : '<div class="no-results">Every import is provided by an installed package</div>';
+                
+                importsUnusedList.innerHTML = message.unused.length ? message.unused.map(pkg => \`
+                    <div class="package-item">
+                        <div class="package-info">
+                            <span class="package-name">\${escapeHtml(pkg.name)}</span>
+                            <span class="package-version">\${escapeHtml(pkg.version)}</span>
+                        </div>
+                        <div class="package-actions">
+                            <button class="import-uninstall-button" data-package="\${escapeHtml(pkg.name)}">Uninstall</button>
+                        </div>
+                    </div>
+                \`).join('') : '<div class="no-results">Every installed package is imported or needed by one that is</div>';
+                
+                importsMissingList.querySelectorAll('.import-locations a').forEach(link => {
+                    link.addEventListener('click', () => {
+                        vsCode.postMessage({ command: 'openImport', file: link.getAttribute('data-file'), line: Number(link.getAttribute('data-line')) });
+                    });
+                });
+                importsMissingList.querySelectorAll('.import-install-button').forEach(button => {
+                    button.addEventListener('click', () => {
+                        vsCode.postMessage({ command: 'installPackage', package: button.getAttribute('data-package') });
+                    });
+                });
+                importsUnusedList.querySelectorAll('.import-uninstall-button').forEach(button => {
+                    button.addEventListener('click', () => {
+                        vsCode.postMessage({ command: 'uninstallPackage', package: button.getAttribute('data-package') });
+                    });
+                });
+            }
+            
+            // Handle the security audit
+            document.getElementById('security-audit').addEventListener('click', () => {
+                securitySummary.textContent = 'Auditing...';
+                vsCode.postMessage({ command: 'auditEnvironment' });
+            });
+            
+            function renderAuditReport(message) {
+                const report = message.report;
+                if (!report) {
+                    securitySummary.textContent = 'The environment has not been audited yet';
+                    securityList.innerHTML = '<div class="no-results">Audit the environment to check its packages against OSV advisories</div>';
+                } else {
+                    securitySummary.textContent = \`\${report.summary} (\${report.source}, \${report.checkedAt})\`;
+                    securityList.innerHTML = report.vulnerable.length ? report.vulnerable.map(pkg => \`
+                        <div class="package-item">
+                            <div class="package-info">
+                                <span class="package-name">\${escapeHtml(pkg.name)}</span>
+                                <span class="package-version">\${escapeHtml(pkg.version)}</span>
+                                \${pkg.advisories.map(advisory => \`
+                                    <div class="advisory">
+                                        <a data-url="\${escapeHtml(advisory.url)}">\${escapeHtml(advisory.id)}</a>
+                                        \${advisory.aliases.length ? '(' + escapeHtml(advisory.aliases.join(', ')) + ')' : ''}
+                                        \${advisory.severity ? '<span class="advisory-severity">' + escapeHtml(advisory.severity) + '</span>' : ''}
+                                        <div>\${escapeHtml(advisory.summary)}</div>
+                                        <div class="package-version">\${advisory.fixedVersions.length ? 'Fixed in ' + escapeHtml(advisory.fixedVersions.join(', ')) : 'No fixed version known'}</div>
+                                    </div>
+                                \`).join('')}
+                            </div>
+                            <div class="package-actions">
+                                \${pkg.safeVersion
+                                    ? \`<button class="security-upgrade-button" data-package="\${escapeHtml(pkg.name)}">Upgrade to \${escapeHtml(pkg.safeVersion)}</button>\`
+                                    : '<span class="package-version">No safe version known</span>'}
+                            </div>
+                        </div>
+                    \`).join('') : '<div class="no-results">No known advisories affect the installed packages</div>';
+                    
+                    securityList.querySelectorAll('.advisory a').forEach(link => {
+                        link.addEventListener('click', () => {
+                            vsCode.postMessage({ command: 'openAdvisory', url: link.getAttribute('data-url') });
+                        });
+                    });
+                    securityList.querySelectorAll('.security-upgrade-button').forEach(button => {
+                        button.addEventListener('click', () => {
+                            vsCode.postMessage({ command: 'upgradeToSafeVersion', package: button.getAttribute('data-package') });
+                        });
+                    });
+                }
+                
+                if (message.reveal) {
+                    activateTab('security');
+                }
+            }
+            
+            // Handle the license inventory
+            document.getElementById('licenses-refresh').addEventListener('click', requestLicenses);
+            document.getElementById('licenses-export-csv').addEventListener('click', () => {
+                vsCode.postMessage({ command: 'exportLicenses', format: 'csv' });
+            });
+            document.getElementById('licenses-export-json').addEventListener('click', () => {
+                vsCode.postMessage({ command: 'exportLicenses', format: 'json' });
+            });
+            
+            function requestLicenses() {
+                licensesSummary.textContent = 'Loading licenses...';
+                vsCode.postMessage({ command: 'getLicenses' });
+            }
+            
+            function renderLicenses(message) {
+                licenseEntries = message.entries;
+                const violations = licenseEntries.filter(entry => entry.violation).length;
+                licensesSummary.textContent = message.policy
+                    ? \`\${licenseEntries.length} package(s), \${violations} violating \${message.policy}\`
+                    : \`\${licenseEntries.length} package(s), no license policy file\`;
+                renderLicenseTable();
+            }
+            
+            function renderLicenseTable() {
+                if (!licenseEntries.length) {
+                    licensesList.innerHTML = '<div class="no-results">No packages installed</div>';
+                    return;
+                }
+                
+                const { key, descending } = licenseSort;
+                const sorted = [...licenseEntries].sort((a, b) =>
+                    (descending ? -1 : 1) * (String(a[key]).localeCompare(String(b[key])) || a.name.localeCompare(b.name)));
+                const header = (sortKey, label) =>
+                    \`<th data-sort="\${sortKey}">\${label}\${key === sortKey ? (descending ? ' ▼' : ' ▲') : ''}</th>\`;
+                
+                licensesList.innerHTML = \`
+                    <table class="environments-table">
+                        <thead>
+                            <tr>
+                                \${header('name', 'Package')}
+                                \${header('version', 'Version')}
+                                \${header('license', 'License')}
+                                \${header('source', 'Source')}
+                                \${header('status', 'Policy')}
+                            </tr>
+                        </thead>
+                        <tbody>
+                            \${sorted.map(entry => \`
+                                <tr class="\${entry.violation ? 'license-violation' : ''}">
+                                    <td>\${escapeHtml(entry.name)}</td>
+                                    <td>\${escapeHtml(entry.version)}</td>
+                                    <td class="\${entry.spdx ? '' : 'license-not-spdx'}">\${escapeHtml(entry.license || 'Unknown')}</td>
+                                    <td>\${escapeHtml(entry.source)}</td>
+                                    <td>\${escapeHtml(entry.status)}</td>
+                                </tr>
+                            \`).join('')}
+                        </tbody>
+                    </table>
+                \`;
+                
+                licensesList.querySelectorAll('th[data-sort]').forEach(th => {
+                    th.addEventListener('click', () => {
+                        const sortKey = th.getAttribute('data-sort');
+                        licenseSort = { key: sortKey, descending: licenseSort.key === sortKey && !licenseSort.descending };
+                        renderLicenseTable();
+                    });
+                });
+            }
+            
+            // Handle the environments overview
+            document.getElementById('environments-refresh').addEventListener('click', requestEnvironments);
+            
+            function requestEnvironments() {
+                environmentsLoaded = true;
+                environmentsSummary.textContent = 'Loading environments...';
+                vsCode.postMessage({ command: 'getEnvironments' });
+            }
+            
+            function renderEnvironments(environments) {
+                environmentsSummary.textContent = \`\${environments.length} environment(s)\`;
+                if (!environments.length) {
+                    environmentsList.innerHTML = '<div class="no-results">No environments found</div>';
+                    return;
+                }
+                
+                environmentsList.innerHTML = \`
+                    <table class="environments-table">
+                        <thead>
+                            <tr>
+                                <th>Name</th>
+                                <th>Kind</th>
+                                <th>Python</th>
+                                <th>Packages</th>
+                                <th>Size</th>
+                                <th>Site-packages</th>
+                                <th>Created</th>
+                                <th>Base interpreter</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            \${environments.map(env => \`
+                                <tr class="\${env.isActive ? 'active' : ''}">
+                                    <td>
+                                        \${escapeHtml(env.name)}\${env.isActive ? ' (active)' : ''}
+                                        <span class="environment-path">\${escapeHtml(env.path)}</span>
+                                    </td>
+                                    <td>\${escapeHtml(env.kind)}</td>
+                                    <td>\${escapeHtml(env.python)}</td>
+                                    <td>\${env.packageCount !== undefined ? env.packageCount : ''}</td>
+                                    <td>\${escapeHtml(env.size)}</td>
+                                    <td>\${escapeHtml(env.systemSitePackages)}</td>
+                                    <td>\${escapeHtml(env.created)}</td>
+                                    <td>\${escapeHtml(env.baseInterpreter)}</td>
+                                </tr>
+                            \`).join('')}
+                        </tbody>
+                    </table>
+                \`;
+            }
+            
+            // Handle graph filtering
+            graphFilterInput.addEventListener('change', () => {
+                applyGraphFilter(graphFilterInput.value.trim());
+            });
+            
+            graphFilterInput.addEventListener('keyup', (e) => {
+                if (e.key === 'Enter') {
+                    applyGraphFilter(graphFilterInput.value.trim());
+                }
+            });
+            
+            graphFilterClear.addEventListener('click', () => {
+                graphFilterInput.value = '';
+                applyGraphFilter('');
+            });
+            
+            function requestDependencyGraph() {
+                graphContainer.innerHTML = '<div class="loading">Loading dependency graph...</div>';
+                vsCode.postMessage({ command: 'getDependencyGraph' });
+            }
+            
+            function findGraphNode(name) {
+                const lower = name.toLowerCase();
+                return dependencyGraph.nodes.find(node => node.id === lower || node.name.toLowerCase() === lower);
+            }
+            
+            function applyGraphFilter(name) {
+                if (!dependencyGraph) {
+                    return;
+                }
+                
+                const node = name ? findGraphNode(name) : undefined;
+                if (name && !node) {
+                    return;
+                }
+                
+                graphFilter = node ? node.id : '';
+                if (node) {
+                    selectedNodeId = node.id;
+                }
+                renderDependencyGraph();
+            }
+            
+            // Collect a node and everything reachable through the given direction ('requires' or 'requiredBy')
+            function collectReachable(nodesById, startId, direction, result) {
+                const stack = [startId];
+                while (stack.length) {
+                    const id = stack.pop();
+                    if (result.has(id) && id !== startId) {
+                        continue;
+                    }
+                    result.add(id);
+                    const node = nodesById.get(id);
+                    if (node) {
+                        node[direction].forEach(next => {
+                            if (!result.has(next)) {
+                                stack.push(next);
+                            }
+                        });
+                    }
+                }
+            }
+            
+            // Assign each node to a column by its distance from the packages nothing depends on
+            function computeLevels(nodes, visibleIds) {
+                const levels = new Map();
+                const roots = nodes.filter(node => !node.requiredBy.some(id => visibleIds.has(id)));
+                const queue = (roots.length ? roots : nodes.slice(0, 1)).map(node => node.id);
+                queue.forEach(id => levels.set(id, 0));
+                
+                const nodesById = new Map(nodes.map(node => [node.id, node]));
+                while (queue.length) {
+                    const id = queue.shift();
+                    nodesById.get(id).requires.forEach(next => {
+                        if (visibleIds.has(next) && !levels.has(next)) {
+                            levels.set(next, levels.get(id) + 1);
+                            queue.push(next);
+                        }
+                    });
+                }
+                
+                // Nodes that only take part in cycles are not reachable from a root
+                nodes.forEach(node => {
+                    if (!levels.has(node.id)) {
+                        levels.set(node.id, 0);
+                    }
+                });
+                
+                return levels;
+            }
+            
+            function renderDependencyGraph() {
+                graphContainer.innerHTML = '';
+                
+                if (!dependencyGraph || !dependencyGraph.nodes.length) {
+                    graphContainer.innerHTML = '<div class="no-results">No packages installed</div>';
+                    return;
+                }
+                
+                const nodesById = new Map(dependencyGraph.nodes.map(node => [node.id, node]));
+                let visibleIds;
+                if (graphFilter) {
+                    visibleIds = new Set();
+                    collectReachable(nodesById, graphFilter, 'requires', visibleIds);
+                    collectReachable(nodesById, graphFilter, 'requiredBy', visibleIds);
+                } else {
+                    visibleIds = new Set(nodesById.keys());
+                }
+                
+                const nodes = dependencyGraph.nodes.filter(node => visibleIds.has(node.id));
+                const levels = computeLevels(nodes, visibleIds);
+                
+                // Lay out nodes in columns
+                const columnWidth = 200;
+                const rowHeight = 32;
+                const nodeWidth = 160;
+                const nodeHeight = 22;
+                const padding = 10;
+                const rows = [];
+                const positions = new Map();
+                
+                nodes.forEach(node => {
+                    const level = levels.get(node.id);
+                    rows[level] = (rows[level] || 0) + 1;
+                    positions.set(node.id, {
+                        x: padding + level * columnWidth,
+                        y: padding + (rows[level] - 1) * rowHeight
+                    });
+                });
+                
+                const svg = document.createElementNS(svgNamespace, 'svg');
+                svg.setAttribute('width', String(padding * 2 + rows.length * columnWidth));
+                svg.setAttribute('height', String(padding * 2 + Math.max(...rows.map(count => count || 0)) * rowHeight));
+                
+                // Draw edges first so nodes are painted on top of them
+                dependencyGraph.edges.forEach(edge => {
+                    if (!visibleIds.has(edge.from) || !visibleIds.has(edge.to)) {
+                        return;
+                    }
+                    
+                    const from = positions.get(edge.from);
+                    const to = positions.get(edge.to);
+                    const startX = from.x + nodeWidth;
+                    const startY = from.y + nodeHeight / 2;
+                    const endX = to.x;
+                    const endY = to.y + nodeHeight / 2;
+                    const bend = Math.max(40, Math.abs(endX - startX) / 2);
+                    
+                    const path = document.createElementNS(svgNamespace, 'path');
+                    path.setAttribute('d', 'M ' + startX + ' ' + startY + ' C ' + (startX + bend) + ' ' + startY + ', ' + (endX - bend) + ' ' + endY + ', ' + endX + ' ' + endY);
+                    path.classList.add('graph-edge');
+                    if (edge.from === selectedNodeId || edge.to === selectedNodeId) {
+                        path.classList.add('highlighted');
+                    }
+                    svg.appendChild(path);
+                });
+                
+                nodes.forEach(node => {
+                    const position = positions.get(node.id);
+                    const group = document.createElementNS(svgNamespace, 'g');
+                    group.classList.add('graph-node');
+                    if (node.missing) {
+                        group.classList.add('missing');
+                    }
+                    if (node.id === selectedNodeId) {
+                        group.classList.add('selected');
+                    }
+                    group.setAttribute('transform', 'translate(' + position.x + ', ' + position.y + ')');
+                    group.style.cursor = 'pointer';
+                    
+                    const rect = document.createElementNS(svgNamespace, 'rect');
+                    rect.setAttribute('width', String(nodeWidth));
+                    rect.setAttribute('height', String(nodeHeight));
+                    rect.setAttribute('rx', '3');
+                    group.appendChild(rect);
+                    
+                    const label = document.createElementNS(svgNamespace, 'text');
+                    label.setAttribute('x', '6');
+                    label.setAttribute('y', '15');
+                    label.textContent = node.name.length > 22 ? node.name.substring(0, 21) + '…' : node.name;
+                    group.appendChild(label);
+                    
+                    const title = document.createElementNS(svgNamespace, 'title');
+                    title.textContent = node.name + (node.version ? ' ' + node.version : ' (not installed)');
+                    group.appendChild(title);
+                    
+                    group.addEventListener('click', () => selectGraphNode(node.id));
+                    svg.appendChild(group);
+                });
+                
+                graphContainer.appendChild(svg);
+                renderGraphDetails();
+            }
+            
+            function selectGraphNode(id) {
+                selectedNodeId = id;
+                renderDependencyGraph();
+            }
+            
+            function appendNodeList(title, ids) {
+                const heading = document.createElement('strong');
+                heading.textContent = title;
+                graphDetails.appendChild(heading);
+                
+                if (!ids.length) {
+                    const none = document.createElement('div');
+                    none.textContent = 'None';
+                    graphDetails.appendChild(none);
+                    return;
+                }
+                
+                const list = document.createElement('ul');
+                ids.forEach(id => {
+                    const node = dependencyGraph.nodes.find(n => n.id === id);
+                    const item = document.createElement('li');
+                    const link = document.createElement('a');
+                    link.textContent = node ? node.name : id;
+                    link.addEventListener('click', () => selectGraphNode(id));
+                    item.appendChild(link);
+                    list.appendChild(item);
+                });
+                graphDetails.appendChild(list);
+            }
+            
+            function renderGraphDetails() {
+                const node = selectedNodeId ? dependencyGraph.nodes.find(n => n.id === selectedNodeId) : undefined;
+                graphDetails.innerHTML = '';
+                
+                if (!node) {
+                    graphDetails.innerHTML = '<div class="no-results">Select a package to see its details</div>';
+                    return;
+                }
+                
+                const name = document.createElement('div');
+                name.className = 'package-name';
+                name.textContent = node.name;
+                graphDetails.appendChild(name);
+                
+                const version = document.createElement('div');
+                version.className = 'package-version';
+                version.textContent = node.missing ? 'Not installed' : 'Version ' + node.version;
+                graphDetails.appendChild(version);
+                
+                appendNodeList('Requires', node.requires);
+                appendNodeList('Required by', node.requiredBy);
+                
+                const focusButton = document.createElement('button');
+                focusButton.textContent = 'Filter to this package';
+                focusButton.addEventListener('click', () => {
+                    graphFilterInput.value = node.name;
+                    applyGraphFilter(node.name);
+                });
+                graphDetails.appendChild(focusButton);
+            }
+            
             // Render installed packages
             function renderInstalledPackages() {
                 if (!installedPackages.length) {
@@ -499,13 +1942,14 @@ export class PipingDashboardPanel {
                     return \`
                         <div class="package-item">
                             <div class="package-info">
-                                <span class="package-name">\${pkg.name}</span>
-                                <span class="package-version">\${pkg.version}</span>
-                                \${pkg.hasUpdate ? \`<span class="package-update">(Update available: \${pkg.latest})</span>\` : ''}
+                                <span class="package-name">\${escapeHtml(pkg.name)}</span>
+                                <span class="package-version">\${escapeHtml(pkg.version)}</span>
+                                \${pkg.installer === 'conda' ? '<span class="package-installer">conda</span>' : ''}
+                                \${pkg.hasUpdate ? \`<span class="package-update">(Update available: \${escapeHtml(pkg.latest)})</span>\` : ''}
                             </div>
                             <div class="package-actions">
-                                \${pkg.hasUpdate ? \`<button class="update-button" data-package="\${pkg.name}">Update</button>\` : ''}
-                                <button class="uninstall-button" data-package="\${pkg.name}">Uninstall</button>
+                                \${pkg.hasUpdate ? \`<button class="update-button" data-package="\${escapeHtml(pkg.name)}">Update</button>\` : ''}
+                                <button class="uninstall-button" data-package="\${escapeHtml(pkg.name)}">Uninstall</button>
                             </div>
                         </div>
                     \`;
@@ -517,11 +1961,11 @@ export class PipingDashboardPanel {
                         return \`
                             <div class="package-item">
                                 <div class="package-info">
-                                    <span class="package-name">\${pkg.name}</span>
-                                    <span class="package-version">\${pkg.version} → \${pkg.latest}</span>
+                                    <span class="package-name">\${escapeHtml(pkg.name)}</span>
+                                    <span class="package-version">\${escapeHtml(pkg.version)} → \${escapeHtml(pkg.latest)}</span>
                                 </div>
                                 <div class="package-actions">
-                                    <button class="update-button" data-package="\${pkg.name}">Update</button>
+                                    <button class="update-button" data-package="\${escapeHtml(pkg.name)}">Update</button>
                                 </div>
                             </div>
                         \`;
@@ -557,12 +2001,12 @@ export class PipingDashboardPanel {
                     return \`
                         <div class="package-item">
                             <div class="package-info">
-                                <span class="package-name">\${pkg.name}</span>
-                                <span class="package-version">\${pkg.version}</span>
-                                \${pkg.description ? \`<div>\${pkg.description}</div>\` : ''}
+                                <span class="package-name">\${escapeHtml(pkg.name)}</span>
+                                <span class="package-version">\${escapeHtml(pkg.version)}</span>
+                                \${pkg.description ? \`<div>\${escapeHtml(pkg.description)}</div>\` : ''}
                             </div>
                             <div class="package-actions">
-                                <button class="install-button" data-package="\${pkg.name}">Install</button>
+                                <button class="install-button" data-package="\${escapeHtml(pkg.name)}">Install</button>
                             </div>
                         </div>
                     \`;
@@ -590,11 +2034,42 @@ export class PipingDashboardPanel {
                         searchResults = message.packages;
                         renderSearchResults();
                         break;
+                    case 'requirementsDiff':
+                        renderRequirementsDiff(message);
+                        break;
+                    case 'importReport':
+                        renderImportReport(message);
+                        break;
+                    case 'environments':
+                        renderEnvironments(message.environments);
+                        break;
+                    case 'auditReport':
+                        renderAuditReport(message);
+                        break;
+                    case 'licenses':
+                        renderLicenses(message);
+                        break;
+                    case 'operationProgress':
+                        renderOperations(message.operations);
+                        break;
+                    case 'updateGraph':
+                        dependencyGraph = message.graph;
+                        if (graphFilter && !dependencyGraph.nodes.some(node => node.id === graphFilter)) {
+                            graphFilter = '';
+                        }
+                        graphFilterOptions.innerHTML = '';
+                        dependencyGraph.nodes.forEach(node => {
+                            const option = document.createElement('option');
+                            option.value = node.name;
+                            graphFilterOptions.appendChild(option);
+                        });
+                        renderDependencyGraph();
+                        break;
                 }
             });
             
-            // Initialize: request package data
-            vsCode.postMessage({ command: 'refreshPackages' });
+            // Initialize: request package data and any state the panel already holds
+            vsCode.postMessage({ command: 'ready' });
         }());
     </script>
 </body>
@@ -605,6 +2080,9 @@ export class PipingDashboardPanel {
         PipingDashboardPanel.currentPanel = undefined;
         
         // Clean up our resources
+        if (this._searchTimer) {
+            clearTimeout(this._searchTimer);
+        }
         this._panel.dispose();
         
         while (this._disposables.length) {
@@ -615,12 +2093,3 @@ export class PipingDashboardPanel {
         }
     }
 }
-
-function getNonce() {
-    let text = '';
-    const possible = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    for (let i = 0; i < 32; i++) {
-        text += possible.charAt(Math.floor(Math.random() * possible.length));
-    }
-    return text;
-} 
\ No newline at end of file
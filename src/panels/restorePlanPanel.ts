@@ -0,0 +1,270 @@
+import * as vscode from 'vscode';
+import { PythonExecutor } from '../utils/pythonExecutor';
+import { RestorePlanEntry } from '../utils/restorePlan';
+import { getNonce } from '../utils/webview';
+import { withPipProgress } from '../commands/operationProgress';
+
+export class PipingRestorePlanPanel {
+    public static currentPanel: PipingRestorePlanPanel | undefined;
+
+    private readonly _panel: vscode.WebviewPanel;
+    private readonly _pythonExecutor: PythonExecutor;
+    private _plan: RestorePlanEntry[] = [];
+    private _notes: string[] = [];
+    private _onApplied?: () => void;
+    private _applying = false;
+    private _disposables: vscode.Disposable[] = [];
+
+    /**
+     * Show a plan in the restore panel, replacing any plan it already shows
+     */
+    public static show(
+        pythonExecutor: PythonExecutor,
+        title: string,
+        plan: RestorePlanEntry[],
+        notes: string[],
+        onApplied?: () => void
+    ) {
+        const column = vscode.window.activeTextEditor
+            ? vscode.window.activeTextEditor.viewColumn
+            : undefined;
+
+        if (!PipingRestorePlanPanel.currentPanel) {
+            const panel = vscode.window.createWebviewPanel(
+                'pipingRestorePlan',
+                title,
+                column || vscode.ViewColumn.One,
+                { enableScripts: true, localResourceRoots: [] }
+            );
+            PipingRestorePlanPanel.currentPanel = new PipingRestorePlanPanel(panel, pythonExecutor);
+        }
+
+        const current = PipingRestorePlanPanel.currentPanel;
+        current._panel.title = title;
+        current._plan = plan;
+        current._notes = notes;
+        current._onApplied = onApplied;
+        current._panel.webview.html = current._getHtmlForWebview(current._panel.webview);
+        current._panel.reveal(column);
+    }
+
+    private constructor(panel: vscode.WebviewPanel, pythonExecutor: PythonExecutor) {
+        this._panel = panel;
+        this._pythonExecutor = pythonExecutor;
+
+        this._panel.onDidDispose(() => this.dispose(), null, this._disposables);
+
+        this._panel.webview.onDidReceiveMessage(
+            async (message) => {
+                switch (message.command) {
+                    case 'ready':
+                        this._panel.webview.postMessage({ command: 'showPlan', plan: this._plan, notes: this._notes });
+                        break;
+                    case 'apply':
+                        await this._applyPlan(message.selected || []);
+                        break;
+                    case 'cancel':
+                        this._panel.dispose();
+                        break;
+                }
+            },
+            null,
+            this._disposables
+        );
+    }
+
+    private async _applyPlan(selectedIds: string[]) {
+        if (this._applying) {
+            return;
+        }
+
+        const selected = this._plan.filter(entry => selectedIds.includes(entry.id));
+        if (!selected.length) {
+            vscode.window.showInformationMessage('No changes selected');
+            return;
+        }
+
+        const toInstall = selected.filter(entry => entry.action !== 'remove' && entry.requirementLine);
+        const toRemove = selected.filter(entry => entry.action === 'remove');
+        const failures: string[] = [];
+        let cancelled = false;
+        this._applying = true;
+
+        try {
+            cancelled = await withPipProgress('Applying environment plan', async (operation) => {
+                if (toInstall.length && !await this._pythonExecutor.installRequirements(toInstall.map(entry => entry.requirementLine!), operation)) {
+                    failures.push('install');
+                }
+
+                if (toRemove.length && !operation.token.isCancellationRequested
+                    && !await this._pythonExecutor.uninstallPackages(toRemove.map(entry => entry.name), operation)) {
+                    failures.push('remove');
+                }
+                return operation.token.isCancellationRequested;
+            });
+        } finally {
+            this._applying = false;
+        }
+
+        this._onApplied?.();
+
+        if (cancelled) {
+            vscode.window.showInformationMessage('Cancelled applying the plan. Changes pip already made are kept.');
+        } else if (failures.length) {
+            vscode.window.showErrorMessage('Some changes of the plan failed. See output channel for details.');
+        } else {
+            vscode.window.showInformationMessage(`Applied ${selected.length} change(s) to the environment`);
+            this._panel.dispose();
+        }
+    }
+
+    private _getHtmlForWebview(webview: vscode.Webview) {
+        const nonce = getNonce();
+
+        return `<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <meta http-equiv="Content-Security-Policy" content="default-src 'none'; style-src ${webview.cspSource} 'unsafe-inline'; script-src 'nonce-${nonce}';">
+    <title>Environment Plan</title>
+    <style>
+        body {
+            padding: 0 20px;
+            color: var(--vscode-foreground);
+            font-size: var(--vscode-font-size);
+            font-family: var(--vscode-font-family);
+            background-color: var(--vscode-editor-background);
+        }
+
+        button {
+            border: none;
+            padding: 6px 10px;
+            color: var(--vscode-button-foreground);
+            background: var(--vscode-button-background);
+            cursor: pointer;
+            margin: 4px;
+        }
+
+        button:hover {
+            background: var(--vscode-button-hoverBackground);
+        }
+
+        button.secondary {
+            color: var(--vscode-button-secondaryForeground);
+            background: var(--vscode-button-secondaryBackground);
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+
+        th, td {
+            text-align: left;
+            padding: 6px 8px;
+            border-bottom: 1px solid var(--vscode-panel-border);
+        }
+
+        .action-install { color: var(--vscode-terminal-ansiGreen); }
+        .action-upgrade { color: var(--vscode-terminal-ansiBlue); }
+        .action-downgrade { color: var(--vscode-notificationsWarningIcon-foreground); }
+        .action-remove { color: var(--vscode-errorForeground); }
+
+        .notes {
+            color: var(--vscode-descriptionForeground);
+        }
+
+        .actions {
+            margin: 16px 0;
+        }
+    </style>
+</head>
+<body>
+    <h1>Environment Plan</h1>
+    <p>Review the changes below. Deselect anything you want to leave untouched, then apply the plan.</p>
+    <div class="actions">
+        <button id="apply-button">Apply Selected</button>
+        <button id="cancel-button" class="secondary">Cancel</button>
+        <label><input type="checkbox" id="select-all" checked> Select all</label>
+    </div>
+    <table>
+        <thead>
+            <tr><th></th><th>Action</th><th>Package</th><th>Current</th><th>Target</th></tr>
+        </thead>
+        <tbody id="plan-rows"></tbody>
+    </table>
+    <div class="notes" id="plan-notes"></div>
+    <script nonce="${nonce}">
+        (function() {
+            const vsCode = acquireVsCodeApi();
+            const rows = document.getElementById('plan-rows');
+            const notes = document.getElementById('plan-notes');
+            const selectAll = document.getElementById('select-all');
+
+            function escapeHtml(text) {
+                return String(text)
+                    .replace(/&/g, '&amp;')
+                    .replace(/</g, '&lt;')
+                    .replace(/>/g, '&gt;')
+                    .replace(/"/g, '&quot;');
+            }
+
+            function renderPlan(plan, planNotes) {
+                rows.innerHTML = plan.length ? plan.map(entry => \`
+                    <tr>
+                        <td><input type="checkbox" class="plan-entry" data-id="\${escapeHtml(entry.id)}" checked></td>
+                        <td class="action-\${entry.action}">\${entry.action}</td>
+                        <td>\${escapeHtml(entry.name)}</td>
+                        <td>\${escapeHtml(entry.currentVersion || '')}</td>
+                        <td>\${escapeHtml(entry.targetVersion || '')}</td>
+                    </tr>
+                \`).join('') : '<tr><td colspan="5">The environment already matches. Nothing to do.</td></tr>';
+
+                notes.innerHTML = planNotes.map(note => \`<div>\${escapeHtml(note)}</div>\`).join('');
+            }
+
+            selectAll.addEventListener('change', () => {
+                document.querySelectorAll('.plan-entry').forEach(box => {
+                    box.checked = selectAll.checked;
+                });
+            });
+
+            document.getElementById('apply-button').addEventListener('click', () => {
+                const selected = Array.from(document.querySelectorAll('.plan-entry'))
+                    .filter(box => box.checked)
+                    .map(box => box.getAttribute('data-id'));
+                vsCode.postMessage({ command: 'apply', selected });
+            });
+
+            document.getElementById('cancel-button').addEventListener('click', () => {
+                vsCode.postMessage({ command: 'cancel' });
+            });
+
+            window.addEventListener('message', event => {
+                const message = event.data;
+                if (message.command === 'showPlan') {
+                    renderPlan(message.plan, message.notes);
+                }
+            });
+
+            vsCode.postMessage({ command: 'ready' });
+        }());
+    </script>
+</body>
+</html>`;
+    }
+
+    public dispose() {
+        PipingRestorePlanPanel.currentPanel = undefined;
+
+        this._panel.dispose();
+
+        while (this._disposables.length) {
+            const disposable = this._disposables.pop();
+            if (disposable) {
+                disposable.dispose();
+            }
+        }
+    }
+}
@@ -1,16 +1,25 @@
 import * as vscode from 'vscode';
 import * as path from 'path';
 import { PythonExecutor, EnvironmentInfo } from '../utils/pythonExecutor';
+import { WorkspaceExecutors } from '../utils/workspaceExecutors';
+import { WorkspaceFolderTreeItem } from './workspaceFolderTreeItem';
+import { ENVIRONMENT_KIND_LABELS, environmentInterpreter } from '../utils/environmentDiscovery';
+import { getPythonEnvironmentsApi } from '../utils/pythonExtension';
+import { getCommandExecutor, targetInterpreter } from '../utils/commandExecutors';
+import { detailsFromPyvenvConfig, formatSize, readPyvenvConfig } from '../utils/environmentDetails';
 
 export class EnvironmentTreeItem extends vscode.TreeItem {
     constructor(
         public readonly envInfo: EnvironmentInfo,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly folder?: vscode.WorkspaceFolder
     ) {
         super(envInfo.name, collapsibleState);
         
-        this.tooltip = `${envInfo.name}\n${envInfo.path}`;
-        this.description = path.basename(envInfo.path);
+        // The Python version is shown when pyvenv.cfg records it; expanding the item reads the rest
+        const kind = envInfo.pythonVersion ? `${ENVIRONMENT_KIND_LABELS[envInfo.kind]} · ${envInfo.pythonVersion}` : ENVIRONMENT_KIND_LABELS[envInfo.kind];
+        this.tooltip = `${envInfo.name} (${kind})\n${envInfo.path}`;
+        this.description = kind;
         
         // Set context value for command enablement
         this.contextValue = 'environment';
@@ -19,44 +28,155 @@ export class EnvironmentTreeItem extends vscode.TreeItem {
         if (envInfo.isActive) {
             this.iconPath = new vscode.ThemeIcon('check', new vscode.ThemeColor('terminal.ansiGreen'));
             this.contextValue = 'environment-active';
-            this.description = `${path.basename(envInfo.path)} (active)`;
+            this.description = `${kind} (active)`;
         } else {
             this.iconPath = new vscode.ThemeIcon('server-environment');
         }
     }
 }
 
-export class PipingEnvironmentProvider implements vscode.TreeDataProvider<EnvironmentTreeItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<EnvironmentTreeItem | undefined | null | void> = new vscode.EventEmitter<EnvironmentTreeItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<EnvironmentTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+export class EnvironmentDetailTreeItem extends vscode.TreeItem {
+    constructor(label: string, value: string, icon: string) {
+        super(label, vscode.TreeItemCollapsibleState.None);
+        
+        this.description = value;
+        this.tooltip = `${label}: ${value}`;
+        this.iconPath = new vscode.ThemeIcon(icon);
+        this.contextValue = 'environmentDetail';
+    }
+}
+
+type EnvironmentViewItem = WorkspaceFolderTreeItem | EnvironmentTreeItem | EnvironmentDetailTreeItem;
+
+// Saved environments are keyed by workspace folder; windows without folders use an empty key
+type SavedEnvironments = { [folder: string]: Pick<EnvironmentInfo, 'name' | 'path' | 'kind' | 'target'> };
+
+export class PipingEnvironmentProvider implements vscode.TreeDataProvider<EnvironmentViewItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<EnvironmentViewItem | undefined | null | void> = new vscode.EventEmitter<EnvironmentViewItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<EnvironmentViewItem | undefined | null | void> = this._onDidChangeTreeData.event;
+    
+    private _onDidChangeActiveEnvironment = new vscode.EventEmitter<EnvironmentInfo | undefined>();
+    readonly onDidChangeActiveEnvironment: vscode.Event<EnvironmentInfo | undefined> = this._onDidChangeActiveEnvironment.event;
     
-    private _environments: EnvironmentInfo[] = [];
+    private static readonly ACTIVE_ENVIRONMENT_KEY = 'piping.activeEnvironment';
     
-    constructor(private pythonExecutor: PythonExecutor) {
+    // The environments last listed for each executor
+    private _environments = new Map<PythonExecutor, EnvironmentInfo[]>();
+    
+    constructor(
+        private executors: WorkspaceExecutors,
+        private workspaceState?: vscode.Memento
+    ) {
         // Refresh when extension is activated
         this.refresh();
     }
     
+    /**
+     * Make the environment saved for each workspace folder active again, or else the one
+     * the Python extension uses for the folder when Piping follows it
+     */
+    async restoreActiveEnvironment(): Promise<void> {
+        for (const pythonExecutor of this.executors.all) {
+            await this.restoreFolderEnvironment(pythonExecutor);
+        }
+    }
+    
+    private async restoreFolderEnvironment(pythonExecutor: PythonExecutor): Promise<void> {
+        const saved = this.getSavedEnvironments()[this.folderKey(pythonExecutor)];
+        if (saved) {
+            // Environments on remote targets are checked on their target, which may have been removed from the settings
+            const target = getCommandExecutor(saved.target);
+            const interpreter = saved.target && target ? targetInterpreter(target, saved.path) : environmentInterpreter(saved.path, saved.kind);
+            if (target && await target.exists(interpreter)) {
+                this.activate(pythonExecutor, { ...saved, isActive: true }, false);
+                return;
+            }
+            // The environment was deleted since
+            await this.saveEnvironment(pythonExecutor, undefined);
+        }
+        
+        if (vscode.workspace.getConfiguration('piping').get<boolean>('followPythonExtension', true)) {
+            const activePath = (await getPythonEnvironmentsApi(this.executors.outputChannel))?.getActiveEnvironmentPath(pythonExecutor.folder).path;
+            if (activePath) {
+                await this.followInterpreter(activePath, pythonExecutor.folder);
+            }
+        }
+    }
+    
+    /**
+     * Switch a folder to the environment of an interpreter the Python extension selected. Interpreters
+     * outside any known environment make Piping use that interpreter with no environment active.
+     */
+    async followInterpreter(interpreterPath: string, folder?: vscode.WorkspaceFolder): Promise<void> {
+        if (!vscode.workspace.getConfiguration('piping').get<boolean>('followPythonExtension', true)) {
+            return;
+        }
+        
+        const pythonExecutor = this.executors.get(folder);
+        const environments = this._environments.get(pythonExecutor) || await pythonExecutor.getVirtualEnvironments();
+        const env = environments.find(candidate =>
+            candidate.path === interpreterPath
+            || environmentInterpreter(candidate.path, candidate.kind) === interpreterPath
+            || interpreterPath.startsWith(candidate.path + path.sep)
+        );
+        
+        if (env?.path === pythonExecutor.currentEnv?.path && (env || !pythonExecutor.currentEnv)) {
+            return;
+        }
+        if (env) {
+            this.activate(pythonExecutor, env, false);
+        } else {
+            pythonExecutor.outputChannel.appendLine(`Following the Python extension to ${interpreterPath}, which is not in a known environment`);
+            environments.forEach(candidate => {
+                candidate.isActive = false;
+            });
+            pythonExecutor.currentEnv = undefined;
+            await this.saveEnvironment(pythonExecutor, undefined);
+            this._onDidChangeActiveEnvironment.fire(undefined);
+            this.refresh();
+        }
+    }
+    
     refresh(): void {
         this._onDidChangeTreeData.fire();
     }
     
-    getTreeItem(element: EnvironmentTreeItem): vscode.TreeItem {
+    getTreeItem(element: EnvironmentViewItem): vscode.TreeItem {
         return element;
     }
     
-    async getChildren(element?: EnvironmentTreeItem): Promise<EnvironmentTreeItem[]> {
+    async getChildren(element?: EnvironmentViewItem): Promise<EnvironmentViewItem[]> {
+        if (element instanceof WorkspaceFolderTreeItem) {
+            return this.getEnvironmentItems(this.executors.get(element.folder));
+        }
+        if (element instanceof EnvironmentTreeItem) {
+            return this.getDetailItems(this.executors.get(element.folder), element.envInfo);
+        }
         if (element) {
-            // No children for environment items
             return [];
         }
         
+        // Each folder of a multi-root workspace has its own active environment
+        if (this.executors.isMultiRoot) {
+            return this.executors.all.map(executor => new WorkspaceFolderTreeItem(executor.folder!, executor));
+        }
+        return this.getEnvironmentItems(this.executors.get());
+    }
+    
+    private async getEnvironmentItems(pythonExecutor: PythonExecutor): Promise<EnvironmentTreeItem[]> {
         try {
             // Fetch environments
-            this._environments = await this.pythonExecutor.getVirtualEnvironments();
+            const environments = await pythonExecutor.getVirtualEnvironments();
+            this._environments.set(pythonExecutor, environments);
+            
+            // pyvenv.cfg tells the Python version without starting an interpreter
+            for (const env of environments.filter(env => !env.target)) {
+                const config = await readPyvenvConfig(env.path);
+                env.pythonVersion = config ? detailsFromPyvenvConfig(config).pythonVersion : undefined;
+            }
             
             // Sort environments: first showing the active one, then alphabetically
-            this._environments.sort((a, b) => {
+            environments.sort((a, b) => {
                 if (a.isActive && !b.isActive) {
                     return -1;
                 }
@@ -67,39 +187,107 @@ export class PipingEnvironmentProvider implements vscode.TreeDataProvider<Enviro
             });
             
             // Create tree items
-            return this._environments.map(env => 
-                new EnvironmentTreeItem(env, vscode.TreeItemCollapsibleState.None)
+            return environments.map(env => 
+                new EnvironmentTreeItem(env, vscode.TreeItemCollapsibleState.Collapsed, pythonExecutor.folder)
             );
         } catch (error) {
-            console.error('Failed to get environments:', error);
+            this.executors.outputChannel.appendLine(`Failed to get environments: ${error}`);
             return [];
         }
     }
     
-    /**
-     * Get an environment by name
-     */
-    getEnvironmentByName(name: string): EnvironmentInfo | undefined {
-        return this._environments.find(env => env.name === name);
+    private async getDetailItems(pythonExecutor: PythonExecutor, env: EnvironmentInfo): Promise<EnvironmentDetailTreeItem[]> {
+        const details = await pythonExecutor.getEnvironmentDetails(env);
+        const items: EnvironmentDetailTreeItem[] = [];
+        
+        if (details.pythonVersion) {
+            const implementation = details.implementation ? ` (${details.implementation})` : '';
+            items.push(new EnvironmentDetailTreeItem('Python', `${details.pythonVersion}${implementation}`, 'symbol-namespace'));
+        }
+        if (details.baseInterpreter) {
+            items.push(new EnvironmentDetailTreeItem('Base interpreter', details.baseInterpreter, 'file-binary'));
+        }
+        if (details.packageCount !== undefined) {
+            items.push(new EnvironmentDetailTreeItem('Packages', String(details.packageCount), 'package'));
+        }
+        if (details.sizeBytes !== undefined) {
+            items.push(new EnvironmentDetailTreeItem('Size', formatSize(details.sizeBytes), 'database'));
+        }
+        if (details.systemSitePackages !== undefined) {
+            items.push(new EnvironmentDetailTreeItem('System site-packages', details.systemSitePackages ? 'shared' : 'isolated', 'link'));
+        }
+        if (details.createdAt !== undefined) {
+            items.push(new EnvironmentDetailTreeItem('Created', new Date(details.createdAt).toLocaleString(), 'calendar'));
+        }
+        items.push(new EnvironmentDetailTreeItem('Location', env.path, 'folder'));
+        
+        return items;
     }
     
     /**
-     * Set the active environment
+     * Set the active environment of a workspace folder. Environments are identified by
+     * path, since names repeat across projects and environment managers.
      */
-    setActiveEnvironment(envName: string): void {
-        // First, set all environments as inactive
-        this._environments.forEach(env => {
-            env.isActive = false;
+    setActiveEnvironment(envInfo: EnvironmentInfo, folder?: vscode.WorkspaceFolder): void {
+        this.activate(
+            this.executors.get(folder),
+            envInfo,
+            vscode.workspace.getConfiguration('piping').get<boolean>('updatePythonExtension', false)
+        );
+    }
+    
+    private activate(pythonExecutor: PythonExecutor, envInfo: EnvironmentInfo, updatePythonExtension: boolean): void {
+        const environments = this._environments.get(pythonExecutor) || [];
+        environments.forEach(env => {
+            env.isActive = env.path === envInfo.path;
         });
         
-        // Then, set the specified environment as active
-        const env = this._environments.find(e => e.name === envName);
-        if (env) {
-            env.isActive = true;
-            this.pythonExecutor.currentEnv = env;
+        // The environment may not be listed yet, e.g. right after it was created
+        const env = environments.find(e => e.path === envInfo.path) || { ...envInfo, isActive: true };
+        pythonExecutor.currentEnv = env;
+        
+        // Remember the choice for this workspace folder
+        this.saveEnvironment(pythonExecutor, env);
+        
+        if (updatePythonExtension) {
+            this.updatePythonExtension(env, pythonExecutor.folder).catch(error => {
+                pythonExecutor.outputChannel.appendLine(`Error selecting the interpreter in the Python extension: ${error}`);
+            });
         }
         
+        this._onDidChangeActiveEnvironment.fire(env);
+        
         // Refresh the tree view
         this.refresh();
     }
-} 
\ No newline at end of file
+    
+    /**
+     * Select the environment's interpreter in the Python extension too
+     */
+    private async updatePythonExtension(env: EnvironmentInfo, folder?: vscode.WorkspaceFolder): Promise<void> {
+        const api = await getPythonEnvironmentsApi(this.executors.outputChannel);
+        const interpreter = environmentInterpreter(env.path, env.kind);
+        // Selecting it again would come back to Piping as a change
+        if (api && api.getActiveEnvironmentPath(folder).path !== interpreter) {
+            await api.updateActiveEnvironmentPath(interpreter, folder);
+        }
+    }
+    
+    private folderKey(pythonExecutor: PythonExecutor): string {
+        return pythonExecutor.folder ? pythonExecutor.folder.uri.toString() : '';
+    }
+    
+    private getSavedEnvironments(): SavedEnvironments {
+        return this.workspaceState?.get<SavedEnvironments>(PipingEnvironmentProvider.ACTIVE_ENVIRONMENT_KEY) || {};
+    }
+    
+    private saveEnvironment(pythonExecutor: PythonExecutor, env: EnvironmentInfo | undefined): Thenable<void> | undefined {
+        const saved = { ...this.getSavedEnvironments() };
+        if (env) {
+            saved[this.folderKey(pythonExecutor)] = { name: env.name, path: env.path, kind: env.kind, target: env.target };
+        } else {
+            delete saved[this.folderKey(pythonExecutor)];
+        }
+        return this.workspaceState?.update(PipingEnvironmentProvider.ACTIVE_ENVIRONMENT_KEY, saved);
+    }
+}
@@ -0,0 +1,92 @@
+import * as vscode from 'vscode';
+import { WorkspaceExecutors } from '../utils/workspaceExecutors';
+import { FrozenPackage, toFrozenPackage } from '../utils/environmentExport';
+import { EnvironmentSnapshot, SnapshotChange, SnapshotStore, diffSnapshots } from '../utils/snapshotStore';
+
+const CHANGE_ICONS: { [change in SnapshotChange['change']]: string } = {
+    added: 'add',
+    removed: 'remove',
+    upgraded: 'arrow-up',
+    downgraded: 'arrow-down'
+};
+
+export class SnapshotTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly snapshot: EnvironmentSnapshot,
+        public readonly changes: SnapshotChange[]
+    ) {
+        super(
+            snapshot.reason,
+            changes.length ? vscode.TreeItemCollapsibleState.Collapsed : vscode.TreeItemCollapsibleState.None
+        );
+
+        const createdAt = new Date(snapshot.createdAt);
+        this.description = `${createdAt.toLocaleString()} · ${changes.length} change(s) since`;
+        this.tooltip = `${snapshot.reason}\n${createdAt.toLocaleString()}\n${snapshot.packages.length} packages\n\nRolling back undoes the changes listed below.`;
+        this.iconPath = new vscode.ThemeIcon('history');
+        this.contextValue = 'snapshot';
+    }
+}
+
+export class SnapshotChangeTreeItem extends vscode.TreeItem {
+    constructor(public readonly change: SnapshotChange) {
+        super(change.name, vscode.TreeItemCollapsibleState.None);
+
+        this.description = change.before && change.after
+            ? `${change.before} → ${change.after}`
+            : `${change.after || change.before} (${change.change})`;
+        this.iconPath = new vscode.ThemeIcon(CHANGE_ICONS[change.change]);
+        this.contextValue = 'snapshotChange';
+    }
+}
+
+type HistoryTreeItem = SnapshotTreeItem | SnapshotChangeTreeItem;
+
+export class PipingHistoryProvider implements vscode.TreeDataProvider<HistoryTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<HistoryTreeItem | undefined | null | void> = new vscode.EventEmitter<HistoryTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<HistoryTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    constructor(
+        private executors: WorkspaceExecutors,
+        private snapshotStore: SnapshotStore
+    ) {
+        snapshotStore.onDidChange(() => this.refresh());
+        // The history is the one of the active editor's workspace folder
+        executors.onDidChangeActive(() => this.refresh());
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: HistoryTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    async getChildren(element?: HistoryTreeItem): Promise<HistoryTreeItem[]> {
+        if (element instanceof SnapshotTreeItem) {
+            return element.changes.map(change => new SnapshotChangeTreeItem(change));
+        }
+        if (element) {
+            return [];
+        }
+
+        try {
+            const pythonExecutor = this.executors.active;
+            const snapshots = await this.snapshotStore.list(await pythonExecutor.getEnvironmentKey());
+            if (!snapshots.length) {
+                return [];
+            }
+
+            // Each snapshot is compared with the state that followed it; the newest with the environment itself
+            const current: FrozenPackage[] = (await pythonExecutor.getInstalledPackages()).map(pkg => toFrozenPackage(pkg));
+            return snapshots.map((snapshot, index) => new SnapshotTreeItem(
+                snapshot,
+                diffSnapshots(snapshot.packages, index === 0 ? current : snapshots[index - 1].packages)
+            ));
+        } catch (error) {
+            this.executors.outputChannel.appendLine(`Failed to get snapshots: ${error}`);
+            return [];
+        }
+    }
+}
@@ -0,0 +1,265 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { PythonExecutor } from '../utils/pythonExecutor';
+import { WorkspaceExecutors } from '../utils/workspaceExecutors';
+import { ENVIRONMENT_FOLDERS, ENVIRONMENT_FOLDERS_GLOB } from '../utils/requirementsFile';
+import {
+    ImportReference,
+    ImportReport,
+    MissingImport,
+    analyzeImports,
+    distributionForModule,
+    parseNotebookImports,
+    parsePythonImports
+} from '../utils/importScanner';
+
+const MISSING_PACKAGE_CODE = 'missing-package';
+
+// Large workspaces are scanned up to this many files
+const MAX_SCANNED_FILES = 5000;
+
+/**
+ * Scans the workspace's Python files and notebooks for imports, reports modules
+ * that no installed distribution provides as diagnostics, and offers to install them
+ */
+export class PipingImportDiagnosticsProvider implements vscode.CodeActionProvider, vscode.Disposable {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly _diagnostics = vscode.languages.createDiagnosticCollection('piping-imports');
+    private readonly _onDidUpdateReport = new vscode.EventEmitter<ImportReport>();
+    readonly onDidUpdateReport: vscode.Event<ImportReport> = this._onDidUpdateReport.event;
+
+    private _imports = new Map<string, ImportReference[]>();
+    private _scanned = false;
+    private _report?: ImportReport;
+    private _folderReports = new Map<PythonExecutor, ImportReport>();
+    private _analyzeTimer?: NodeJS.Timeout;
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(private executors: WorkspaceExecutors) {
+        this._disposables.push(
+            vscode.workspace.onDidOpenNotebookDocument(() => this.publishDiagnostics()),
+            vscode.workspace.onDidCloseNotebookDocument(() => this.publishDiagnostics()),
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (!event.affectsConfiguration('piping.importDiagnostics')) {
+                    return;
+                }
+                if (this._scanned) {
+                    this.publishDiagnostics();
+                } else if (vscode.workspace.getConfiguration('piping').get<boolean>('importDiagnostics', true)) {
+                    this.scanWorkspace().catch(error => {
+                        this.executors.outputChannel.appendLine(`Error scanning imports: ${error}`);
+                    });
+                }
+            })
+        );
+    }
+
+    /**
+     * The result of the last analysis, if the workspace has been scanned
+     */
+    get report(): ImportReport | undefined {
+        return this._report;
+    }
+
+    /**
+     * The part of the last analysis about one workspace folder's files
+     */
+    reportFor(pythonExecutor: PythonExecutor): ImportReport | undefined {
+        return this._folderReports.get(pythonExecutor);
+    }
+
+    /**
+     * Read every Python file and notebook in the workspace and analyze the imports
+     */
+    public async scanWorkspace(): Promise<ImportReport> {
+        const files = await vscode.workspace.findFiles('**/*.{py,ipynb}', ENVIRONMENT_FOLDERS_GLOB, MAX_SCANNED_FILES);
+        this._imports = new Map();
+
+        for (const uri of files) {
+            await this.readFile(uri);
+        }
+
+        this._scanned = true;
+        return this.analyze();
+    }
+
+    /**
+     * Read a file again after it changed, and analyze the imports shortly after
+     */
+    public async updateFile(uri: vscode.Uri): Promise<void> {
+        if (!this._scanned || uri.fsPath.split(path.sep).some(part => ENVIRONMENT_FOLDERS.includes(part))) {
+            return;
+        }
+        await this.readFile(uri);
+        this.scheduleAnalysis();
+    }
+
+    /**
+     * Forget a deleted file
+     */
+    public removeFile(uri: vscode.Uri): void {
+        if (this._imports.delete(uri.fsPath)) {
+            this.scheduleAnalysis();
+        }
+    }
+
+    /**
+     * Compare the known imports with the active environment of their workspace folder
+     * and publish the diagnostics
+     */
+    public async analyze(): Promise<ImportReport> {
+        const byFolder = new Map<PythonExecutor, Map<string, ImportReference[]>>();
+        for (const [file, references] of this._imports) {
+            const pythonExecutor = this.executors.forUri(vscode.Uri.file(file));
+            if (!byFolder.has(pythonExecutor)) {
+                byFolder.set(pythonExecutor, new Map());
+            }
+            byFolder.get(pythonExecutor)!.set(file, references);
+        }
+
+        this._folderReports = new Map();
+        for (const [pythonExecutor, imports] of byFolder) {
+            const [moduleMap, installed] = await Promise.all([
+                pythonExecutor.getModuleMap(),
+                pythonExecutor.getInstalledPackages()
+            ]);
+            this._folderReports.set(pythonExecutor, analyzeImports(imports, moduleMap, installed, this.getLocalModules(imports)));
+        }
+
+        const reports = Array.from(this._folderReports.values());
+        this._report = {
+            missing: reports.flatMap(report => report.missing),
+            unused: reports.flatMap(report => report.unused),
+            scannedFiles: reports.reduce((total, report) => total + report.scannedFiles, 0)
+        };
+        this.publishDiagnostics();
+        this._onDidUpdateReport.fire(this._report);
+        return this._report;
+    }
+
+    /**
+     * Analyze again if the workspace has been scanned, e.g. after the packages changed
+     */
+    public scheduleAnalysis(): void {
+        if (!this._scanned) {
+            return;
+        }
+        if (this._analyzeTimer) {
+            clearTimeout(this._analyzeTimer);
+        }
+        this._analyzeTimer = setTimeout(() => {
+            this._analyzeTimer = undefined;
+            this.analyze().catch(error => {
+                this.executors.outputChannel.appendLine(`Error analyzing imports: ${error}`);
+            });
+        }, 500);
+    }
+
+    /**
+     * Offer to install the distribution of a module that is not installed
+     */
+    provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        return context.diagnostics
+            .filter(diagnostic => diagnostic.source === 'Piping' && diagnostic.code === MISSING_PACKAGE_CODE)
+            .map(diagnostic => {
+                const distribution = distributionForModule(document.getText(diagnostic.range));
+                const action = new vscode.CodeAction(`Install ${distribution}`, vscode.CodeActionKind.QuickFix);
+                action.command = {
+                    command: 'piping.installPackage',
+                    title: `Install ${distribution}`,
+                    arguments: [distribution]
+                };
+                action.diagnostics = [diagnostic];
+                action.isPreferred = true;
+                return action;
+            });
+    }
+
+    dispose(): void {
+        if (this._analyzeTimer) {
+            clearTimeout(this._analyzeTimer);
+        }
+        this._diagnostics.dispose();
+        this._onDidUpdateReport.dispose();
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private async readFile(uri: vscode.Uri): Promise<void> {
+        try {
+            const content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+            this._imports.set(uri.fsPath, uri.fsPath.endsWith('.ipynb')
+                ? parseNotebookImports(content)
+                : parsePythonImports(content));
+        } catch (error) {
+            // Unreadable files and malformed notebooks have no imports we can report
+            this._imports.delete(uri.fsPath);
+        }
+    }
+
+    /**
+     * Names of the workspace's own modules: every folder and file name on the way to a scanned file
+     */
+    private getLocalModules(imports: Map<string, ImportReference[]>): Set<string> {
+        const modules = new Set<string>();
+        for (const file of imports.keys()) {
+            const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(file));
+            const relative = folder ? path.relative(folder.uri.fsPath, file) : path.basename(file);
+            relative.split(path.sep).forEach(part => modules.add(part.replace(/\.(py|ipynb)$/, '')));
+        }
+        return modules;
+    }
+
+    private publishDiagnostics(): void {
+        this._diagnostics.clear();
+
+        const enabled = vscode.workspace.getConfiguration('piping').get<boolean>('importDiagnostics', true);
+        if (!enabled || !this._report) {
+            return;
+        }
+
+        const byDocument = new Map<string, { uri: vscode.Uri, diagnostics: vscode.Diagnostic[] }>();
+        const add = (uri: vscode.Uri, diagnostic: vscode.Diagnostic) => {
+            const key = uri.toString();
+            if (!byDocument.has(key)) {
+                byDocument.set(key, { uri, diagnostics: [] });
+            }
+            byDocument.get(key)!.diagnostics.push(diagnostic);
+        };
+
+        for (const missing of this._report.missing) {
+            for (const reference of missing.references) {
+                const diagnostic = this.createDiagnostic(missing, reference);
+                if (reference.cell === undefined) {
+                    add(vscode.Uri.file(reference.file), diagnostic);
+                    continue;
+                }
+
+                // Notebook cells only have documents while the notebook is open
+                const notebook = vscode.workspace.notebookDocuments.find(doc => doc.uri.fsPath === reference.file);
+                if (notebook && reference.cell < notebook.cellCount) {
+                    add(notebook.cellAt(reference.cell).document.uri, diagnostic);
+                }
+            }
+        }
+
+        for (const { uri, diagnostics } of byDocument.values()) {
+            this._diagnostics.set(uri, diagnostics);
+        }
+    }
+
+    private createDiagnostic(missing: MissingImport, reference: ImportReference): vscode.Diagnostic {
+        const diagnostic = new vscode.Diagnostic(
+            new vscode.Range(reference.line, reference.start, reference.line, reference.end),
+            `'${missing.module}' is imported, but no installed package provides it (install ${missing.distribution})`,
+            vscode.DiagnosticSeverity.Warning
+        );
+        diagnostic.source = 'Piping';
+        diagnostic.code = MISSING_PACKAGE_CODE;
+        return diagnostic;
+    }
+}
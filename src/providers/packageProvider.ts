@@ -1,16 +1,40 @@
 import * as vscode from 'vscode';
 import { PythonExecutor, PackageInfo } from '../utils/pythonExecutor';
+import { WorkspaceExecutors } from '../utils/workspaceExecutors';
+import { WorkspaceFolderTreeItem } from './workspaceFolderTreeItem';
+import { findDeclaredPackageNames, findOrphanPackages } from '../utils/orphans';
+import { PyprojectDependencies, findPyprojectFile, getDependencyGroups, readPyprojectDependencies } from '../utils/pyproject';
+import { SecurityAudit, VulnerablePackage } from '../utils/securityAudit';
+import { LICENSE_STATUS_LABELS, LicensePolicy, evaluateLicense, isLicenseViolation, normalizeLicense, readLicensePolicy } from '../utils/licenses';
 
 export class PackageTreeItem extends vscode.TreeItem {
     constructor(
         public readonly packageInfo: PackageInfo,
-        public readonly collapsibleState: vscode.TreeItemCollapsibleState
+        public readonly collapsibleState: vscode.TreeItemCollapsibleState,
+        public readonly dependencyGroups: string[] = [],
+        public readonly folder?: vscode.WorkspaceFolder,
+        public readonly vulnerability?: VulnerablePackage,
+        licensePolicy?: LicensePolicy
     ) {
         super(packageInfo.name, collapsibleState);
         
         this.tooltip = `${packageInfo.name} ${packageInfo.version}${packageInfo.description ? `\n${packageInfo.description}` : ''}`;
+        if (packageInfo.requires?.length) {
+            this.tooltip += `\nRequires: ${packageInfo.requires.join(', ')}`;
+        }
+        if (packageInfo.requiredBy?.length) {
+            this.tooltip += `\nRequired by: ${packageInfo.requiredBy.join(', ')}`;
+        }
         this.description = packageInfo.version;
         
+        // Show the license as SPDX where the metadata allows, and whether the workspace policy permits it
+        const license = normalizeLicense(packageInfo.license);
+        const licenseStatus = evaluateLicense(license, licensePolicy);
+        this.tooltip += `\nLicense: ${license.spdx || license.text || 'unknown'}`;
+        if (licenseStatus !== 'no-policy') {
+            this.tooltip += `\nLicense policy: ${LICENSE_STATUS_LABELS[licenseStatus]}${isLicenseViolation(licenseStatus) ? ' (violation)' : ''}`;
+        }
+        
         // Set context value for command enablement
         this.contextValue = 'package';
         
@@ -20,16 +44,42 @@ export class PackageTreeItem extends vscode.TreeItem {
             this.description = `${packageInfo.version} → ${packageInfo.latest}`;
             this.contextValue = 'package-update';
         }
+        
+        // In conda environments, packages come from conda or pip
+        if (packageInfo.installer) {
+            this.tooltip += `\nInstalled by: ${packageInfo.installer}`;
+        }
+        if (packageInfo.installer === 'conda') {
+            this.description = `${this.description} (conda)`;
+        }
+        
+        // Show which pyproject.toml dependency groups declare the package
+        if (dependencyGroups.length) {
+            this.description = `${this.description} [${dependencyGroups.join(', ')}]`;
+            this.tooltip += `\nDeclared in pyproject.toml: ${dependencyGroups.join(', ')}`;
+        }
+        
+        // Flag packages the last security audit found advisories for
+        if (vulnerability) {
+            this.iconPath = new vscode.ThemeIcon('shield', new vscode.ThemeColor('errorForeground'));
+            this.contextValue = 'package-vulnerable';
+            this.tooltip += `\n\nAdvisories:\n${vulnerability.advisories.map(advisory => `${advisory.id}: ${advisory.summary}`).join('\n')}`;
+            this.tooltip += vulnerability.safeVersion
+                ? `\nNearest safe version: ${vulnerability.safeVersion}`
+                : '\nNo fixed version is known';
+        }
     }
 }
 
-export class PipingPackageProvider implements vscode.TreeDataProvider<PackageTreeItem> {
-    private _onDidChangeTreeData: vscode.EventEmitter<PackageTreeItem | undefined | null | void> = new vscode.EventEmitter<PackageTreeItem | undefined | null | void>();
-    readonly onDidChangeTreeData: vscode.Event<PackageTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+type PackageViewItem = PackageTreeItem | WorkspaceFolderTreeItem;
+
+export class PipingPackageProvider implements vscode.TreeDataProvider<PackageViewItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<PackageViewItem | undefined | null | void> = new vscode.EventEmitter<PackageViewItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<PackageViewItem | undefined | null | void> = this._onDidChangeTreeData.event;
     
-    private _packages: PackageInfo[] = [];
+    private _orphansOnly = false;
     
-    constructor(private pythonExecutor: PythonExecutor) {
+    constructor(private executors: WorkspaceExecutors, private securityAudit?: SecurityAudit) {
         // Refresh when extension is activated
         this.refresh();
     }
@@ -38,22 +88,42 @@ export class PipingPackageProvider implements vscode.TreeDataProvider<PackageTre
         this._onDidChangeTreeData.fire();
     }
     
-    getTreeItem(element: PackageTreeItem): vscode.TreeItem {
+    /**
+     * Show only orphaned packages, or all packages again
+     */
+    setOrphanFilter(enabled: boolean): void {
+        this._orphansOnly = enabled;
+        vscode.commands.executeCommand('setContext', 'piping.orphanFilter', enabled);
+        this.refresh();
+    }
+    
+    getTreeItem(element: PackageViewItem): vscode.TreeItem {
         return element;
     }
     
-    async getChildren(element?: PackageTreeItem): Promise<PackageTreeItem[]> {
+    async getChildren(element?: PackageViewItem): Promise<PackageViewItem[]> {
+        if (element instanceof WorkspaceFolderTreeItem) {
+            return this.getPackageItems(this.executors.get(element.folder));
+        }
         if (element) {
             // No children for package items
             return [];
         }
         
+        // Each folder of a multi-root workspace lists the packages of its own environment
+        if (this.executors.isMultiRoot) {
+            return this.executors.all.map(executor => new WorkspaceFolderTreeItem(executor.folder!, executor));
+        }
+        return this.getPackageItems(this.executors.get());
+    }
+    
+    private async getPackageItems(pythonExecutor: PythonExecutor): Promise<PackageTreeItem[]> {
         try {
-            // Fetch packages if not already loaded
-            this._packages = await this.pythonExecutor.getInstalledPackages();
+            // Fetch packages (served from the executor's cache when nothing changed)
+            const packages = [...await pythonExecutor.getInstalledPackages()];
             
             // Sort packages: first showing the ones with updates, then alphabetically
-            this._packages.sort((a, b) => {
+            packages.sort((a, b) => {
                 if (a.hasUpdate && !b.hasUpdate) {
                     return -1;
                 }
@@ -63,20 +133,46 @@ export class PipingPackageProvider implements vscode.TreeDataProvider<PackageTre
                 return a.name.localeCompare(b.name);
             });
             
-            return this._packages.map(pkg => 
-                new PackageTreeItem(pkg, vscode.TreeItemCollapsibleState.None)
+            const shown = this._orphansOnly
+                ? findOrphanPackages(packages, await findDeclaredPackageNames(pythonExecutor.outputChannel, pythonExecutor.folder))
+                : packages;
+            const pyproject = await this.getPyprojectDependencies(pythonExecutor.folder);
+            const report = this.securityAudit?.getReport(await pythonExecutor.getEnvironmentKey());
+            const licensePolicy = await this.getLicensePolicy(pythonExecutor.folder);
+            
+            return shown.map(pkg => 
+                new PackageTreeItem(
+                    pkg,
+                    vscode.TreeItemCollapsibleState.None,
+                    pyproject ? getDependencyGroups(pyproject, pkg.name) : [],
+                    pythonExecutor.folder,
+                    this.securityAudit?.findVulnerability(report, pkg.name, pkg.version),
+                    licensePolicy
+                )
             );
         } catch (error) {
-            console.error('Failed to get packages:', error);
+            this.executors.outputChannel.appendLine(`Failed to get packages: ${error}`);
             vscode.window.showErrorMessage('Failed to load Python packages. Make sure Python and pip are installed.');
             return [];
         }
     }
     
-    /**
-     * Get a package by name
-     */
-    getPackageByName(name: string): PackageInfo | undefined {
-        return this._packages.find(pkg => pkg.name === name);
+    private async getLicensePolicy(folder?: vscode.WorkspaceFolder): Promise<LicensePolicy | undefined> {
+        try {
+            return await readLicensePolicy(folder);
+        } catch (error) {
+            this.executors.outputChannel.appendLine(`Failed to read the license policy: ${error}`);
+            return undefined;
+        }
+    }
+    
+    private async getPyprojectDependencies(folder?: vscode.WorkspaceFolder): Promise<PyprojectDependencies | undefined> {
+        try {
+            const uri = await findPyprojectFile(folder);
+            return uri ? await readPyprojectDependencies(uri) : undefined;
+        } catch (error) {
+            this.executors.outputChannel.appendLine(`Failed to read pyproject.toml: ${error}`);
+            return undefined;
+        }
     }
 } 
\ No newline at end of file
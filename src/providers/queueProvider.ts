@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+import { OperationQueue, QueuedOperation } from '../utils/operationQueue';
+
+export class QueuedOperationTreeItem extends vscode.TreeItem {
+    constructor(public readonly operation: QueuedOperation) {
+        super(operation.label, vscode.TreeItemCollapsibleState.None);
+
+        const status = operation.status === 'running'
+            ? operation.progress ? `${operation.progress.message} (${operation.progress.percent}%)` : 'running'
+            : 'pending';
+        this.description = `${operation.environmentName} · ${status}`;
+        this.tooltip = `${operation.label}\n${operation.environmentKey}\n${status}`;
+        this.iconPath = new vscode.ThemeIcon(operation.status === 'running' ? 'sync~spin' : 'clock');
+        this.id = String(operation.id);
+        this.contextValue = `queuedOperation-${operation.status}`;
+    }
+}
+
+/**
+ * Shows the operations that are running or waiting for their environment
+ */
+export class PipingQueueProvider implements vscode.TreeDataProvider<QueuedOperationTreeItem> {
+    private _onDidChangeTreeData: vscode.EventEmitter<QueuedOperationTreeItem | undefined | null | void> = new vscode.EventEmitter<QueuedOperationTreeItem | undefined | null | void>();
+    readonly onDidChangeTreeData: vscode.Event<QueuedOperationTreeItem | undefined | null | void> = this._onDidChangeTreeData.event;
+
+    constructor(private operationQueue: OperationQueue) {
+        operationQueue.onDidChange(() => this.refresh());
+    }
+
+    refresh(): void {
+        this._onDidChangeTreeData.fire();
+    }
+
+    getTreeItem(element: QueuedOperationTreeItem): vscode.TreeItem {
+        return element;
+    }
+
+    getChildren(element?: QueuedOperationTreeItem): QueuedOperationTreeItem[] {
+        if (element) {
+            return [];
+        }
+        return this.operationQueue.operations.map(operation => new QueuedOperationTreeItem(operation));
+    }
+}
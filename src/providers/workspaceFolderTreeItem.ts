@@ -0,0 +1,21 @@
+import * as vscode from 'vscode';
+import { PythonExecutor } from '../utils/pythonExecutor';
+
+/**
+ * Groups the content of a view by workspace folder in multi-root workspaces
+ */
+export class WorkspaceFolderTreeItem extends vscode.TreeItem {
+    constructor(
+        public readonly folder: vscode.WorkspaceFolder,
+        pythonExecutor: PythonExecutor
+    ) {
+        super(folder.name, vscode.TreeItemCollapsibleState.Expanded);
+
+        const env = pythonExecutor.currentEnv;
+        this.description = env ? env.name : 'global Python';
+        this.tooltip = `${folder.uri.fsPath}\nActive environment: ${env ? env.path : 'global Python'}`;
+        this.iconPath = new vscode.ThemeIcon('root-folder');
+        this.id = folder.uri.toString();
+        this.contextValue = 'workspaceFolder';
+    }
+}
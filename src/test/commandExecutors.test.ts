@@ -0,0 +1,139 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { CommandExecutor, ContainerCommandExecutor, SshCommandExecutor, shellQuote } from '../utils/commandExecutors';
+
+/**
+ * Collect what a process writes to stdout
+ */
+function output(proc: import('child_process').ChildProcess): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let stdout = '';
+        proc.stdout!.on('data', chunk => stdout += chunk);
+        proc.on('error', reject);
+        proc.on('close', () => resolve(stdout));
+    });
+}
+
+suite('commandExecutors', () => {
+    suite('shellQuote', () => {
+        test('leaves plain words alone', () => {
+            assert.strictEqual(shellQuote('/opt/venv/bin/python'), '/opt/venv/bin/python');
+            assert.strictEqual(shellQuote('requests==2.28.1'), 'requests==2.28.1');
+        });
+
+        test('quotes words with shell syntax', () => {
+            assert.strictEqual(shellQuote('attrs<20'), `'attrs<20'`);
+            assert.strictEqual(shellQuote('requests; rm -rf ~'), `'requests; rm -rf ~'`);
+            assert.strictEqual(shellQuote('$(id)'), `'$(id)'`);
+            assert.strictEqual(shellQuote(''), `''`);
+        });
+
+        test('escapes single quotes', () => {
+            assert.strictEqual(shellQuote(`it's`), `'it'\\''s'`);
+        });
+    });
+
+    suite('SshCommandExecutor.spawn', function () {
+        // The fake ssh below runs the remote command line through sh, as sshd does
+        if (os.platform() === 'win32') {
+            return;
+        }
+
+        let binDirectory: string;
+        let originalPath: string | undefined;
+
+        suiteSetup(() => {
+            binDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'piping-ssh-'));
+            fs.writeFileSync(path.join(binDirectory, 'ssh'), '#!/bin/sh\nfor last; do :; done\nexec sh -c "$last"\n', { mode: 0o755 });
+            originalPath = process.env.PATH;
+            process.env.PATH = `${binDirectory}${path.delimiter}${originalPath}`;
+        });
+
+        suiteTeardown(() => {
+            process.env.PATH = originalPath;
+            fs.rmSync(binDirectory, { recursive: true, force: true });
+        });
+
+        test('hands every argument to the remote side as one word', async () => {
+            const args = [
+                'requests; touch pwned',
+                `quo"te's`,
+                '$(id) `id`',
+                'a  b',
+                'attrs<20',
+                '--index-url x',
+                ''
+            ];
+            const executor = new SshCommandExecutor('user@host', ['-p', '2222']);
+            const printed = await output(executor.spawn('printf', ['%s\\0', ...args]));
+
+            assert.deepStrictEqual(printed.split('\0').slice(0, -1), args);
+            assert.ok(!fs.existsSync('pwned'));
+        });
+    });
+
+    suite('terminate', function () {
+        // The fake clients leave the command running when they are stopped, as docker exec and ssh do
+        if (os.platform() !== 'linux') {
+            return;
+        }
+        this.timeout(10000);
+
+        let binDirectory: string;
+        let originalPath: string | undefined;
+
+        suiteSetup(() => {
+            binDirectory = fs.mkdtempSync(path.join(os.tmpdir(), 'piping-remote-'));
+            fs.writeFileSync(path.join(binDirectory, 'docker'), '#!/bin/sh\nshift 3\n"$@" &\nwait\n', { mode: 0o755 });
+            fs.writeFileSync(path.join(binDirectory, 'ssh'), '#!/bin/sh\nfor last; do :; done\nsh -c "$last" &\nwait\n', { mode: 0o755 });
+            originalPath = process.env.PATH;
+            process.env.PATH = `${binDirectory}${path.delimiter}${originalPath}`;
+        });
+
+        suiteTeardown(() => {
+            process.env.PATH = originalPath;
+            fs.rmSync(binDirectory, { recursive: true, force: true });
+        });
+
+        /**
+         * Whether a process runs with exactly these arguments
+         */
+        function isRunning(argv: string[]): boolean {
+            const cmdline = `${argv.join('\0')}\0`;
+            return fs.readdirSync('/proc').filter(entry => /^\d+$/.test(entry)).some(pid => {
+                try {
+                    return fs.readFileSync(`/proc/${pid}/cmdline`, 'utf8') === cmdline;
+                } catch (error) {
+                    return false;
+                }
+            });
+        }
+
+        async function waitFor(condition: () => boolean): Promise<void> {
+            for (let i = 0; i < 100 && !condition(); i++) {
+                await new Promise(resolve => setTimeout(resolve, 50));
+            }
+        }
+
+        const executors: Array<[string, CommandExecutor, string]> = [
+            ['docker', new ContainerCommandExecutor('docker', 'app'), '271'],
+            ['ssh', new SshCommandExecutor('user@host'), '314']
+        ];
+        for (const [name, executor, seconds] of executors) {
+            test(`stops the process on the target, not only the ${name} client`, async () => {
+                const proc = executor.spawn('sleep', [seconds]);
+                const closed = new Promise(resolve => proc.on('close', resolve));
+                await waitFor(() => isRunning(['sleep', seconds]));
+                assert.ok(isRunning(['sleep', seconds]));
+
+                executor.terminate(proc);
+                await closed;
+                await waitFor(() => !isRunning(['sleep', seconds]));
+
+                assert.ok(!isRunning(['sleep', seconds]));
+            });
+        }
+    });
+});
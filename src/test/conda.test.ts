@@ -0,0 +1,127 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { condaEnvironments, findCondaExecutable, readCondaPackageNames } from '../utils/conda';
+import { PythonExecutor } from '../utils/pythonExecutor';
+
+// A conda that keeps its environments in $FAKE_CONDA_ROOT/envs and logs its arguments
+const FAKE_CONDA = `#!/bin/sh
+echo "$*" >> "$FAKE_CONDA_ROOT/calls.log"
+case "$1 $2" in
+    "env list")
+        printf '{"envs": ['
+        sep=''
+        for env in "$FAKE_CONDA_ROOT"/envs/*; do
+            [ -d "$env" ] && printf '%s"%s"' "$sep" "$env" && sep=', '
+        done
+        printf ']}\\n'
+        ;;
+    "env remove")
+        rm -rf "$5"
+        ;;
+    "create -y")
+        mkdir -p "$FAKE_CONDA_ROOT/envs/$4/conda-meta" "$FAKE_CONDA_ROOT/envs/$4/bin"
+        touch "$FAKE_CONDA_ROOT/envs/$4/bin/python"
+        ;;
+    *)
+        exit 1
+        ;;
+esac
+`;
+
+const outputChannel = { append: () => undefined, appendLine: () => undefined } as unknown as vscode.OutputChannel;
+
+/**
+ * Make a conda environment folder with an interpreter and the given conda-meta records
+ */
+function makeEnvironment(envPath: string, records: string[] = []): void {
+    fs.mkdirSync(path.join(envPath, 'conda-meta'), { recursive: true });
+    fs.mkdirSync(path.join(envPath, 'bin'), { recursive: true });
+    fs.writeFileSync(path.join(envPath, 'bin', 'python'), '');
+    records.forEach(record => fs.writeFileSync(path.join(envPath, 'conda-meta', record), '{}'));
+}
+
+suite('conda', function () {
+    // The fake conda is a shell script
+    if (os.platform() === 'win32') {
+        return;
+    }
+
+    let root: string;
+    const saved: { [name: string]: string | undefined } = {};
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'piping-conda-'));
+        const binDirectory = path.join(root, 'bin');
+        fs.mkdirSync(binDirectory);
+        fs.mkdirSync(path.join(root, 'envs'));
+        fs.writeFileSync(path.join(binDirectory, 'conda'), FAKE_CONDA, { mode: 0o755 });
+
+        for (const name of ['PATH', 'CONDA_EXE', 'MAMBA_EXE', 'FAKE_CONDA_ROOT']) {
+            saved[name] = process.env[name];
+        }
+        delete process.env.CONDA_EXE;
+        delete process.env.MAMBA_EXE;
+        process.env.PATH = `${binDirectory}${path.delimiter}${saved.PATH}`;
+        process.env.FAKE_CONDA_ROOT = root;
+    });
+
+    teardown(() => {
+        for (const [name, value] of Object.entries(saved)) {
+            if (value === undefined) {
+                delete process.env[name];
+            } else {
+                process.env[name] = value;
+            }
+        }
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    function calls(): string[] {
+        const log = path.join(root, 'calls.log');
+        return fs.existsSync(log) ? fs.readFileSync(log, 'utf8').trim().split('\n') : [];
+    }
+
+    test('finds conda on PATH', async () => {
+        assert.strictEqual(await findCondaExecutable(), path.join(root, 'bin', 'conda'));
+    });
+
+    test('creates a named environment with the chosen Python version', async () => {
+        const env = await new PythonExecutor(outputChannel).createCondaEnvironment('data', '3.11');
+
+        assert.deepStrictEqual(calls().filter(call => call.startsWith('create')), ['create -y -n data python=3.11']);
+        assert.strictEqual(env?.name, 'data');
+        assert.strictEqual(env?.path, path.join(root, 'envs', 'data'));
+        assert.strictEqual(env?.kind, 'conda');
+    });
+
+    test('deletes an environment through conda', async () => {
+        const envPath = path.join(root, 'envs', 'old');
+        makeEnvironment(envPath);
+
+        const deleted = await new PythonExecutor(outputChannel).deleteEnvironment({ name: 'old', path: envPath, kind: 'conda', isActive: false });
+
+        assert.ok(deleted);
+        assert.ok(calls().includes(`env remove -y -p ${envPath}`));
+        assert.ok(!fs.existsSync(envPath));
+    });
+
+    test('lists environment folders with conda-meta and an interpreter', async () => {
+        makeEnvironment(path.join(root, 'envs', 'ml'));
+        fs.mkdirSync(path.join(root, 'envs', 'broken', 'conda-meta'), { recursive: true });
+        fs.mkdirSync(path.join(root, 'envs', 'plain', 'bin'), { recursive: true });
+
+        const found = await condaEnvironments(['ml', 'broken', 'plain'].map(name => path.join(root, 'envs', name)));
+
+        assert.deepStrictEqual(found, [{ name: 'ml', path: path.join(root, 'envs', 'ml'), kind: 'conda' }]);
+    });
+
+    test('reads the names of the packages conda installed', async () => {
+        const envPath = path.join(root, 'envs', 'ml');
+        makeEnvironment(envPath, ['numpy-1.26.4-py311h64a7726_0.json', 'scikit-learn-1.4.2-py311he08f58d_0.json', 'history']);
+
+        assert.deepStrictEqual([...await readCondaPackageNames(envPath)].sort(), ['numpy', 'scikit-learn']);
+    });
+});
@@ -0,0 +1,187 @@
+import * as assert from 'assert';
+import { OperationQueue } from '../utils/operationQueue';
+import { PipOperation } from '../utils/pipProgress';
+
+/**
+ * An operation that runs until the test finishes it
+ */
+class Held {
+    started = false;
+    operation?: PipOperation;
+    private finish!: (result: boolean) => void;
+    readonly done = new Promise<boolean>(resolve => this.finish = resolve);
+
+    execute = (operation: PipOperation) => {
+        this.started = true;
+        this.operation = operation;
+        operation.token?.onCancellationRequested(() => this.finish(false));
+        return this.done;
+    };
+
+    release(): void {
+        this.finish(true);
+    }
+}
+
+const settled = () => new Promise(resolve => setImmediate(resolve));
+
+suite('OperationQueue', () => {
+    let queue: OperationQueue;
+    let installed: string[][];
+
+    setup(() => {
+        queue = new OperationQueue();
+        installed = [];
+    });
+
+    teardown(() => {
+        queue.dispose();
+    });
+
+    function install(specs: string[], environmentKey = 'venv'): Promise<boolean> {
+        return queue.install({
+            label: `Install ${specs.join(', ')}`,
+            environmentKey,
+            environmentName: environmentKey,
+            specs,
+            execute: async allSpecs => {
+                installed.push(allSpecs);
+                return true;
+            }
+        });
+    }
+
+    function hold(held: Held, label: string, environmentKey = 'venv'): Promise<boolean> {
+        return queue.run({ label, environmentKey, environmentName: environmentKey, cancelled: false, execute: held.execute });
+    }
+
+    test('merges waiting installs of different packages into one pip call', async () => {
+        const blocker = new Held();
+        hold(blocker, 'Uninstall six');
+        const installs = [install(['requests']), install(['numpy==1.26.4']), install(['flask'])];
+
+        blocker.release();
+
+        assert.deepStrictEqual(await Promise.all(installs), [true, true, true]);
+        assert.deepStrictEqual(installed, [['requests', 'numpy==1.26.4', 'flask']]);
+    });
+
+    test('does not merge installs of the same package or across other operations', async () => {
+        const blocker = new Held();
+        const later = new Held();
+        hold(blocker, 'Uninstall six');
+        const installs = [install(['requests']), install(['Requests>=2.31']), install(['flask'])];
+        const held = hold(later, 'Update pip');
+        const last = install(['numpy']);
+
+        blocker.release();
+        await Promise.all(installs);
+        await settled();
+        assert.ok(later.started);
+        later.release();
+        await Promise.all([held, last]);
+
+        assert.deepStrictEqual(installed, [['requests'], ['Requests>=2.31', 'flask'], ['numpy']]);
+    });
+
+    test('runs operations on one environment in the order they were queued', async () => {
+        const order: string[] = [];
+        const run = (label: string) => queue.run({
+            label,
+            environmentKey: 'venv',
+            environmentName: 'venv',
+            cancelled: false,
+            execute: async () => {
+                order.push(label);
+                await settled();
+                return true;
+            }
+        });
+
+        await Promise.all([run('first'), run('second'), run('third')]);
+
+        assert.deepStrictEqual(order, ['first', 'second', 'third']);
+    });
+
+    test('runs operations on different environments side by side', async () => {
+        const first = new Held();
+        const second = new Held();
+        hold(first, 'Install into venv', 'venv');
+        hold(second, 'Install into conda', 'conda');
+
+        assert.ok(first.started && second.started);
+        assert.deepStrictEqual(queue.operations.map(operation => operation.status), ['running', 'running']);
+        first.release();
+        second.release();
+    });
+
+    test('cancelling a waiting operation removes it without running it', async () => {
+        const blocker = new Held();
+        hold(blocker, 'Uninstall six');
+        const waiting = install(['requests']);
+        const id = queue.operations[1].id;
+
+        queue.cancel(id);
+
+        assert.strictEqual(await waiting, false);
+        assert.deepStrictEqual(queue.operations.map(operation => operation.label), ['Uninstall six']);
+        blocker.release();
+        await settled();
+        assert.deepStrictEqual(installed, []);
+    });
+
+    test('cancelling a running operation cancels its token and its caller', async () => {
+        const running = new Held();
+        let callerCancelled = false;
+        const result = queue.run({
+            label: 'Install torch',
+            environmentKey: 'venv',
+            environmentName: 'venv',
+            caller: { cancel: () => callerCancelled = true },
+            cancelled: false,
+            execute: running.execute
+        });
+        const waiting = install(['requests']);
+
+        queue.cancel(queue.operations[0].id);
+
+        assert.ok(running.operation?.token?.isCancellationRequested);
+        assert.ok(callerCancelled);
+        assert.strictEqual(await result, false);
+        // The next operation starts once the cancelled one is done
+        assert.strictEqual(await waiting, true);
+        assert.deepStrictEqual(installed, [['requests']]);
+    });
+
+    test('moves a waiting operation past the next one on the same environment', async () => {
+        const blocker = new Held();
+        hold(blocker, 'Uninstall six');
+        const first = new Held();
+        const second = new Held();
+        hold(first, 'first');
+        hold(new Held(), 'in conda', 'conda');
+        hold(second, 'second');
+        const [, firstOperation] = queue.operations;
+
+        queue.move(firstOperation.id, 1);
+
+        assert.deepStrictEqual(queue.operations.map(operation => operation.label), ['Uninstall six', 'second', 'in conda', 'first']);
+        blocker.release();
+        await settled();
+        assert.ok(second.started && !first.started);
+        second.release();
+    });
+
+    test('does not move running operations or past a running one', () => {
+        const running = new Held();
+        hold(running, 'running');
+        hold(new Held(), 'waiting');
+        const [runningOperation, waitingOperation] = queue.operations;
+
+        queue.move(runningOperation.id, 1);
+        queue.move(waitingOperation.id, -1);
+
+        assert.deepStrictEqual(queue.operations.map(operation => operation.label), ['running', 'waiting']);
+        running.release();
+    });
+});
@@ -0,0 +1,167 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as http from 'http';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { AddressInfo } from 'net';
+import { PackageIndex, latestVersion } from '../utils/packageIndex';
+import { settings } from './vscodeMock';
+
+const outputChannel = { append: () => undefined, appendLine: () => undefined } as unknown as vscode.OutputChannel;
+
+// A mirror answering in PEP 691 JSON when asked for it
+const JSON_PAGES: { [path: string]: object } = {
+    '/json/': {
+        meta: { 'api-version': '1.1' },
+        projects: [{ name: 'requests' }, { name: 'requests-oauthlib' }, { name: 'types-requests' }, { name: 'Flask' }]
+    },
+    '/json/requests/': {
+        meta: { 'api-version': '1.1' },
+        name: 'requests',
+        versions: ['2.31.0', '2.32.0', '2.32.3', '3.0.0b1'],
+        files: [
+            { filename: 'requests-2.31.0-py3-none-any.whl', url: 'https://files.example.org/requests-2.31.0-py3-none-any.whl', hashes: { sha256: 'aaaa' }, 'requires-python': '>=3.7' },
+            { filename: 'requests-2.32.0.tar.gz', url: 'https://files.example.org/requests-2.32.0.tar.gz', hashes: { sha256: 'bbbb' }, yanked: 'broke proxies' },
+            { filename: 'requests-2.32.3-py3-none-any.whl', url: 'https://files.example.org/requests-2.32.3-py3-none-any.whl', hashes: { sha256: 'cccc' } },
+            { filename: 'requests-3.0.0b1-py3-none-any.whl', url: 'https://files.example.org/requests-3.0.0b1-py3-none-any.whl', hashes: {} }
+        ]
+    },
+    '/json/requests-oauthlib/': { name: 'requests-oauthlib', versions: ['2.0.0'], files: [] },
+    '/json/types-requests/': { name: 'types-requests', versions: ['2.32.0.20240914'], files: [] }
+};
+
+// A mirror that only serves PEP 503 HTML
+const HTML_PAGES: { [path: string]: string } = {
+    '/html/': '<!DOCTYPE html><html><body><a href="/html/zope-interface/">zope.interface</a><a href="/html/pyyaml/">PyYAML</a></body></html>',
+    '/html/zope-interface/': `<!DOCTYPE html><html><body>
+<a href="../../files/zope.interface-6.4.tar.gz#sha256=0123abcd" data-requires-python="&gt;=3.7">zope.interface-6.4.tar.gz</a>
+<a href="https://files.example.org/zope.interface-7.0-cp312-cp312-win_amd64.whl" data-yanked="">zope.interface-7.0-cp312-cp312-win_amd64.whl</a>
+<a href='../../files/zope.interface-6.3-py3-none-any.whl'>zope.interface-6.3-py3-none-any.whl</a>
+</body></html>`
+};
+
+suite('PackageIndex', () => {
+    let server: http.Server;
+    let baseUrl: string;
+    let storage: string;
+    let requests: string[];
+    let failing: boolean;
+
+    suiteSetup(async () => {
+        server = http.createServer((request, response) => {
+            const url = request.url || '';
+            requests.push(url);
+            const wantsJson = (request.headers.accept || '').startsWith('application/vnd.pypi.simple.v1+json');
+            if (failing) {
+                response.writeHead(503).end();
+            } else if (JSON_PAGES[url] && wantsJson) {
+                response.writeHead(200, { 'Content-Type': 'application/vnd.pypi.simple.v1+json' }).end(JSON.stringify(JSON_PAGES[url]));
+            } else if (HTML_PAGES[url]) {
+                response.writeHead(200, { 'Content-Type': 'text/html' }).end(HTML_PAGES[url]);
+            } else {
+                response.writeHead(404).end();
+            }
+        });
+        await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+        baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    suiteTeardown(done => {
+        server.close(() => done());
+    });
+
+    setup(() => {
+        storage = fs.mkdtempSync(path.join(os.tmpdir(), 'piping-index-'));
+        requests = [];
+        failing = false;
+        settings['piping.indexUrl'] = `${baseUrl}/json`;
+    });
+
+    teardown(() => {
+        delete settings['piping.indexUrl'];
+        fs.rmSync(storage, { recursive: true, force: true });
+    });
+
+    function createIndex(): PackageIndex {
+        return new PackageIndex(vscode.Uri.file(storage), outputChannel);
+    }
+
+    test('reads a project from a PEP 691 JSON page', async () => {
+        const project = await createIndex().getProject('Requests');
+
+        assert.strictEqual(project.name, 'requests');
+        assert.deepStrictEqual(project.versions, ['2.31.0', '2.32.0', '2.32.3', '3.0.0b1']);
+        assert.deepStrictEqual(project.files[0], {
+            filename: 'requests-2.31.0-py3-none-any.whl',
+            url: 'https://files.example.org/requests-2.31.0-py3-none-any.whl',
+            version: '2.31.0',
+            hashes: { sha256: 'aaaa' },
+            yanked: false,
+            requiresPython: '>=3.7'
+        });
+        assert.strictEqual(project.files[1].yanked, true);
+        assert.strictEqual(latestVersion(project), '2.32.3');
+    });
+
+    test('reads a project from a PEP 503 HTML page', async () => {
+        settings['piping.indexUrl'] = `${baseUrl}/html/`;
+
+        const project = await createIndex().getProject('Zope.Interface');
+
+        assert.deepStrictEqual(project.versions, ['6.4', '7.0', '6.3']);
+        assert.deepStrictEqual(project.files[0], {
+            filename: 'zope.interface-6.4.tar.gz',
+            url: `${baseUrl}/files/zope.interface-6.4.tar.gz`,
+            version: '6.4',
+            hashes: { sha256: '0123abcd' },
+            yanked: false,
+            requiresPython: '>=3.7'
+        });
+        assert.strictEqual(project.files[1].yanked, true);
+        assert.strictEqual(latestVersion(project), '6.4');
+        assert.deepStrictEqual(requests, ['/html/zope-interface/']);
+    });
+
+    test('rejects projects the index does not have', async () => {
+        await assert.rejects(createIndex().getProject('no-such-project'), /failed with status 404/);
+    });
+
+    test('searches the project list and looks up the latest versions', async () => {
+        const results = await createIndex().search('requests');
+
+        assert.deepStrictEqual(results, [
+            { name: 'requests', version: '2.32.3' },
+            { name: 'requests-oauthlib', version: '2.0.0' },
+            { name: 'types-requests', version: '2.32.0.20240914' }
+        ]);
+    });
+
+    test('reads the project list of an HTML index', async () => {
+        settings['piping.indexUrl'] = `${baseUrl}/html/`;
+
+        assert.deepStrictEqual(await createIndex().getProjectNames(), ['zope.interface', 'PyYAML']);
+    });
+
+    test('keeps the project list in storage between sessions', async () => {
+        await createIndex().getProjectNames();
+        requests = [];
+
+        assert.deepStrictEqual(await createIndex().getProjectNames(), ['requests', 'requests-oauthlib', 'types-requests', 'Flask']);
+        assert.deepStrictEqual(requests, []);
+    });
+
+    test('falls back to the stored project list when the index is down', async () => {
+        await createIndex().getProjectNames();
+        failing = true;
+
+        assert.deepStrictEqual(await createIndex().getProjectNames(true), ['requests', 'requests-oauthlib', 'types-requests', 'Flask']);
+        assert.deepStrictEqual(requests, ['/json/', '/json/']);
+    });
+
+    test('rejects when the index is down and nothing is stored', async () => {
+        failing = true;
+
+        await assert.rejects(createIndex().getProjectNames(), /failed with status 503/);
+    });
+});
@@ -0,0 +1,24 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as path from 'path';
+
+// The tests run from out/test, so the manifest is two folders up
+const manifest = JSON.parse(fs.readFileSync(path.join(__dirname, '..', '..', 'package.json'), 'utf8'));
+
+suite('package.json', () => {
+    // VS Code before 1.74 only activates the extension for the events it lists
+    test('activates on every contributed command', () => {
+        const missing = (manifest.contributes.commands as Array<{ command: string }>)
+            .map(contributed => `onCommand:${contributed.command}`)
+            .filter(event => !manifest.activationEvents.includes(event));
+        assert.deepStrictEqual(missing, []);
+    });
+
+    test('activates on every contributed view', () => {
+        const views = Object.values(manifest.contributes.views as { [container: string]: Array<{ id: string }> }).flat();
+        const missing = views
+            .map(view => `onView:${view.id}`)
+            .filter(event => !manifest.activationEvents.includes(event));
+        assert.deepStrictEqual(missing, []);
+    });
+});
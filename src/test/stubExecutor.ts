@@ -0,0 +1,68 @@
+import * as cp from 'child_process';
+import { EventEmitter } from 'events';
+import { PassThrough } from 'stream';
+import { CommandExecutor } from '../utils/commandExecutors';
+
+/**
+ * What a recorded command wrote and how it exited
+ */
+export interface Recording {
+    stdout?: string;
+    stderr?: string;
+    code?: number;
+    // Keep running until terminated, like a long pip install
+    hang?: boolean;
+}
+
+/**
+ * A remote target that replays recorded output instead of running anything.
+ * Commands are looked up by their command line, words joined with spaces.
+ */
+export class StubCommandExecutor implements CommandExecutor {
+    readonly id = 'stub:target';
+    readonly label = 'stub target';
+    readonly isLocal = false;
+    readonly platform = 'linux';
+
+    // Command lines in the order they were run, with what they got on stdin
+    readonly calls: Array<{ commandLine: string, input: string }> = [];
+    readonly terminated: string[] = [];
+
+    constructor(private recordings: { [commandLine: string]: Recording }) {}
+
+    spawn(command: string, args: string[]): cp.ChildProcess {
+        const commandLine = [command, ...args].join(' ');
+        const recording = this.recordings[commandLine];
+        const call = { commandLine, input: '' };
+        this.calls.push(call);
+
+        const proc = new EventEmitter() as cp.ChildProcess & { commandLine: string };
+        const stdout = new PassThrough();
+        const stderr = new PassThrough();
+        const stdin = new PassThrough();
+        stdin.on('data', chunk => call.input += chunk);
+        Object.assign(proc, { stdout, stderr, stdin, commandLine, exitCode: null, kill: () => true });
+
+        setImmediate(() => {
+            if (!recording) {
+                proc.emit('error', new Error(`No recording for ${commandLine}`));
+                return;
+            }
+            stdout.write(recording.stdout || '');
+            stderr.write(recording.stderr || '');
+            if (!recording.hang) {
+                setImmediate(() => proc.emit('close', recording.code ?? 0));
+            }
+        });
+        return proc;
+    }
+
+    async exists(filePath: string): Promise<boolean> {
+        return this.recordings[`test -e ${filePath}`]?.code === 0;
+    }
+
+    terminate(proc: cp.ChildProcess): void {
+        this.terminated.push((proc as cp.ChildProcess & { commandLine: string }).commandLine);
+        setImmediate(() => proc.emit('close', null));
+    }
+}
@@ -0,0 +1,86 @@
+import Module = require('module');
+import * as fs from 'fs';
+import * as path from 'path';
+
+/**
+ * Unit tests run in plain Node, outside the extension host. The modules they cover only
+ * touch vscode for settings, events, cancellation and storage files, so `require('vscode')`
+ * gets this stand-in.
+ */
+class EventEmitter<T> {
+    private listeners: Array<(event: T) => void> = [];
+
+    readonly event = (listener: (event: T) => void) => {
+        this.listeners.push(listener);
+        return { dispose: () => { this.listeners = this.listeners.filter(l => l !== listener); } };
+    };
+
+    fire(event: T): void {
+        this.listeners.forEach(listener => listener(event));
+    }
+
+    dispose(): void {
+        this.listeners = [];
+    }
+}
+
+class CancellationTokenSource {
+    private emitter = new EventEmitter<void>();
+    private cancelled = false;
+
+    readonly token = {
+        isCancellationRequested: false,
+        onCancellationRequested: this.emitter.event
+    };
+
+    cancel(): void {
+        if (!this.cancelled) {
+            this.cancelled = true;
+            this.token.isCancellationRequested = true;
+            this.emitter.fire();
+        }
+    }
+
+    dispose(): void {
+        this.emitter.dispose();
+    }
+}
+
+class Uri {
+    private constructor(readonly fsPath: string) {}
+
+    static file(fsPath: string): Uri {
+        return new Uri(fsPath);
+    }
+
+    static joinPath(base: Uri, ...parts: string[]): Uri {
+        return new Uri(path.join(base.fsPath, ...parts));
+    }
+}
+
+/**
+ * Settings the code under test reads, by full key such as `piping.indexUrl`. Tests set and clear them.
+ */
+export const settings: { [key: string]: unknown } = {};
+
+const vscode = {
+    EventEmitter,
+    CancellationTokenSource,
+    Uri,
+    workspace: {
+        getConfiguration: (section: string) => ({
+            get: <T>(key: string, fallback?: T) => (settings[`${section}.${key}`] as T | undefined) ?? fallback
+        }),
+        fs: {
+            readFile: (uri: Uri) => fs.promises.readFile(uri.fsPath),
+            writeFile: (uri: Uri, content: Uint8Array) => fs.promises.writeFile(uri.fsPath, content),
+            createDirectory: (uri: Uri) => fs.promises.mkdir(uri.fsPath, { recursive: true }).then(() => undefined)
+        }
+    }
+};
+
+const loader = Module as unknown as { _load: (request: string, ...rest: unknown[]) => unknown };
+const load = loader._load;
+loader._load = function (request: string, ...rest: unknown[]) {
+    return request === 'vscode' ? vscode : load.call(this, request, ...rest);
+};
@@ -0,0 +1,286 @@
+import * as vscode from 'vscode';
+import * as cp from 'child_process';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import * as crypto from 'crypto';
+
+/**
+ * Where Piping starts processes: this machine, a container or a host reached over SSH.
+ * Environments record the id of the executor they belong to.
+ */
+export interface CommandExecutor {
+    readonly id: string;
+    readonly label: string;
+    readonly isLocal: boolean;
+    // File paths on the target follow its platform, not this machine's
+    readonly platform: NodeJS.Platform;
+
+    /**
+     * Start a process on the target. Arguments reach the process as they are, without a shell.
+     */
+    spawn(command: string, args: string[]): cp.ChildProcess;
+
+    /**
+     * Whether a file exists on the target
+     */
+    exists(filePath: string): Promise<boolean>;
+
+    /**
+     * Stop a process started by spawn, along with the processes it started
+     */
+    terminate(proc: cp.ChildProcess): void;
+}
+
+/**
+ * A machine or container with Python environments, configured in piping.remoteTargets
+ */
+export interface RemoteTarget {
+    name: string;
+    type: 'docker' | 'podman' | 'ssh';
+    // The container to run in, for docker and podman
+    container?: string;
+    // The destination passed to ssh, e.g. user@host, for ssh
+    host?: string;
+    // Extra options for ssh, such as -p 2222 or -i ~/.ssh/key
+    sshOptions?: string[];
+    // Paths of the environments on the target
+    environments?: string[];
+}
+
+// Words the remote shell leaves alone
+const SAFE_SHELL_WORD = /^[A-Za-z0-9_\/.,:=@%+-]+$/;
+
+/**
+ * Quote a word for a POSIX shell
+ */
+export function shellQuote(word: string): string {
+    return SAFE_SHELL_WORD.test(word) ? word : `'${word.replace(/'/g, `'\\''`)}'`;
+}
+
+// How long a process gets to exit after SIGTERM before it is killed
+const TERMINATE_GRACE_MS = 3000;
+
+/**
+ * Kill a process and its children. On Windows taskkill walks the tree; elsewhere the
+ * process leads its own process group (see LocalCommandExecutor.spawn), which is signalled as a whole.
+ */
+export function killProcessTree(proc: cp.ChildProcess): void {
+    if (proc.pid === undefined || proc.exitCode !== null) {
+        return;
+    }
+    if (os.platform() === 'win32') {
+        cp.spawn('taskkill', ['/pid', String(proc.pid), '/T', '/F'], { shell: false });
+        return;
+    }
+
+    const signal = (name: NodeJS.Signals) => {
+        try {
+            process.kill(-proc.pid!, name);
+        } catch (error) {
+            // The group is already gone
+        }
+    };
+    signal('SIGTERM');
+    const timer = setTimeout(() => signal('SIGKILL'), TERMINATE_GRACE_MS);
+    proc.once('exit', () => clearTimeout(timer));
+}
+
+// Remote processes carry this variable, which their children inherit, so they can be found to stop them
+const OPERATION_VARIABLE = 'PIPING_OPERATION';
+
+/**
+ * Marks the processes a remote executor starts, so that terminate can find them on the target
+ */
+class RemoteOperations {
+    private _ids = new WeakMap<cp.ChildProcess, string>();
+
+    /**
+     * The command and arguments that run a command on the target under a new operation id
+     */
+    mark(command: string, args: string[]): { id: string, argv: string[] } {
+        const id = crypto.randomBytes(8).toString('hex');
+        return { id, argv: ['env', `${OPERATION_VARIABLE}=${id}`, command, ...args] };
+    }
+
+    remember(proc: cp.ChildProcess, id: string): cp.ChildProcess {
+        this._ids.set(proc, id);
+        return proc;
+    }
+
+    /**
+     * A shell script that sends SIGTERM to every process on the target with the operation id of a process
+     */
+    killScript(proc: cp.ChildProcess): string | undefined {
+        const id = this._ids.get(proc);
+        return id && [
+            'for dir in /proc/[0-9]*; do',
+            `  if tr '\\0' '\\n' < "$dir/environ" 2>/dev/null | grep -qx '${OPERATION_VARIABLE}=${id}'; then kill -TERM "\${dir#/proc/}" 2>/dev/null; fi`,
+            'done',
+            'exit 0'
+        ].join('\n');
+    }
+}
+
+/**
+ * Stop a remote process on its target through a second connection, then the local client.
+ * The client is stopped as well when the target cannot be reached.
+ */
+function terminateRemote(operations: RemoteOperations, proc: cp.ChildProcess, spawnScript: (script: string) => cp.ChildProcess): void {
+    const script = operations.killScript(proc);
+    if (!script || proc.exitCode !== null) {
+        proc.kill();
+        return;
+    }
+    succeeds(spawnScript(script)).then(() => proc.kill());
+}
+
+/**
+ * Whether a process exits with status 0
+ */
+function succeeds(proc: cp.ChildProcess): Promise<boolean> {
+    return new Promise(resolve => {
+        proc.on('close', code => resolve(code === 0));
+        proc.on('error', () => resolve(false));
+    });
+}
+
+export class LocalCommandExecutor implements CommandExecutor {
+    readonly id = 'local';
+    readonly label = 'This machine';
+    readonly isLocal = true;
+    readonly platform = os.platform();
+
+    spawn(command: string, args: string[]): cp.ChildProcess {
+        // No shell: version specifiers such as "attrs<20" contain redirection characters.
+        // Outside Windows the process gets its own group, so that it can be stopped with its children.
+        return cp.spawn(command, args, { shell: false, detached: this.platform !== 'win32' });
+    }
+
+    async exists(filePath: string): Promise<boolean> {
+        try {
+            await fs.promises.access(filePath);
+            return true;
+        } catch (error) {
+            return false;
+        }
+    }
+
+    terminate(proc: cp.ChildProcess): void {
+        killProcessTree(proc);
+    }
+}
+
+/**
+ * Runs processes in a running container through docker exec or podman exec
+ */
+export class ContainerCommandExecutor implements CommandExecutor {
+    readonly id: string;
+    readonly label: string;
+    readonly isLocal = false;
+    readonly platform = 'linux';
+
+    constructor(private runtime: 'docker' | 'podman', private container: string) {
+        this.id = `${runtime}:${container}`;
+        this.label = `${runtime} container ${container}`;
+    }
+
+    private _operations = new RemoteOperations();
+
+    spawn(command: string, args: string[]): cp.ChildProcess {
+        const { id, argv } = this._operations.mark(command, args);
+        return this._operations.remember(this.exec(argv), id);
+    }
+
+    exists(filePath: string): Promise<boolean> {
+        return succeeds(this.exec(['test', '-e', filePath]));
+    }
+
+    terminate(proc: cp.ChildProcess): void {
+        // Stopping the client alone leaves the process in the container running
+        terminateRemote(this._operations, proc, script => this.exec(['sh', '-c', script]));
+    }
+
+    private exec(argv: string[]): cp.ChildProcess {
+        // -i keeps stdin open, which helper scripts are fed through
+        return cp.spawn(this.runtime, ['exec', '-i', this.container, ...argv], { shell: false });
+    }
+}
+
+/**
+ * Runs processes on another host over ssh. The host needs key-based authentication,
+ * as there is no terminal to type a password into.
+ */
+export class SshCommandExecutor implements CommandExecutor {
+    readonly id: string;
+    readonly label: string;
+    readonly isLocal = false;
+    readonly platform = 'linux';
+
+    constructor(private host: string, private sshOptions: string[] = []) {
+        this.id = `ssh:${host}`;
+        this.label = `SSH host ${host}`;
+    }
+
+    private _operations = new RemoteOperations();
+
+    spawn(command: string, args: string[]): cp.ChildProcess {
+        const { id, argv } = this._operations.mark(command, args);
+        return this._operations.remember(this.run(argv), id);
+    }
+
+    exists(filePath: string): Promise<boolean> {
+        return succeeds(this.run(['test', '-e', filePath]));
+    }
+
+    terminate(proc: cp.ChildProcess): void {
+        // Without a terminal, closing the connection does not signal the remote process
+        terminateRemote(this._operations, proc, script => this.run(['sh', '-c', script]));
+    }
+
+    private run(argv: string[]): cp.ChildProcess {
+        // ssh hands the command line to the remote shell, so every word is quoted for it
+        const commandLine = argv.map(shellQuote).join(' ');
+        return cp.spawn('ssh', [...this.sshOptions, '-o', 'BatchMode=yes', this.host, '--', commandLine], { shell: false });
+    }
+}
+
+export const localCommandExecutor = new LocalCommandExecutor();
+
+/**
+ * The remote targets configured in piping.remoteTargets, skipping incomplete entries
+ */
+export function readRemoteTargets(): RemoteTarget[] {
+    const targets = vscode.workspace.getConfiguration('piping').get<RemoteTarget[]>('remoteTargets', []);
+    return targets.filter(target => target.name && (target.type === 'ssh' ? target.host : target.container));
+}
+
+/**
+ * The executor that reaches a remote target
+ */
+export function createCommandExecutor(target: RemoteTarget): CommandExecutor {
+    return target.type === 'ssh'
+        ? new SshCommandExecutor(target.host!, target.sshOptions)
+        : new ContainerCommandExecutor(target.type, target.container!);
+}
+
+/**
+ * The executor with the given id: the local one for environments without an id,
+ * otherwise the configured remote target's. Resolves to undefined for targets that
+ * were removed from the settings.
+ */
+export function getCommandExecutor(id?: string): CommandExecutor | undefined {
+    if (!id || id === localCommandExecutor.id) {
+        return localCommandExecutor;
+    }
+    return readRemoteTargets().map(createCommandExecutor).find(executor => executor.id === id);
+}
+
+/**
+ * The interpreter of an environment on a target, whose platform decides the layout
+ */
+export function targetInterpreter(executor: CommandExecutor, envPath: string): string {
+    return executor.platform === 'win32'
+        ? path.win32.join(envPath, 'Scripts', 'python.exe')
+        : path.posix.join(envPath, 'bin', 'python');
+}
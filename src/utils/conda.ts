@@ -0,0 +1,149 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { DiscoveredEnvironment, environmentInterpreter } from './environmentDiscovery';
+import { normalizePackageName } from './dependencyGraph';
+import { findOnPath } from './interpreters';
+
+// Folder names of the usual conda distributions, in the home directory or at the system root
+const CONDA_DISTRIBUTIONS = ['miniconda3', 'anaconda3', 'miniforge3', 'mambaforge', 'micromamba', 'miniconda', 'anaconda'];
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.promises.access(filePath);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Whether a folder is a conda environment: conda keeps its package records in conda-meta
+ */
+export async function isCondaEnvironment(envPath: string): Promise<boolean> {
+    return exists(path.join(envPath, 'conda-meta'));
+}
+
+/**
+ * Folders where a conda distribution may be installed
+ */
+function condaInstallRoots(): string[] {
+    const home = os.homedir();
+    const roots = CONDA_DISTRIBUTIONS.map(name => path.join(home, name));
+    if (os.platform() === 'win32') {
+        const programData = process.env.ProgramData || 'C:\\ProgramData';
+        roots.push(...CONDA_DISTRIBUTIONS.map(name => path.join(programData, name)));
+    } else {
+        roots.push('/opt/conda', ...CONDA_DISTRIBUTIONS.map(name => path.join('/opt', name)));
+    }
+    if (process.env.MAMBA_ROOT_PREFIX) {
+        roots.unshift(process.env.MAMBA_ROOT_PREFIX);
+    }
+    return roots;
+}
+
+/**
+ * Find conda, or mamba in its place: the configured path, the executable of the
+ * activated distribution, PATH, then the usual install folders
+ */
+export async function findCondaExecutable(): Promise<string | undefined> {
+    const configured = vscode.workspace.getConfiguration('piping').get<string>('condaPath');
+    if (configured) {
+        return configured;
+    }
+
+    for (const candidate of [process.env.CONDA_EXE, process.env.MAMBA_EXE]) {
+        if (candidate && await exists(candidate)) {
+            return candidate;
+        }
+    }
+
+    const names = ['conda', 'mamba', 'micromamba'];
+    const onPath = await findOnPath(names);
+    if (onPath) {
+        return onPath;
+    }
+
+    const isWindows = os.platform() === 'win32';
+    for (const root of condaInstallRoots()) {
+        for (const name of names) {
+            const candidate = path.join(root, isWindows ? 'Scripts' : 'bin', isWindows ? `${name}.exe` : name);
+            if (await exists(candidate)) {
+                return candidate;
+            }
+        }
+    }
+
+    return undefined;
+}
+
+/**
+ * Conda environment folders recorded by conda itself, for when no conda executable can list them:
+ * ~/.conda/environments.txt, the install folders' base environments and their envs folders
+ */
+export async function readCondaEnvironmentPrefixes(): Promise<string[]> {
+    const prefixes: string[] = [];
+
+    try {
+        const registry = await fs.promises.readFile(path.join(os.homedir(), '.conda', 'environments.txt'), 'utf8');
+        prefixes.push(...registry.split(/\r?\n/).map(line => line.trim()).filter(line => line));
+    } catch (error) {
+        // Conda has not registered any environment for this user
+    }
+
+    for (const root of [...condaInstallRoots(), path.join(os.homedir(), '.conda')]) {
+        prefixes.push(root);
+        try {
+            const entries = await fs.promises.readdir(path.join(root, 'envs'), { withFileTypes: true });
+            prefixes.push(...entries.filter(entry => entry.isDirectory()).map(entry => path.join(root, 'envs', entry.name)));
+        } catch (error) {
+            // No environments in this folder
+        }
+    }
+
+    if (process.env.CONDA_PREFIX) {
+        prefixes.push(process.env.CONDA_PREFIX);
+    }
+
+    return Array.from(new Set(prefixes));
+}
+
+/**
+ * Turn conda environment folders into environments, skipping folders that are
+ * not conda environments or have no Python installed
+ */
+export async function condaEnvironments(prefixes: string[]): Promise<DiscoveredEnvironment[]> {
+    const found: DiscoveredEnvironment[] = [];
+
+    for (const prefix of prefixes) {
+        if (!await isCondaEnvironment(prefix) || !await exists(environmentInterpreter(prefix, 'conda'))) {
+            continue;
+        }
+        // Named environments live in an envs folder, the base environment is the installation itself
+        const name = path.basename(path.dirname(prefix)) === 'envs'
+            ? path.basename(prefix)
+            : await exists(path.join(prefix, 'condabin')) ? 'base' : path.basename(prefix);
+        found.push({ name, path: prefix, kind: 'conda' });
+    }
+
+    return found;
+}
+
+/**
+ * Normalized names of the packages conda installed into an environment. Packages pip
+ * installed have no record in conda-meta, whose files are named <name>-<version>-<build>.json.
+ */
+export async function readCondaPackageNames(envPath: string): Promise<Set<string>> {
+    const names = new Set<string>();
+    try {
+        for (const file of await fs.promises.readdir(path.join(envPath, 'conda-meta'))) {
+            if (file.endsWith('.json')) {
+                names.add(normalizePackageName(file.slice(0, -'.json'.length).split('-').slice(0, -2).join('-')));
+            }
+        }
+    } catch (error) {
+        // Not a conda environment
+    }
+    return names;
+}
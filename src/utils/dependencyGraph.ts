@@ -0,0 +1,121 @@
+import { PackageInfo } from './pythonExecutor';
+
+export interface DependencyNode {
+    id: string;
+    name: string;
+    version: string;
+    requires: string[];
+    requiredBy: string[];
+    missing?: boolean;
+}
+
+export interface DependencyEdge {
+    from: string;
+    to: string;
+}
+
+export interface DependencyGraph {
+    nodes: DependencyNode[];
+    edges: DependencyEdge[];
+}
+
+// Packaging tools are present in every environment and never listed or removed
+export const PACKAGING_TOOLS = ['pip', 'setuptools', 'wheel', 'distribute'];
+
+/**
+ * Normalize a distribution name as described in PEP 503
+ */
+export function normalizePackageName(name: string): string {
+    return name.trim().replace(/[-_.]+/g, '-').toLowerCase();
+}
+
+/**
+ * Build a dependency graph from packages that carry their Requires entries.
+ * Requirements that are not installed are kept as nodes flagged as missing.
+ */
+export function buildDependencyGraph(packages: PackageInfo[]): DependencyGraph {
+    const nodes = new Map<string, DependencyNode>();
+    const edges: DependencyEdge[] = [];
+
+    for (const pkg of packages) {
+        const id = normalizePackageName(pkg.name);
+        nodes.set(id, {
+            id,
+            name: pkg.name,
+            version: pkg.version,
+            requires: [],
+            requiredBy: []
+        });
+    }
+
+    for (const pkg of packages) {
+        const from = normalizePackageName(pkg.name);
+        const fromNode = nodes.get(from)!;
+
+        for (const requirement of pkg.requires || []) {
+            const to = normalizePackageName(requirement);
+            if (!to || to === from || fromNode.requires.includes(to)) {
+                continue;
+            }
+
+            let toNode = nodes.get(to);
+            if (!toNode) {
+                toNode = {
+                    id: to,
+                    name: requirement.trim(),
+                    version: '',
+                    requires: [],
+                    requiredBy: [],
+                    missing: true
+                };
+                nodes.set(to, toNode);
+            }
+
+            fromNode.requires.push(to);
+            toNode.requiredBy.push(from);
+            edges.push({ from, to });
+        }
+    }
+
+    return {
+        nodes: Array.from(nodes.values()).sort((a, b) => a.name.localeCompare(b.name)),
+        edges
+    };
+}
+
+/**
+ * Get the installed packages that directly require a package
+ */
+export function findDependents(graph: DependencyGraph, packageName: string): DependencyNode[] {
+    const node = graph.nodes.find(candidate => candidate.id === normalizePackageName(packageName));
+    if (!node) {
+        return [];
+    }
+    return graph.nodes.filter(candidate => node.requiredBy.includes(candidate.id));
+}
+
+/**
+ * Get the dependencies that nothing would need any more once the given packages
+ * are removed, following chains of dependencies that become unused in turn
+ */
+export function findOrphanedDependencies(graph: DependencyGraph, removedPackages: string[]): DependencyNode[] {
+    const gone = new Set(removedPackages.map(normalizePackageName));
+    const orphans: DependencyNode[] = [];
+
+    let changed = true;
+    while (changed) {
+        changed = false;
+        for (const node of graph.nodes) {
+            if (node.missing || gone.has(node.id) || PACKAGING_TOOLS.includes(node.id)) {
+                continue;
+            }
+            if (node.requiredBy.length && node.requiredBy.every(id => gone.has(id))) {
+                gone.add(node.id);
+                orphans.push(node);
+                changed = true;
+            }
+        }
+    }
+
+    return orphans.sort((a, b) => a.name.localeCompare(b.name));
+}
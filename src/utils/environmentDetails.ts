@@ -0,0 +1,195 @@
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+
+/**
+ * Facts about an environment that take a while to collect, so they are read on demand
+ */
+export interface EnvironmentDetails {
+    pythonVersion?: string;
+    implementation?: string;
+    baseInterpreter?: string;
+    sizeBytes?: number;
+    packageCount?: number;
+    // Whether the environment also sees the base interpreter's site-packages
+    systemSitePackages?: boolean;
+    createdAt?: number;
+}
+
+/**
+ * Read the key = value pairs of an environment's pyvenv.cfg, with lower-case keys.
+ * Resolves to undefined for environments without one, such as conda and pyenv installs.
+ */
+export async function readPyvenvConfig(envPath: string): Promise<{ [key: string]: string } | undefined> {
+    let content: string;
+    try {
+        content = await fs.promises.readFile(path.join(envPath, 'pyvenv.cfg'), 'utf8');
+    } catch (error) {
+        return undefined;
+    }
+
+    const config: { [key: string]: string } = {};
+    for (const line of content.split(/\r?\n/)) {
+        const separator = line.indexOf('=');
+        if (separator > 0) {
+            config[line.substring(0, separator).trim().toLowerCase()] = line.substring(separator + 1).trim();
+        }
+    }
+    return config;
+}
+
+/**
+ * The details a pyvenv.cfg records. venv writes version and, since Python 3.11, executable;
+ * virtualenv writes version_info and implementation.
+ */
+export function detailsFromPyvenvConfig(config: { [key: string]: string }): EnvironmentDetails {
+    const versionInfo = config['version_info']?.split('.').slice(0, 3).join('.');
+    return {
+        pythonVersion: config['version'] || versionInfo,
+        implementation: config['implementation'],
+        baseInterpreter: config['executable'] || config['base-executable'] || config['home'],
+        systemSitePackages: config['include-system-site-packages'] !== undefined
+            ? config['include-system-site-packages'].toLowerCase() === 'true'
+            : undefined
+    };
+}
+
+/**
+ * The interpreter a virtual environment was created from, to create another one
+ * like it. Before Python 3.11, pyvenv.cfg only records the interpreter's folder.
+ */
+export async function findBaseInterpreter(envPath: string): Promise<string | undefined> {
+    const config = await readPyvenvConfig(envPath);
+    if (!config) {
+        return undefined;
+    }
+    if (config['executable'] || config['base-executable']) {
+        return config['executable'] || config['base-executable'];
+    }
+    if (!config['home']) {
+        return undefined;
+    }
+
+    const version = detailsFromPyvenvConfig(config).pythonVersion?.split('.').slice(0, 2).join('.');
+    const names = os.platform() === 'win32'
+        ? ['python.exe']
+        : [...(version ? [`python${version}`] : []), 'python3', 'python'];
+    for (const name of names) {
+        try {
+            await fs.promises.access(path.join(config['home'], name));
+            return path.join(config['home'], name);
+        } catch (error) {
+            // Try the next name
+        }
+    }
+    return undefined;
+}
+
+/**
+ * The site-packages folders of an environment
+ */
+async function sitePackagesFolders(envPath: string): Promise<string[]> {
+    if (os.platform() === 'win32') {
+        return [path.join(envPath, 'Lib', 'site-packages')];
+    }
+
+    const folders: string[] = [];
+    for (const lib of ['lib', 'lib64']) {
+        try {
+            for (const entry of await fs.promises.readdir(path.join(envPath, lib))) {
+                if (entry.startsWith('python') || entry.startsWith('pypy')) {
+                    folders.push(path.join(envPath, lib, entry, 'site-packages'));
+                }
+            }
+        } catch (error) {
+            // No such folder
+        }
+    }
+    return folders;
+}
+
+/**
+ * Count the distributions installed in an environment from their metadata folders
+ */
+export async function countInstalledDistributions(envPath: string): Promise<number> {
+    const counted = new Set<string>();
+    let count = 0;
+    for (const folder of await sitePackagesFolders(envPath)) {
+        try {
+            // lib64 is often a symlink to lib, so the same folder may come up twice
+            const realFolder = await fs.promises.realpath(folder);
+            if (counted.has(realFolder)) {
+                continue;
+            }
+            counted.add(realFolder);
+            count += (await fs.promises.readdir(realFolder))
+                .filter(entry => entry.endsWith('.dist-info') || entry.endsWith('.egg-info'))
+                .length;
+        } catch (error) {
+            // No such folder
+        }
+    }
+    return count;
+}
+
+/**
+ * Total size of the files below a folder. Symbolic links are not followed.
+ */
+export async function directorySize(dirPath: string): Promise<number> {
+    let total = 0;
+    const pending = [dirPath];
+
+    while (pending.length) {
+        const current = pending.pop()!;
+        let entries: fs.Dirent[];
+        try {
+            entries = await fs.promises.readdir(current, { withFileTypes: true });
+        } catch (error) {
+            continue;
+        }
+        for (const entry of entries) {
+            const entryPath = path.join(current, entry.name);
+            if (entry.isDirectory()) {
+                pending.push(entryPath);
+            } else if (entry.isFile()) {
+                try {
+                    total += (await fs.promises.lstat(entryPath)).size;
+                } catch (error) {
+                    // Removed while we were counting
+                }
+            }
+        }
+    }
+
+    return total;
+}
+
+/**
+ * When an environment was created: the creation time of the file its tool writes first
+ */
+export async function environmentCreationTime(envPath: string): Promise<number | undefined> {
+    for (const candidate of [path.join(envPath, 'pyvenv.cfg'), path.join(envPath, 'conda-meta', 'history'), envPath]) {
+        try {
+            const stat = await fs.promises.stat(candidate);
+            // Some file systems don't record a birth time
+            return stat.birthtimeMs > 0 ? stat.birthtimeMs : stat.ctimeMs;
+        } catch (error) {
+            // Try the next file
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Format a size in bytes for display
+ */
+export function formatSize(bytes: number): string {
+    const units = ['B', 'KB', 'MB', 'GB'];
+    let size = bytes;
+    let unit = 0;
+    while (size >= 1024 && unit < units.length - 1) {
+        size /= 1024;
+        unit++;
+    }
+    return `${size.toFixed(unit ? 1 : 0)} ${units[unit]}`;
+}
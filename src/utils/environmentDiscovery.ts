@@ -0,0 +1,296 @@
+import * as vscode from 'vscode';
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+import { createCommandExecutor, readRemoteTargets } from './commandExecutors';
+
+/**
+ * The tool that created or manages an environment
+ */
+export type EnvironmentKind =
+    | 'venv'
+    | 'virtualenvwrapper'
+    | 'pyenv'
+    | 'pyenv-virtualenv'
+    | 'pipx'
+    | 'poetry'
+    | 'pipenv'
+    | 'conda'
+    | 'container'
+    | 'ssh';
+
+export const ENVIRONMENT_KIND_LABELS: { [kind in EnvironmentKind]: string } = {
+    'venv': 'venv',
+    'virtualenvwrapper': 'virtualenvwrapper',
+    'pyenv': 'pyenv',
+    'pyenv-virtualenv': 'pyenv-virtualenv',
+    'pipx': 'pipx',
+    'poetry': 'Poetry',
+    'pipenv': 'Pipenv',
+    'conda': 'conda',
+    'container': 'Container',
+    'ssh': 'SSH'
+};
+
+export interface DiscoveredEnvironment {
+    name: string;
+    path: string;
+    kind: EnvironmentKind;
+    // Id of the command executor of a remote target; local environments have none
+    target?: string;
+}
+
+/**
+ * Whether an environment is only a folder Piping may delete or rebuild. pyenv's
+ * versions are Python installations, pipx's environments belong to applications,
+ * conda's base environment is the conda installation itself, and remote
+ * environments belong to their container or host.
+ */
+export function isDisposableEnvironment(env: DiscoveredEnvironment): boolean {
+    return env.kind !== 'pyenv' && env.kind !== 'pipx' && !(env.kind === 'conda' && env.name === 'base') && !env.target;
+}
+
+// Folder names checked at the top of each workspace folder, for environments without a pyvenv.cfg
+const LEGACY_ENV_FOLDERS = ['.venv', 'venv', 'env', '.env', '.virtualenv', 'virtualenv'];
+
+// Nested environments in large workspaces are looked for up to this many
+const MAX_WORKSPACE_ENVIRONMENTS = 200;
+
+/**
+ * Path of the interpreter inside an environment. Conda keeps it at the top of the environment on Windows.
+ */
+export function environmentInterpreter(envPath: string, kind?: EnvironmentKind): string {
+    if (os.platform() === 'win32') {
+        return kind === 'conda' ? path.join(envPath, 'python.exe') : path.join(envPath, 'Scripts', 'python.exe');
+    }
+    return path.join(envPath, 'bin', 'python');
+}
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.promises.access(filePath);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Whether a folder is a Python environment: it has an interpreter where a venv keeps it
+ */
+async function isEnvironment(dirPath: string): Promise<boolean> {
+    return exists(environmentInterpreter(dirPath));
+}
+
+async function listDirectories(dirPath: string): Promise<string[]> {
+    try {
+        const entries = await fs.promises.readdir(dirPath, { withFileTypes: true });
+        return entries
+            .filter(entry => entry.isDirectory() || entry.isSymbolicLink())
+            .map(entry => path.join(dirPath, entry.name));
+    } catch (error) {
+        return [];
+    }
+}
+
+/**
+ * The environments directly inside a folder
+ */
+async function environmentsIn(dirPath: string, kind: EnvironmentKind): Promise<DiscoveredEnvironment[]> {
+    const found: DiscoveredEnvironment[] = [];
+    for (const child of await listDirectories(dirPath)) {
+        if (await isEnvironment(child)) {
+            found.push({ name: path.basename(child), path: child, kind });
+        }
+    }
+    return found;
+}
+
+/**
+ * Environments inside the workspace, or inside one of its folders: every folder with a
+ * pyvenv.cfg, however deeply nested, plus the conventional folder names for environments without one
+ */
+async function findWorkspaceEnvironments(only?: vscode.WorkspaceFolder): Promise<DiscoveredEnvironment[]> {
+    const found: DiscoveredEnvironment[] = [];
+
+    const add = async (folder: vscode.WorkspaceFolder, envPath: string) => {
+        if (await exists(path.join(envPath, 'conda-meta'))) {
+            if (await exists(environmentInterpreter(envPath, 'conda'))) {
+                found.push({ name: path.relative(folder.uri.fsPath, envPath) || folder.name, path: envPath, kind: 'conda' });
+            }
+            return;
+        }
+        if (!await isEnvironment(envPath)) {
+            return;
+        }
+        const projectDir = path.dirname(envPath);
+        // Pipenv puts the environment in the project with PIPENV_VENV_IN_PROJECT, Poetry with virtualenvs.in-project
+        const kind: EnvironmentKind = await exists(path.join(projectDir, 'Pipfile'))
+            ? 'pipenv'
+            : await exists(path.join(projectDir, 'poetry.lock')) ? 'poetry' : 'venv';
+        found.push({ name: path.relative(folder.uri.fsPath, envPath) || folder.name, path: envPath, kind });
+    };
+
+    const configs = await vscode.workspace.findFiles(
+        only ? new vscode.RelativePattern(only, '**/pyvenv.cfg') : '**/pyvenv.cfg',
+        '**/node_modules/**',
+        MAX_WORKSPACE_ENVIRONMENTS
+    );
+    for (const config of configs) {
+        const folder = vscode.workspace.getWorkspaceFolder(config);
+        if (folder) {
+            await add(folder, path.dirname(config.fsPath));
+        }
+    }
+
+    for (const folder of only ? [only] : vscode.workspace.workspaceFolders || []) {
+        for (const envName of LEGACY_ENV_FOLDERS) {
+            await add(folder, path.join(folder.uri.fsPath, envName));
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Environments of pyenv: installed Python versions and pyenv-virtualenv environments
+ */
+async function findPyenvEnvironments(): Promise<DiscoveredEnvironment[]> {
+    const root = process.env.PYENV_ROOT || path.join(os.homedir(), '.pyenv');
+    const found: DiscoveredEnvironment[] = [];
+
+    for (const version of await listDirectories(path.join(root, 'versions'))) {
+        if (await isEnvironment(version)) {
+            const kind = await exists(path.join(version, 'pyvenv.cfg')) ? 'pyenv-virtualenv' : 'pyenv';
+            found.push({ name: path.basename(version), path: version, kind });
+        }
+        // pyenv-virtualenv keeps its environments below the version they were made from
+        for (const env of await environmentsIn(path.join(version, 'envs'), 'pyenv-virtualenv')) {
+            found.push({ ...env, name: `${path.basename(version)}/${env.name}` });
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Folders where Poetry keeps the environments it creates outside projects
+ */
+function poetryEnvironmentRoots(): string[] {
+    if (process.env.POETRY_VIRTUALENVS_PATH) {
+        return [process.env.POETRY_VIRTUALENVS_PATH];
+    }
+    if (process.env.POETRY_CACHE_DIR) {
+        return [path.join(process.env.POETRY_CACHE_DIR, 'virtualenvs')];
+    }
+
+    const home = os.homedir();
+    switch (os.platform()) {
+        case 'win32':
+            return [path.join(process.env.LOCALAPPDATA || path.join(home, 'AppData', 'Local'), 'pypoetry', 'Cache', 'virtualenvs')];
+        case 'darwin':
+            return [path.join(home, 'Library', 'Caches', 'pypoetry', 'virtualenvs')];
+        default:
+            return [path.join(process.env.XDG_CACHE_HOME || path.join(home, '.cache'), 'pypoetry', 'virtualenvs')];
+    }
+}
+
+/**
+ * Folders of environment managers that keep all their environments in one place
+ */
+function managedEnvironmentRoots(): Array<{ root: string, kind: EnvironmentKind }> {
+    const home = os.homedir();
+    const dataHome = process.env.XDG_DATA_HOME || path.join(home, '.local', 'share');
+
+    return [
+        { root: process.env.WORKON_HOME || path.join(home, '.virtualenvs'), kind: 'virtualenvwrapper' },
+        ...(process.env.PIPX_HOME
+            ? [{ root: path.join(process.env.PIPX_HOME, 'venvs'), kind: 'pipx' as EnvironmentKind }]
+            : [
+                { root: path.join(home, '.local', 'pipx', 'venvs'), kind: 'pipx' as EnvironmentKind },
+                { root: path.join(dataHome, 'pipx', 'venvs'), kind: 'pipx' as EnvironmentKind },
+                { root: path.join(home, 'pipx', 'venvs'), kind: 'pipx' as EnvironmentKind }
+            ]),
+        ...poetryEnvironmentRoots().map(root => ({ root, kind: 'poetry' as EnvironmentKind })),
+        { root: path.join(dataHome, 'virtualenvs'), kind: 'pipenv' }
+    ];
+}
+
+/**
+ * Environments in the folders the user configured, up to two levels deep
+ */
+async function findConfiguredEnvironments(): Promise<DiscoveredEnvironment[]> {
+    const roots = vscode.workspace.getConfiguration('piping').get<string[]>('environmentSearchPaths', []);
+    const found: DiscoveredEnvironment[] = [];
+
+    for (const configured of roots) {
+        const root = configured.startsWith('~') ? path.join(os.homedir(), configured.substring(1)) : configured;
+        if (await isEnvironment(root)) {
+            found.push({ name: path.basename(root), path: root, kind: 'venv' });
+            continue;
+        }
+        for (const child of await listDirectories(root)) {
+            if (await isEnvironment(child)) {
+                found.push({ name: path.basename(child), path: child, kind: 'venv' });
+            } else {
+                found.push(...await environmentsIn(child, 'venv'));
+            }
+        }
+    }
+
+    return found;
+}
+
+/**
+ * Environments listed for the remote targets in piping.remoteTargets. They are not checked,
+ * since that would mean reaching every container and host whenever the list is shown.
+ */
+function findRemoteEnvironments(): DiscoveredEnvironment[] {
+    return readRemoteTargets().flatMap(target => {
+        const executor = createCommandExecutor(target);
+        return (target.environments || []).map(envPath => ({
+            name: `${path.posix.basename(envPath)} (${target.name})`,
+            path: envPath,
+            kind: target.type === 'ssh' ? 'ssh' as const : 'container' as const,
+            target: executor.id
+        }));
+    });
+}
+
+/**
+ * Find the Python environments of the workspace, of the common environment
+ * managers and of the configured search paths, plus environments found by other
+ * means such as conda's own list. Environments reachable through several paths
+ * (e.g. pyenv's symlinks) are listed once. Given a folder, only its own workspace
+ * environments are included.
+ */
+export async function discoverEnvironments(additional: DiscoveredEnvironment[] = [], folder?: vscode.WorkspaceFolder): Promise<DiscoveredEnvironment[]> {
+    const groups = await Promise.all([
+        findWorkspaceEnvironments(folder),
+        Promise.resolve(additional),
+        findConfiguredEnvironments(),
+        findPyenvEnvironments(),
+        ...managedEnvironmentRoots().map(({ root, kind }) => environmentsIn(root, kind)),
+        Promise.resolve(findRemoteEnvironments())
+    ]);
+
+    const seen = new Set<string>();
+    const environments: DiscoveredEnvironment[] = [];
+
+    for (const env of groups.flat()) {
+        let key = env.target ? `${env.target}:${env.path}` : env.path;
+        try {
+            if (!env.target) {
+                key = await fs.promises.realpath(env.path);
+            }
+        } catch (error) {
+            // Keep the path as it is
+        }
+        if (!seen.has(key)) {
+            seen.add(key);
+            environments.push(env);
+        }
+    }
+
+    return environments;
+}
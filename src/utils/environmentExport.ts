@@ -0,0 +1,157 @@
+import { EnvironmentInfo, PackageInfo } from './pythonExecutor';
+import { PackageIndex } from './packageIndex';
+import { normalizePackageName } from './dependencyGraph';
+import { normalizeVersion } from './pep440';
+
+export interface FrozenPackage {
+    name: string;
+    version: string;
+    installer?: string;
+    requires?: string[];
+    directUrl?: PackageInfo['directUrl'];
+    hashes?: string[];
+}
+
+/**
+ * JSON manifest written by "Freeze Environment" and read back by "Restore Environment"
+ */
+export interface EnvironmentManifest {
+    generatedBy: 'piping';
+    version: 1;
+    createdAt: string;
+    environment?: {
+        name: string;
+        path: string;
+        pythonVersion?: string;
+        platform?: string;
+    };
+    packages: FrozenPackage[];
+}
+
+// pip freeze leaves the packaging tools out by default as well
+export const FREEZE_EXCLUDED_BY_DEFAULT = ['pip', 'setuptools', 'wheel', 'distribute'];
+
+/**
+ * Look up the sha256 hashes of the installed versions' distribution files.
+ * Packages installed from an archive use the hash pip recorded in direct_url.json.
+ */
+export async function collectHashes(
+    packageIndex: PackageIndex,
+    packages: PackageInfo[],
+    onProgress?: (done: number, total: number) => void
+): Promise<Map<string, string[]>> {
+    const hashes = new Map<string, string[]>();
+    const queue = [...packages];
+    let done = 0;
+
+    const worker = async () => {
+        for (let pkg = queue.shift(); pkg; pkg = queue.shift()) {
+            const archiveHashes = pkg.directUrl?.hashes;
+            if (archiveHashes) {
+                hashes.set(pkg.name, Object.entries(archiveHashes).map(([algorithm, value]) => `${algorithm}:${value}`));
+            } else if (!pkg.directUrl) {
+                try {
+                    const project = await packageIndex.getProject(pkg.name);
+                    const version = normalizeVersion(pkg.version);
+                    const fileHashes = project.files
+                        .filter(file => normalizeVersion(file.version) === version && file.hashes.sha256)
+                        .map(file => `sha256:${file.hashes.sha256}`);
+                    if (fileHashes.length) {
+                        hashes.set(pkg.name, Array.from(new Set(fileHashes)).sort());
+                    }
+                } catch (error) {
+                    // Packages that are not on the index are written without hashes
+                }
+            }
+            onProgress?.(++done, packages.length);
+        }
+    };
+
+    // A handful of parallel requests keeps large environments reasonably fast
+    await Promise.all(Array.from({ length: Math.min(8, packages.length) }, worker));
+    return hashes;
+}
+
+/**
+ * Format the pinned requirement line for a package, following the conventions of pip freeze
+ */
+function formatPin(pkg: FrozenPackage): string {
+    const directUrl = pkg.directUrl;
+    if (directUrl?.editable) {
+        return `-e ${directUrl.url}`;
+    }
+    if (directUrl?.vcs) {
+        const commit = directUrl.commitId ? `@${directUrl.commitId}` : '';
+        return `${pkg.name} @ ${directUrl.vcs}+${directUrl.url}${commit}`;
+    }
+    if (directUrl) {
+        return `${pkg.name} @ ${directUrl.url}`;
+    }
+    return `${pkg.name}==${pkg.version}`;
+}
+
+/**
+ * Format packages as a pinned requirements.txt, optionally with --hash lines
+ */
+export function formatRequirementsLock(packages: FrozenPackage[], withHashes: boolean, header: string[] = []): string {
+    const lines = header.map(line => `# ${line}`);
+    const sorted = [...packages].sort((a, b) => normalizePackageName(a.name).localeCompare(normalizePackageName(b.name)));
+
+    for (const pkg of sorted) {
+        const pin = formatPin(pkg);
+        if (!withHashes || pin.startsWith('-e ')) {
+            lines.push(pin);
+            continue;
+        }
+
+        if (!pkg.hashes?.length) {
+            lines.push(`# WARNING: no hashes found for ${pkg.name}; pip refuses to install it in hash-checking mode`);
+            lines.push(pin);
+            continue;
+        }
+
+        lines.push(`${pin} \\`);
+        pkg.hashes.forEach((hash, index) => {
+            lines.push(`    --hash=${hash}${index < pkg.hashes!.length - 1 ? ' \\' : ''}`);
+        });
+    }
+
+    return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Format packages as a JSON manifest
+ */
+export function formatJsonManifest(
+    packages: FrozenPackage[],
+    environment?: EnvironmentInfo,
+    interpreter?: { pythonVersion?: string, platform?: string }
+): string {
+    const manifest: EnvironmentManifest = {
+        generatedBy: 'piping',
+        version: 1,
+        createdAt: new Date().toISOString(),
+        environment: environment ? {
+            name: environment.name,
+            path: environment.path,
+            ...interpreter
+        } : undefined,
+        packages: [...packages].sort((a, b) => normalizePackageName(a.name).localeCompare(normalizePackageName(b.name)))
+    };
+
+    return `${JSON.stringify(manifest, null, 2)}\n`;
+}
+
+/**
+ * Reduce installed package info to what is written to a lock file
+ */
+export function toFrozenPackage(pkg: PackageInfo, hashes?: string[]): FrozenPackage {
+    return {
+        name: pkg.name,
+        version: pkg.version,
+        installer: pkg.installer || undefined,
+        requires: pkg.requires?.length ? pkg.requires : undefined,
+        directUrl: pkg.directUrl || undefined,
+        hashes: hashes?.length ? hashes : undefined
+    };
+}
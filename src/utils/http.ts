@@ -0,0 +1,73 @@
+import * as http from 'http';
+import * as https from 'https';
+
+export interface HttpResponse {
+    statusCode: number;
+    contentType: string;
+    body: string;
+}
+
+export interface HttpRequestOptions {
+    method?: string;
+    headers?: { [name: string]: string };
+    body?: string;
+    timeoutMs?: number;
+}
+
+const MAX_REDIRECTS = 5;
+
+/**
+ * Perform an HTTP(S) request with the extension host's network stack,
+ * following redirects and rejecting on non-2xx responses
+ */
+export function httpRequest(url: string, options: HttpRequestOptions = {}, redirects = 0): Promise<HttpResponse> {
+    return new Promise((resolve, reject) => {
+        const target = new URL(url);
+        const client = target.protocol === 'http:' ? http : https;
+
+        const request = client.request(target, {
+            method: options.method || 'GET',
+            headers: options.headers,
+            timeout: options.timeoutMs ?? 30000
+        }, (response) => {
+            const statusCode = response.statusCode || 0;
+
+            if (statusCode >= 300 && statusCode < 400 && response.headers.location) {
+                response.resume();
+                if (redirects >= MAX_REDIRECTS) {
+                    reject(new Error(`Too many redirects for ${url}`));
+                    return;
+                }
+                const location = new URL(response.headers.location, target).toString();
+                httpRequest(location, options, redirects + 1).then(resolve, reject);
+                return;
+            }
+
+            const chunks: Buffer[] = [];
+            response.on('data', (chunk: Buffer) => chunks.push(chunk));
+            response.on('error', reject);
+            response.on('end', () => {
+                const body = Buffer.concat(chunks).toString('utf8');
+                if (statusCode < 200 || statusCode >= 300) {
+                    reject(new Error(`Request to ${url} failed with status ${statusCode}`));
+                    return;
+                }
+                resolve({
+                    statusCode,
+                    contentType: String(response.headers['content-type'] || ''),
+                    body
+                });
+            });
+        });
+
+        request.on('timeout', () => {
+            request.destroy(new Error(`Request to ${url} timed out`));
+        });
+        request.on('error', reject);
+
+        if (options.body !== undefined) {
+            request.write(options.body);
+        }
+        request.end();
+    });
+}
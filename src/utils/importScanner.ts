@@ -0,0 +1,275 @@
+import { PackageInfo } from './pythonExecutor';
+import { PACKAGING_TOOLS, normalizePackageName } from './dependencyGraph';
+
+/**
+ * A top-level module named by an import statement
+ */
+export interface ImportReference {
+    module: string;
+    line: number;
+    start: number;
+    end: number;
+    // Imports inside a try block usually have a fallback when the module is missing
+    optional?: boolean;
+    // Index of the notebook cell the import is in
+    cell?: number;
+}
+
+/**
+ * Which distributions provide each top-level module, and the standard library's modules
+ */
+export interface ModuleMap {
+    modules: { [module: string]: string[] };
+    stdlib: string[];
+}
+
+export interface MissingImport {
+    module: string;
+    distribution: string;
+    references: Array<ImportReference & { file: string }>;
+}
+
+export interface ImportReport {
+    missing: MissingImport[];
+    unused: PackageInfo[];
+    scannedFiles: number;
+}
+
+/**
+ * Modules whose distribution is named differently, for modules that are not installed yet
+ */
+export const KNOWN_IMPORT_ALIASES: { [module: string]: string } = {
+    attr: 'attrs',
+    bs4: 'beautifulsoup4',
+    Crypto: 'pycryptodome',
+    cv2: 'opencv-python',
+    dateutil: 'python-dateutil',
+    docx: 'python-docx',
+    dotenv: 'python-dotenv',
+    fitz: 'PyMuPDF',
+    gi: 'PyGObject',
+    git: 'GitPython',
+    jose: 'python-jose',
+    jwt: 'PyJWT',
+    Levenshtein: 'python-Levenshtein',
+    magic: 'python-magic',
+    multipart: 'python-multipart',
+    MySQLdb: 'mysqlclient',
+    OpenSSL: 'pyOpenSSL',
+    PIL: 'Pillow',
+    pptx: 'python-pptx',
+    serial: 'pyserial',
+    skimage: 'scikit-image',
+    sklearn: 'scikit-learn',
+    slugify: 'python-slugify',
+    telegram: 'python-telegram-bot',
+    usb: 'pyusb',
+    win32api: 'pywin32',
+    win32con: 'pywin32',
+    yaml: 'PyYAML',
+    zmq: 'pyzmq'
+};
+
+/**
+ * The distribution to install for a module that is not installed
+ */
+export function distributionForModule(module: string): string {
+    return KNOWN_IMPORT_ALIASES[module] || module;
+}
+
+/**
+ * Blank out strings and comments, keeping columns intact, so that only code is left
+ */
+function stripStringsAndComments(lines: string[]): string[] {
+    let openTriple: string | undefined;
+
+    return lines.map(line => {
+        let code = '';
+        let i = 0;
+
+        while (i < line.length) {
+            if (openTriple) {
+                const close = line.indexOf(openTriple, i);
+                const end = close < 0 ? line.length : close + 3;
+                code += ' '.repeat(end - i);
+                i = end;
+                if (close >= 0) {
+                    openTriple = undefined;
+                }
+                continue;
+            }
+
+            const char = line[i];
+            if (char === '#') {
+                break;
+            }
+            if (char === '"' || char === '\'') {
+                if (line.startsWith(char.repeat(3), i)) {
+                    openTriple = char.repeat(3);
+                    code += '   ';
+                    i += 3;
+                    continue;
+                }
+
+                let j = i + 1;
+                while (j < line.length && line[j] !== char) {
+                    j += line[j] === '\\' ? 2 : 1;
+                }
+                const end = Math.min(j + 1, line.length);
+                code += ' '.repeat(end - i);
+                i = end;
+                continue;
+            }
+
+            code += char;
+            i++;
+        }
+
+        return code;
+    });
+}
+
+const IMPORT_NAME = /([A-Za-z_]\w*)(?:\s*\.\s*[A-Za-z_]\w*)*(?:\s+as\s+[A-Za-z_]\w*)?/g;
+
+/**
+ * Find the top-level modules imported by Python source. Relative imports are skipped.
+ */
+export function parsePythonImports(source: string): ImportReference[] {
+    const references: ImportReference[] = [];
+    const lines = stripStringsAndComments(source.split(/\r?\n/));
+    const blocks: Array<{ indent: number, isTry: boolean }> = [];
+    let depth = 0;
+
+    lines.forEach((code, line) => {
+        const continued = depth > 0;
+        for (const char of code) {
+            if ('([{'.includes(char)) {
+                depth++;
+            } else if (')]}'.includes(char) && depth > 0) {
+                depth--;
+            }
+        }
+        if (continued || !code.trim()) {
+            return;
+        }
+
+        const indent = code.length - code.trimStart().length;
+        while (blocks.length && blocks[blocks.length - 1].indent >= indent) {
+            blocks.pop();
+        }
+        const optional = blocks.some(block => block.isTry);
+
+        let offset = 0;
+        for (const statement of code.split(';')) {
+            const start = offset + statement.length - statement.trimStart().length;
+            const text = statement.trim();
+            offset += statement.length + 1;
+
+            const fromMatch = /^from\s+([A-Za-z_]\w*)/.exec(text);
+            if (fromMatch) {
+                const column = start + text.indexOf(fromMatch[1], 4);
+                references.push({ module: fromMatch[1], line, start: column, end: column + fromMatch[1].length, optional });
+                continue;
+            }
+
+            const importMatch = /^import\s+/.exec(text);
+            if (importMatch) {
+                const names = text.substring(importMatch[0].length);
+                for (const name of names.matchAll(IMPORT_NAME)) {
+                    const column = start + importMatch[0].length + name.index!;
+                    references.push({ module: name[1], line, start: column, end: column + name[1].length, optional });
+                }
+            }
+        }
+
+        if (code.trimEnd().endsWith(':')) {
+            blocks.push({ indent, isTry: /^try\s*:/.test(code.trim()) });
+        }
+    });
+
+    return references;
+}
+
+/**
+ * Find the imports of a Jupyter notebook's code cells. Lines with IPython magics
+ * and shell escapes are ignored.
+ */
+export function parseNotebookImports(content: string): ImportReference[] {
+    const notebook = JSON.parse(content) as { cells?: Array<{ cell_type: string, source: string | string[] }> };
+    const references: ImportReference[] = [];
+
+    (notebook.cells || []).forEach((cell, index) => {
+        if (cell.cell_type !== 'code') {
+            return;
+        }
+        const source = (Array.isArray(cell.source) ? cell.source.join('') : cell.source)
+            .split('\n')
+            .map(line => /^\s*[%!]/.test(line) ? '' : line)
+            .join('\n');
+        parsePythonImports(source).forEach(reference => references.push({ ...reference, cell: index }));
+    });
+
+    return references;
+}
+
+/**
+ * Compare the imports found in the workspace with the installed distributions.
+ * Modules of the workspace itself are neither missing nor counted as installed.
+ */
+export function analyzeImports(
+    imports: Map<string, ImportReference[]>,
+    moduleMap: ModuleMap,
+    installed: PackageInfo[],
+    localModules: Set<string>
+): ImportReport {
+    const stdlib = new Set(moduleMap.stdlib);
+    const installedByName = new Map(installed.map(pkg => [normalizePackageName(pkg.name), pkg]));
+    const missing = new Map<string, MissingImport>();
+    const importedDistributions = new Set<string>();
+
+    for (const [file, references] of imports) {
+        for (const reference of references) {
+            const module = reference.module;
+            if (stdlib.has(module) || module === '__future__' || localModules.has(module)) {
+                continue;
+            }
+
+            const providers = moduleMap.modules[module]
+                || [distributionForModule(module)].filter(name => installedByName.has(normalizePackageName(name)));
+            if (providers.length) {
+                providers.forEach(name => importedDistributions.add(normalizePackageName(name)));
+                continue;
+            }
+            if (reference.optional) {
+                continue;
+            }
+
+            let entry = missing.get(module);
+            if (!entry) {
+                entry = { module, distribution: distributionForModule(module), references: [] };
+                missing.set(module, entry);
+            }
+            entry.references.push({ ...reference, file });
+        }
+    }
+
+    // Dependencies of imported distributions are used even though nothing imports them directly
+    const used = new Set<string>();
+    const stack = Array.from(importedDistributions);
+    while (stack.length) {
+        const key = stack.pop()!;
+        if (used.has(key)) {
+            continue;
+        }
+        used.add(key);
+        (installedByName.get(key)?.requires || []).forEach(name => stack.push(normalizePackageName(name)));
+    }
+
+    return {
+        missing: Array.from(missing.values()).sort((a, b) => a.module.localeCompare(b.module)),
+        unused: installed
+            .filter(pkg => !used.has(normalizePackageName(pkg.name)) && !PACKAGING_TOOLS.includes(normalizePackageName(pkg.name)))
+            .sort((a, b) => a.name.localeCompare(b.name)),
+        scannedFiles: imports.size
+    };
+}
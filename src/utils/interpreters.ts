@@ -0,0 +1,111 @@
+import * as path from 'path';
+import * as os from 'os';
+import * as fs from 'fs';
+
+/**
+ * An installed Python interpreter that environments can be created from
+ */
+export interface InterpreterInfo {
+    path: string;
+    version: string;
+    implementation: string;
+}
+
+// python, python3, python3.12, pypy3 and their .exe forms
+const INTERPRETER_NAME = /^(python|pypy)(\d+(\.\d+)?)?(\.exe)?$/i;
+
+async function exists(filePath: string): Promise<boolean> {
+    try {
+        await fs.promises.access(filePath);
+        return true;
+    } catch (error) {
+        return false;
+    }
+}
+
+async function listDirectory(dirPath: string): Promise<string[]> {
+    try {
+        return await fs.promises.readdir(dirPath);
+    } catch (error) {
+        return [];
+    }
+}
+
+/**
+ * Find the first of the given executables on PATH
+ */
+export async function findOnPath(names: string[]): Promise<string | undefined> {
+    const pathDirs = (process.env.PATH || '').split(path.delimiter).filter(dir => dir);
+    const extensions = os.platform() === 'win32' ? ['.exe', ''] : [''];
+
+    for (const name of names) {
+        for (const dir of pathDirs) {
+            for (const extension of extensions) {
+                const candidate = path.join(dir, name + extension);
+                if (await exists(candidate)) {
+                    return candidate;
+                }
+            }
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Whether an interpreter belongs to a virtual environment, e.g. an activated one on PATH
+ */
+async function isInVirtualEnvironment(interpreter: string): Promise<boolean> {
+    const binDir = path.dirname(interpreter);
+    return await exists(path.join(binDir, 'pyvenv.cfg')) || await exists(path.join(path.dirname(binDir), 'pyvenv.cfg'));
+}
+
+/**
+ * Paths of the interpreters on PATH and those pyenv installed. Virtual environments'
+ * interpreters are left out, and interpreters reachable through several links are listed once.
+ */
+export async function findInterpreterCandidates(): Promise<string[]> {
+    const candidates: string[] = [];
+
+    for (const dir of (process.env.PATH || '').split(path.delimiter).filter(dir => dir)) {
+        for (const entry of await listDirectory(dir)) {
+            if (INTERPRETER_NAME.test(entry)) {
+                candidates.push(path.join(dir, entry));
+            }
+        }
+    }
+
+    // pyenv-win keeps the interpreter at the top of each version
+    const pyenvRoot = process.env.PYENV_ROOT || path.join(os.homedir(), '.pyenv');
+    const versionsDir = os.platform() === 'win32' ? path.join(pyenvRoot, 'pyenv-win', 'versions') : path.join(pyenvRoot, 'versions');
+    for (const version of await listDirectory(versionsDir)) {
+        candidates.push(os.platform() === 'win32'
+            ? path.join(versionsDir, version, 'python.exe')
+            : path.join(versionsDir, version, 'bin', 'python'));
+    }
+
+    const seen = new Set<string>();
+    const found: string[] = [];
+    for (const candidate of candidates) {
+        let key: string;
+        try {
+            key = await fs.promises.realpath(candidate);
+        } catch (error) {
+            continue;
+        }
+        if (!seen.has(key) && !await isInVirtualEnvironment(candidate)) {
+            seen.add(key);
+            found.push(candidate);
+        }
+    }
+    return found;
+}
+
+/**
+ * Interpreter paths listed by the Windows py launcher's `py -0p`
+ */
+export function parsePyLauncherList(output: string): string[] {
+    return output
+        .split(/\r?\n/)
+        .map(line => /([A-Za-z]:\\.*\.exe)\s*$/i.exec(line)?.[1])
+        .filter((interpreter): interpreter is string => !!interpreter);
+}
@@ -0,0 +1,366 @@
+import * as vscode from 'vscode';
+import { LicenseMetadata, PackageInfo } from './pythonExecutor';
+
+/**
+ * Where a package's license was read from, in the order it is looked for
+ */
+export type LicenseSource = 'expression' | 'license' | 'classifier' | 'unknown';
+
+export interface NormalizedLicense {
+    // An SPDX license expression, when the metadata could be mapped to one
+    spdx?: string;
+    // What the metadata says, for licenses that have no SPDX form
+    text: string;
+    source: LicenseSource;
+}
+
+/**
+ * Licenses a workspace allows and denies, read from its policy file.
+ * Entries are SPDX identifiers, where * matches any text, e.g. "GPL-*".
+ */
+export interface LicensePolicy {
+    file: string;
+    allow: string[];
+    deny: string[];
+}
+
+/**
+ * How a package's license fares against the policy. Without an allow list every
+ * license that is not denied is allowed.
+ */
+export type LicenseStatus = 'allowed' | 'denied' | 'not-allowed' | 'unknown' | 'no-policy';
+
+export const LICENSE_STATUS_LABELS: { [status in LicenseStatus]: string } = {
+    allowed: 'Allowed',
+    denied: 'Denied',
+    'not-allowed': 'Not in allow list',
+    unknown: 'Unknown license',
+    'no-policy': ''
+};
+
+export interface LicenseInventoryEntry {
+    name: string;
+    version: string;
+    // The SPDX expression, or the metadata's own text when there is none
+    license: string;
+    spdx: boolean;
+    source: LicenseSource;
+    status: LicenseStatus;
+}
+
+export const DEFAULT_LICENSE_POLICY_FILE = 'piping-license-policy.json';
+
+export class LicensePolicyError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'LicensePolicyError';
+    }
+}
+
+/**
+ * Spellings of licenses in License fields and classifiers, after simplifyLicenseName, by SPDX identifier
+ */
+const LICENSE_ALIASES: { [spdx: string]: string[] } = {
+    'MIT': ['mit', 'mit/expat', 'expat'],
+    'MIT-0': ['mit-0', 'mit no attribution'],
+    'Apache-2.0': ['apache 2.0', 'apache 2', 'apache-2', 'apache software', 'apache software 2.0', 'asl 2.0', 'al 2.0'],
+    'BSD-3-Clause': ['bsd 3-clause', '3-clause bsd', 'new bsd', 'modified bsd', 'bsd-3', 'bsd 3 clause'],
+    'BSD-2-Clause': ['bsd 2-clause', '2-clause bsd', 'simplified bsd', 'freebsd', 'bsd-2', 'bsd 2 clause'],
+    'BSD-4-Clause': ['bsd 4-clause', 'original bsd'],
+    '0BSD': ['0bsd', 'zero-clause bsd'],
+    'ISC': ['isc', 'isc iscl', 'iscl'],
+    'PSF-2.0': ['psf', 'psfl', 'psf 2.0', 'python software foundation'],
+    'MPL-2.0': ['mpl 2.0', 'mpl2', 'mozilla public 2.0', 'mozilla public 2.0 mpl 2.0'],
+    'MPL-1.1': ['mpl 1.1', 'mozilla public 1.1', 'mozilla public 1.1 mpl 1.1'],
+    'GPL-2.0-only': ['gplv2', 'gpl v2', 'gpl 2', 'gnu general public v2 gplv2'],
+    'GPL-2.0-or-later': ['gplv2+', 'gnu general public v2 or later gplv2+'],
+    'GPL-3.0-only': ['gplv3', 'gpl v3', 'gpl 3', 'gnu general public v3 gplv3'],
+    'GPL-3.0-or-later': ['gplv3+', 'gnu general public v3 or later gplv3+'],
+    'LGPL-2.0-only': ['lgplv2', 'gnu lesser general public v2 lgplv2'],
+    'LGPL-2.0-or-later': ['lgplv2+', 'gnu lesser general public v2 or later lgplv2+'],
+    'LGPL-2.1-only': ['lgplv2.1', 'lgpl 2.1'],
+    'LGPL-2.1-or-later': ['lgplv2.1+'],
+    'LGPL-3.0-only': ['lgplv3', 'lgpl 3', 'gnu lesser general public v3 lgplv3'],
+    'LGPL-3.0-or-later': ['lgplv3+', 'gnu lesser general public v3 or later lgplv3+'],
+    'AGPL-3.0-only': ['agplv3', 'gnu affero general public v3'],
+    'AGPL-3.0-or-later': ['agplv3+', 'gnu affero general public v3 or later agplv3+'],
+    'EPL-2.0': ['epl 2.0', 'eclipse public 2.0', 'eclipse public 2.0 epl-2.0'],
+    'EPL-1.0': ['epl 1.0', 'eclipse public 1.0', 'eclipse public 1.0 epl-1.0'],
+    'Unlicense': ['unlicense', 'unlicense unlicense'],
+    'CC0-1.0': ['cc0', 'cc0 1.0', 'cc0 1.0 universal cc0 1.0 public domain dedication'],
+    'Zlib': ['zlib', 'zlib/libpng'],
+    'BSL-1.0': ['boost', 'boost software 1.0', 'boost software 1.0 bsl-1.0'],
+    'HPND': ['hpnd', 'historical permission notice and disclaimer hpnd'],
+    'Artistic-2.0': ['artistic 2.0', 'artistic'],
+    'CDDL-1.0': ['cddl', 'common development and distribution 1.0 cddl-1.0'],
+    'WTFPL': ['wtfpl']
+};
+
+const ALIAS_LOOKUP = new Map<string, string>(
+    Object.entries(LICENSE_ALIASES).flatMap(([spdx, aliases]) => [spdx.toLowerCase(), ...aliases].map(alias => [alias, spdx] as [string, string]))
+);
+
+const EXPRESSION_OPERATORS = new Set(['AND', 'OR', 'WITH']);
+
+/**
+ * Reduce a license name to the words that tell licenses apart: no "License", "Version" or punctuation
+ */
+function simplifyLicenseName(name: string): string {
+    return name
+        .toLowerCase()
+        .replace(/[,()"]/g, ' ')
+        .replace(/\b(the|version|licen[cs]ed?)\b/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+}
+
+/**
+ * The SPDX identifier a license name stands for
+ */
+function lookupLicense(name: string): string | undefined {
+    return ALIAS_LOOKUP.get(name.trim().toLowerCase()) || ALIAS_LOOKUP.get(simplifyLicenseName(name));
+}
+
+function tokenizeExpression(expression: string): string[] {
+    return expression.match(/\(|\)|[^\s()]+/g) || [];
+}
+
+/**
+ * Rewrite a text as an SPDX expression of known identifiers, e.g. "mit or apache-2.0"
+ * becomes "MIT OR Apache-2.0". Undefined when a part of it is not a known license.
+ */
+function toSpdxExpression(text: string): string | undefined {
+    const tokens = tokenizeExpression(text);
+    if (!tokens.length) {
+        return undefined;
+    }
+
+    const rewritten: string[] = [];
+    for (const token of tokens) {
+        const upper = token.toUpperCase();
+        if (token === '(' || token === ')' || EXPRESSION_OPERATORS.has(upper)) {
+            rewritten.push(token === '(' || token === ')' ? token : upper);
+        } else if (/^LicenseRef-/i.test(token)) {
+            rewritten.push(token);
+        } else {
+            const spdx = ALIAS_LOOKUP.get(token.toLowerCase());
+            // Aliases such as "mit/expat" are not identifiers
+            if (!spdx || spdx.toLowerCase() !== token.toLowerCase()) {
+                return undefined;
+            }
+            rewritten.push(spdx);
+        }
+    }
+    return rewritten.join(' ').replace(/\( /g, '(').replace(/ \)/g, ')');
+}
+
+/**
+ * Map a distribution's license metadata to SPDX. The PEP 639 License-Expression wins, then
+ * a License field naming a known license, then the license classifiers. Several classifiers
+ * are read as a choice between them.
+ */
+export function normalizeLicense(metadata?: LicenseMetadata): NormalizedLicense {
+    const expression = metadata?.expression.trim();
+    if (expression) {
+        return { spdx: toSpdxExpression(expression) || expression, text: expression, source: 'expression' };
+    }
+
+    // Only the first line of a License field that holds the whole license text names it
+    const text = (metadata?.text || '').split(/\r?\n/)[0].trim();
+    const fromText = text && (toSpdxExpression(text) || lookupLicense(text));
+    if (fromText) {
+        return { spdx: fromText, text, source: 'license' };
+    }
+
+    const classifiers = (metadata?.classifiers || []).map(classifier => classifier.split('::').pop()!.trim());
+    const fromClassifiers = classifiers.map(lookupLicense).filter((spdx): spdx is string => !!spdx);
+    if (fromClassifiers.length) {
+        const unique = [...new Set(fromClassifiers)];
+        return { spdx: unique.join(' OR '), text: classifiers.join(', '), source: 'classifier' };
+    }
+
+    if (text || classifiers.length) {
+        return { text: text || classifiers.join(', '), source: text ? 'license' : 'classifier' };
+    }
+    return { text: '', source: 'unknown' };
+}
+
+type ExpressionNode =
+    | { type: 'license', id: string, exception?: string }
+    | { type: 'and' | 'or', children: ExpressionNode[] };
+
+/**
+ * Parse an SPDX expression. OR binds looser than AND, which binds looser than WITH.
+ */
+function parseExpression(expression: string): ExpressionNode {
+    const tokens = tokenizeExpression(expression);
+    let position = 0;
+
+    const parseList = (operator: 'AND' | 'OR', parseOperand: () => ExpressionNode): ExpressionNode => {
+        const children = [parseOperand()];
+        while (tokens[position]?.toUpperCase() === operator) {
+            position++;
+            children.push(parseOperand());
+        }
+        return children.length === 1 ? children[0] : { type: operator === 'AND' ? 'and' : 'or', children };
+    };
+
+    const parseAtom = (): ExpressionNode => {
+        const token = tokens[position++];
+        if (token === '(') {
+            const inner = parseList('OR', () => parseList('AND', parseAtom));
+            if (tokens[position++] !== ')') {
+                throw new LicensePolicyError(`Unbalanced parentheses in '${expression}'`);
+            }
+            return inner;
+        }
+        if (!token || token === ')' || EXPRESSION_OPERATORS.has(token.toUpperCase())) {
+            throw new LicensePolicyError(`'${expression}' is not a valid SPDX expression`);
+        }
+        if (tokens[position]?.toUpperCase() === 'WITH') {
+            position++;
+            return { type: 'license', id: token, exception: tokens[position++] };
+        }
+        return { type: 'license', id: token };
+    };
+
+    const node = parseList('OR', () => parseList('AND', parseAtom));
+    if (position < tokens.length) {
+        throw new LicensePolicyError(`'${expression}' is not a valid SPDX expression`);
+    }
+    return node;
+}
+
+function matchesPattern(id: string, pattern: string): boolean {
+    const regex = new RegExp(`^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`, 'i');
+    return regex.test(id);
+}
+
+// A choice (OR) takes the best of its licenses, a combination (AND) the worst
+const STATUS_RANK: { [status in 'allowed' | 'not-allowed' | 'denied']: number } = { denied: 0, 'not-allowed': 1, allowed: 2 };
+
+function evaluateNode(node: ExpressionNode, policy: LicensePolicy): 'allowed' | 'not-allowed' | 'denied' {
+    if (node.type === 'license') {
+        const names = node.exception ? [`${node.id} WITH ${node.exception}`, node.id] : [node.id];
+        if (names.some(name => policy.deny.some(pattern => matchesPattern(name, pattern)))) {
+            return 'denied';
+        }
+        if (!policy.allow.length || names.some(name => policy.allow.some(pattern => matchesPattern(name, pattern)))) {
+            return 'allowed';
+        }
+        return 'not-allowed';
+    }
+
+    const statuses = node.children.map(child => evaluateNode(child, policy));
+    const pick = node.type === 'or' ? Math.max : Math.min;
+    const rank = pick(...statuses.map(status => STATUS_RANK[status]));
+    return statuses.find(status => STATUS_RANK[status] === rank)!;
+}
+
+/**
+ * Check a license against a policy. Licenses without an SPDX form cannot be checked.
+ */
+export function evaluateLicense(license: NormalizedLicense, policy?: LicensePolicy): LicenseStatus {
+    if (!policy) {
+        return 'no-policy';
+    }
+    if (!license.spdx) {
+        return 'unknown';
+    }
+    try {
+        return evaluateNode(parseExpression(license.spdx), policy);
+    } catch (error) {
+        return 'unknown';
+    }
+}
+
+/**
+ * Whether a status breaks the policy
+ */
+export function isLicenseViolation(status: LicenseStatus): boolean {
+    return status === 'denied' || status === 'not-allowed';
+}
+
+/**
+ * Read the license policy of a workspace folder, from piping.licensePolicyFile relative to it.
+ * Undefined when the folder has no policy file.
+ */
+export async function readLicensePolicy(folder?: vscode.WorkspaceFolder): Promise<LicensePolicy | undefined> {
+    folder = folder || vscode.workspace.workspaceFolders?.[0];
+    if (!folder) {
+        return undefined;
+    }
+
+    const fileName = vscode.workspace.getConfiguration('piping', folder.uri).get<string>('licensePolicyFile') || DEFAULT_LICENSE_POLICY_FILE;
+    const uri = vscode.Uri.joinPath(folder.uri, fileName);
+    let content: string;
+    try {
+        content = Buffer.from(await vscode.workspace.fs.readFile(uri)).toString('utf8');
+    } catch (error) {
+        return undefined;
+    }
+
+    let parsed: { allow?: unknown, deny?: unknown };
+    try {
+        parsed = JSON.parse(content);
+    } catch (error) {
+        throw new LicensePolicyError(`${fileName} is not valid JSON: ${error}`);
+    }
+
+    const readList = (key: 'allow' | 'deny'): string[] => {
+        const list = parsed[key] ?? [];
+        if (!Array.isArray(list) || list.some(entry => typeof entry !== 'string')) {
+            throw new LicensePolicyError(`"${key}" in ${fileName} must be a list of SPDX identifiers`);
+        }
+        return list.map(entry => entry.trim()).filter(entry => entry);
+    };
+
+    return { file: uri.fsPath, allow: readList('allow'), deny: readList('deny') };
+}
+
+/**
+ * The license of every package and how it fares against the policy, sorted by name
+ */
+export function buildLicenseInventory(packages: PackageInfo[], policy?: LicensePolicy): LicenseInventoryEntry[] {
+    return packages
+        .map(pkg => {
+            const license = normalizeLicense(pkg.license);
+            return {
+                name: pkg.name,
+                version: pkg.version,
+                license: license.spdx || license.text,
+                spdx: !!license.spdx,
+                source: license.source,
+                status: evaluateLicense(license, policy)
+            };
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+function csvField(value: string): string {
+    return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Format an inventory as CSV with a header row
+ */
+export function formatLicenseCsv(entries: LicenseInventoryEntry[]): string {
+    const rows = [
+        ['name', 'version', 'license', 'spdx', 'source', 'policy'],
+        ...entries.map(entry => [entry.name, entry.version, entry.license, String(entry.spdx), entry.source, entry.status])
+    ];
+    return rows.map(row => row.map(csvField).join(',')).join('\n') + '\n';
+}
+
+/**
+ * Format an inventory as JSON, with the environment and policy it was made for
+ */
+export function formatLicenseJson(entries: LicenseInventoryEntry[], environment: string, policy?: LicensePolicy): string {
+    return JSON.stringify({
+        generatedBy: 'piping',
+        createdAt: new Date().toISOString(),
+        environment,
+        policy: policy ? { file: policy.file, allow: policy.allow, deny: policy.deny } : null,
+        packages: entries
+    }, null, 2) + '\n';
+}
@@ -0,0 +1,258 @@
+import * as vscode from 'vscode';
+import { PipOperation, PipProgressUpdate } from './pipProgress';
+import { normalizePackageName } from './dependencyGraph';
+
+export type QueuedOperationStatus = 'pending' | 'running';
+
+/**
+ * An operation that changes an environment, as the Queue view shows it
+ */
+export interface QueuedOperation {
+    readonly id: number;
+    label: string;
+    readonly environmentKey: string;
+    readonly environmentName: string;
+    status: QueuedOperationStatus;
+    progress?: PipProgressUpdate;
+}
+
+/**
+ * What an executor hands to the queue: the operation, and how to run it once the environment is free
+ */
+export interface QueueRequest<T> {
+    label: string;
+    environmentKey: string;
+    environmentName: string;
+    // The caller's progress and cancellation, which the queue forwards to and listens to
+    caller?: PipOperation;
+    // The result of an operation that is cancelled before it starts
+    cancelled: T;
+    execute: (operation: PipOperation) => Promise<T>;
+}
+
+/**
+ * A plain pip install of requirement specs, which can share a pip call with other pending installs
+ */
+export interface InstallQueueRequest extends Omit<QueueRequest<boolean>, 'execute' | 'cancelled'> {
+    specs: string[];
+    execute: (specs: string[], operation: PipOperation) => Promise<boolean>;
+}
+
+interface QueueEntry {
+    operation: QueuedOperation;
+    caller?: PipOperation;
+    cancellation: vscode.CancellationTokenSource;
+    subscription?: vscode.Disposable;
+    // Set for installs that others may join
+    specs?: string[];
+    // Run the operation; an install runs the specs of the installs that joined it too
+    execute(specs: string[], operation: PipOperation): Promise<unknown>;
+    settle(result: unknown): void;
+    fail(error: unknown): void;
+    // The result of an operation cancelled before it starts
+    cancelled: unknown;
+}
+
+/**
+ * Runs the operations that change an environment one after another, so that no two pip
+ * processes write to the same site-packages. Operations on different environments run side by side.
+ * Pending installs into the same environment are merged into one pip call when they name different packages.
+ */
+export class OperationQueue implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<void>();
+    readonly onDidChange: vscode.Event<void> = this._onDidChange.event;
+
+    private _entries: QueueEntry[] = [];
+    private _nextId = 1;
+
+    /**
+     * The running and pending operations, in the order they run
+     */
+    get operations(): QueuedOperation[] {
+        return this._entries.map(entry => entry.operation);
+    }
+
+    /**
+     * Run an operation once the operations queued before it on the same environment are done
+     */
+    run<T>(request: QueueRequest<T>): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            this.add(request, {
+                execute: (_specs, operation) => request.execute(operation),
+                settle: result => resolve(result as T),
+                fail: reject,
+                cancelled: request.cancelled
+            });
+        });
+    }
+
+    /**
+     * Install requirement specs once the environment is free, together with the installs pending by then
+     */
+    install(request: InstallQueueRequest): Promise<boolean> {
+        return new Promise<boolean>((resolve, reject) => {
+            this.add(request, {
+                specs: request.specs,
+                execute: (specs, operation) => request.execute(specs, operation),
+                settle: result => resolve(result as boolean),
+                fail: reject,
+                cancelled: false
+            });
+        });
+    }
+
+    /**
+     * Cancel an operation: a pending one leaves the queue, a running one stops its process
+     */
+    cancel(id: number): void {
+        const entry = this._entries.find(e => e.operation.id === id);
+        if (entry) {
+            entry.cancellation.cancel();
+            entry.caller?.cancel?.();
+        }
+    }
+
+    /**
+     * Move a pending operation before or after the next pending operation on the same environment
+     */
+    move(id: number, direction: -1 | 1): void {
+        const index = this._entries.findIndex(e => e.operation.id === id);
+        const entry = this._entries[index];
+        if (!entry || entry.operation.status !== 'pending') {
+            return;
+        }
+
+        let other = index + direction;
+        while (other >= 0 && other < this._entries.length && this._entries[other].operation.environmentKey !== entry.operation.environmentKey) {
+            other += direction;
+        }
+        if (other < 0 || other >= this._entries.length || this._entries[other].operation.status !== 'pending') {
+            return;
+        }
+
+        [this._entries[index], this._entries[other]] = [this._entries[other], this._entries[index]];
+        this._onDidChange.fire();
+    }
+
+    dispose(): void {
+        this._entries.forEach(entry => entry.cancellation.cancel());
+        this._onDidChange.dispose();
+    }
+
+    private add(request: Omit<QueueRequest<unknown>, 'execute' | 'cancelled'>, handlers: Pick<QueueEntry, 'specs' | 'execute' | 'settle' | 'fail' | 'cancelled'>): void {
+        const entry: QueueEntry = {
+            operation: {
+                id: this._nextId++,
+                label: request.label,
+                environmentKey: request.environmentKey,
+                environmentName: request.environmentName,
+                status: 'pending'
+            },
+            caller: request.caller,
+            cancellation: new vscode.CancellationTokenSource(),
+            ...handlers
+        };
+
+        // Cancelling from the caller's notification cancels the entry too
+        entry.subscription = request.caller?.token?.onCancellationRequested(() => entry.cancellation.cancel());
+        entry.cancellation.token.onCancellationRequested(() => {
+            if (entry.operation.status === 'pending') {
+                this.remove(entry);
+                entry.subscription?.dispose();
+                entry.settle(entry.cancelled);
+                this._onDidChange.fire();
+            }
+        });
+
+        this._entries.push(entry);
+        this._onDidChange.fire();
+        this.startNext(entry.operation.environmentKey);
+    }
+
+    private startNext(environmentKey: string): void {
+        const entries = this._entries.filter(e => e.operation.environmentKey === environmentKey);
+        const next = entries[0];
+        if (!next || next.operation.status === 'running') {
+            return;
+        }
+
+        const batch = [next, ...this.joinInstalls(next, entries.slice(1))];
+        batch.forEach(entry => entry.operation.status = 'running');
+        if (batch.length > 1) {
+            // The joined installs show as part of the first one
+            next.operation.label = `Install ${batch.flatMap(entry => entry.specs!).join(', ')}`;
+            batch.slice(1).forEach(entry => this.remove(entry));
+        }
+        this._onDidChange.fire();
+
+        // The batch is one pip call, so cancelling any of its operations cancels all of them
+        const cancellation = new vscode.CancellationTokenSource();
+        const subscriptions = batch.map(entry => entry.cancellation.token.onCancellationRequested(() => {
+            batch.forEach(other => other.caller?.cancel?.());
+            cancellation.cancel();
+        }));
+        if (batch.some(entry => entry.cancellation.token.isCancellationRequested)) {
+            cancellation.cancel();
+        }
+
+        const operation: PipOperation = {
+            token: cancellation.token,
+            onProgress: update => {
+                next.operation.progress = update;
+                batch.forEach(entry => entry.caller?.onProgress?.(update));
+                this._onDidChange.fire();
+            }
+        };
+
+        next.execute(batch.flatMap(entry => entry.specs || []), operation).then(
+            result => batch.forEach(entry => entry.settle(result)),
+            error => batch.forEach(entry => entry.fail(error))
+        ).finally(() => {
+            subscriptions.forEach(subscription => subscription.dispose());
+            cancellation.dispose();
+            batch.forEach(entry => {
+                entry.subscription?.dispose();
+                entry.cancellation.dispose();
+            });
+            this.remove(next);
+            this._onDidChange.fire();
+            this.startNext(environmentKey);
+        });
+    }
+
+    /**
+     * The pending installs that can join an install: those up to the first other operation
+     * or the first install of a package the batch already installs
+     */
+    private joinInstalls(head: QueueEntry, pending: QueueEntry[]): QueueEntry[] {
+        if (!head.specs) {
+            return [];
+        }
+
+        const names = new Set(head.specs.map(specName));
+        const joined: QueueEntry[] = [];
+        for (const entry of pending) {
+            if (!entry.specs) {
+                break;
+            }
+            const entryNames = entry.specs.map(specName);
+            if (entryNames.some(name => names.has(name))) {
+                break;
+            }
+            entryNames.forEach(name => names.add(name));
+            joined.push(entry);
+        }
+        return joined;
+    }
+
+    private remove(entry: QueueEntry): void {
+        this._entries = this._entries.filter(e => e !== entry);
+    }
+}
+
+/**
+ * The normalized project name a requirement spec installs
+ */
+function specName(spec: string): string {
+    return normalizePackageName(spec.split(/[\s\[<>=!~;@(]/)[0]);
+}
@@ -0,0 +1,67 @@
+import * as vscode from 'vscode';
+import { PackageInfo } from './pythonExecutor';
+import { PACKAGING_TOOLS, buildDependencyGraph, normalizePackageName } from './dependencyGraph';
+import { ENVIRONMENT_FOLDERS_GLOB, findRequirementsFiles, parseRequirementsFile } from './requirementsFile';
+import { readPyprojectDependencies } from './pyproject';
+import { parseRequirement } from './pep508';
+
+/**
+ * Collect the normalized names of every package declared by a requirements
+ * file or a pyproject.toml in the workspace, or in one of its folders
+ */
+export async function findDeclaredPackageNames(outputChannel: vscode.OutputChannel, folder?: vscode.WorkspaceFolder): Promise<Set<string>> {
+    const declared = new Set<string>();
+
+    for (const uri of await findRequirementsFiles(folder)) {
+        try {
+            const file = await parseRequirementsFile(uri.fsPath);
+            file.requirements.forEach(entry => declared.add(normalizePackageName(entry.requirement.name)));
+        } catch (error) {
+            outputChannel.appendLine(`Failed to read ${uri.fsPath}: ${error}`);
+        }
+    }
+
+    const pyprojects = folder ? new vscode.RelativePattern(folder, '**/pyproject.toml') : '**/pyproject.toml';
+    for (const uri of await vscode.workspace.findFiles(pyprojects, ENVIRONMENT_FOLDERS_GLOB)) {
+        try {
+            const dependencies = await readPyprojectDependencies(uri);
+            for (const specs of Object.values(dependencies.groups)) {
+                for (const spec of specs) {
+                    try {
+                        declared.add(normalizePackageName(parseRequirement(spec).name));
+                    } catch (error) {
+                        // Invalid entries don't declare anything
+                    }
+                }
+            }
+        } catch (error) {
+            outputChannel.appendLine(`Failed to read ${uri.fsPath}: ${error}`);
+        }
+    }
+
+    return declared;
+}
+
+/**
+ * Get the installed packages that no other package requires and the workspace
+ * does not declare. Editable installs are the user's own projects and are kept.
+ */
+export function findOrphanPackages(packages: PackageInfo[], declared: Set<string>): PackageInfo[] {
+    // Without dependency metadata every package would look unused
+    if (!packages.some(pkg => pkg.requires)) {
+        return [];
+    }
+
+    const graph = buildDependencyGraph(packages);
+    const required = new Set(graph.nodes.filter(node => node.requiredBy.length).map(node => node.id));
+
+    return packages
+        .filter(pkg => {
+            const key = normalizePackageName(pkg.name);
+            return !required.has(key)
+                && !declared.has(key)
+                && !PACKAGING_TOOLS.includes(key)
+                && !pkg.directUrl?.editable;
+        })
+        .sort((a, b) => a.name.localeCompare(b.name));
+}
@@ -0,0 +1,281 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { normalizePackageName } from './dependencyGraph';
+import { compareVersions } from './pep440';
+import { httpRequest } from './http';
+
+/**
+ * An advisory in the OSV format (https://ossf.github.io/osv-schema/), with the fields Piping reads
+ */
+export interface OsvVulnerability {
+    id: string;
+    summary?: string;
+    details?: string;
+    aliases?: string[];
+    modified?: string;
+    published?: string;
+    withdrawn?: string;
+    severity?: Array<{ type: string, score: string }>;
+    affected?: OsvAffected[];
+    references?: Array<{ type: string, url: string }>;
+    database_specific?: { severity?: string };
+}
+
+export interface OsvAffected {
+    package?: { ecosystem: string, name: string };
+    ranges?: Array<{ type: string, events: OsvEvent[] }>;
+    versions?: string[];
+}
+
+export interface OsvEvent {
+    introduced?: string;
+    fixed?: string;
+    last_affected?: string;
+    limit?: string;
+}
+
+/**
+ * An installed package and version to check
+ */
+export interface AuditedPackage {
+    name: string;
+    version: string;
+}
+
+/**
+ * Where advisories come from: the OSV API or a local dump of it
+ */
+export interface OsvDatabase {
+    readonly description: string;
+
+    /**
+     * The packages, of those given, that an advisory may affect. Packages left out are not affected.
+     */
+    findCandidates(packages: AuditedPackage[]): Promise<AuditedPackage[]>;
+
+    /**
+     * Every advisory of a PyPI project, whichever versions it affects
+     */
+    getVulnerabilities(name: string): Promise<OsvVulnerability[]>;
+}
+
+const PYPI_ECOSYSTEM = 'PyPI';
+// The OSV API takes at most this many queries per batch
+const QUERY_BATCH_SIZE = 1000;
+
+/**
+ * Client for the OSV API, such as https://api.osv.dev or a mirror of it
+ */
+export class OsvApiDatabase implements OsvDatabase {
+    private readonly baseUrl: string;
+
+    constructor(url: string) {
+        this.baseUrl = url.replace(/\/+$/, '');
+    }
+
+    get description(): string {
+        return this.baseUrl;
+    }
+
+    async findCandidates(packages: AuditedPackage[]): Promise<AuditedPackage[]> {
+        const candidates: AuditedPackage[] = [];
+        for (let start = 0; start < packages.length; start += QUERY_BATCH_SIZE) {
+            const batch = packages.slice(start, start + QUERY_BATCH_SIZE);
+            const response = await this.post<{ results?: Array<{ vulns?: unknown[] }> }>('/v1/querybatch', {
+                queries: batch.map(pkg => ({ package: { name: pkg.name, ecosystem: PYPI_ECOSYSTEM }, version: pkg.version }))
+            });
+            (response.results || []).forEach((result, i) => {
+                if (result.vulns?.length && batch[i]) {
+                    candidates.push(batch[i]);
+                }
+            });
+        }
+        return candidates;
+    }
+
+    async getVulnerabilities(name: string): Promise<OsvVulnerability[]> {
+        const vulnerabilities: OsvVulnerability[] = [];
+        let pageToken: string | undefined;
+        do {
+            const response = await this.post<{ vulns?: OsvVulnerability[], next_page_token?: string }>('/v1/query', {
+                package: { name, ecosystem: PYPI_ECOSYSTEM },
+                ...(pageToken ? { page_token: pageToken } : {})
+            });
+            vulnerabilities.push(...(response.vulns || []));
+            pageToken = response.next_page_token;
+        } while (pageToken);
+        return vulnerabilities;
+    }
+
+    private async post<T>(endpoint: string, body: unknown): Promise<T> {
+        const response = await httpRequest(`${this.baseUrl}${endpoint}`, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body)
+        });
+        return JSON.parse(response.body) as T;
+    }
+}
+
+/**
+ * Advisories read from a directory of OSV JSON files, such as the unzipped
+ * PyPI export from https://osv-vulnerabilities.storage.googleapis.com/PyPI/all.zip
+ */
+export class OsvDirectoryDatabase implements OsvDatabase {
+    private _index?: Promise<Map<string, OsvVulnerability[]>>;
+
+    constructor(private readonly directory: string) {}
+
+    get description(): string {
+        return this.directory;
+    }
+
+    async findCandidates(packages: AuditedPackage[]): Promise<AuditedPackage[]> {
+        const index = await this.getIndex();
+        return packages.filter(pkg => index.has(normalizePackageName(pkg.name)));
+    }
+
+    async getVulnerabilities(name: string): Promise<OsvVulnerability[]> {
+        return (await this.getIndex()).get(normalizePackageName(name)) || [];
+    }
+
+    /**
+     * The advisories of the directory by the normalized names of the PyPI projects they affect
+     */
+    private getIndex(): Promise<Map<string, OsvVulnerability[]>> {
+        if (!this._index) {
+            this._index = this.readIndex();
+        }
+        return this._index;
+    }
+
+    private async readIndex(): Promise<Map<string, OsvVulnerability[]>> {
+        const index = new Map<string, OsvVulnerability[]>();
+        for (const file of await findJsonFiles(this.directory)) {
+            let vulnerability: OsvVulnerability;
+            try {
+                vulnerability = JSON.parse(await fs.promises.readFile(file, 'utf8'));
+            } catch (error) {
+                throw new Error(`Could not read advisory ${file}: ${error}`);
+            }
+
+            const names = new Set((vulnerability.affected || [])
+                .filter(affected => affected.package?.ecosystem === PYPI_ECOSYSTEM)
+                .map(affected => normalizePackageName(affected.package!.name)));
+            names.forEach(name => index.set(name, [...(index.get(name) || []), vulnerability]));
+        }
+        return index;
+    }
+}
+
+async function findJsonFiles(directory: string): Promise<string[]> {
+    const files: string[] = [];
+    for (const entry of await fs.promises.readdir(directory, { withFileTypes: true })) {
+        const entryPath = path.join(directory, entry.name);
+        if (entry.isDirectory()) {
+            files.push(...await findJsonFiles(entryPath));
+        } else if (entry.name.endsWith('.json')) {
+            files.push(entryPath);
+        }
+    }
+    return files;
+}
+
+/**
+ * The affected entries of an advisory that are about a PyPI project
+ */
+function affectedEntries(vulnerability: OsvVulnerability, name: string): OsvAffected[] {
+    const normalized = normalizePackageName(name);
+    return (vulnerability.affected || []).filter(affected =>
+        affected.package?.ecosystem === PYPI_ECOSYSTEM && normalizePackageName(affected.package.name) === normalized
+    );
+}
+
+/**
+ * Order the events of a range by their versions; "0" stands for the first version there is
+ */
+function eventVersion(event: OsvEvent): string {
+    return event.introduced ?? event.fixed ?? event.last_affected ?? event.limit ?? '0';
+}
+
+function compareEventVersions(a: string, b: string): number {
+    if (a === '0' || b === '0') {
+        return a === b ? 0 : a === '0' ? -1 : 1;
+    }
+    return compareVersions(a, b);
+}
+
+/**
+ * Whether a version falls in an ECOSYSTEM range, walking its events in version order as the OSV schema describes
+ */
+function inRange(events: OsvEvent[], version: string): boolean {
+    const sorted = [...events].sort((a, b) => compareEventVersions(eventVersion(a), eventVersion(b)));
+    let affected = false;
+    for (const event of sorted) {
+        if (event.introduced !== undefined) {
+            if (compareEventVersions(version, event.introduced) >= 0) {
+                affected = true;
+            }
+        } else if (event.fixed !== undefined) {
+            if (compareVersions(version, event.fixed) >= 0) {
+                affected = false;
+            }
+        } else if (event.last_affected !== undefined) {
+            if (compareVersions(version, event.last_affected) > 0) {
+                affected = false;
+            }
+        }
+    }
+    return affected;
+}
+
+/**
+ * Whether an advisory affects a version of a PyPI project. Withdrawn advisories affect nothing.
+ */
+export function isAffected(vulnerability: OsvVulnerability, name: string, version: string): boolean {
+    if (vulnerability.withdrawn) {
+        return false;
+    }
+    return affectedEntries(vulnerability, name).some(affected =>
+        (affected.versions || []).some(listed => compareVersions(listed, version) === 0)
+        || (affected.ranges || []).some(range => range.type === 'ECOSYSTEM' && inRange(range.events, version))
+    );
+}
+
+/**
+ * The versions of a PyPI project an advisory names as fixed, lowest first
+ */
+export function fixedVersions(vulnerability: OsvVulnerability, name: string): string[] {
+    const versions = affectedEntries(vulnerability, name)
+        .flatMap(affected => affected.ranges || [])
+        .filter(range => range.type === 'ECOSYSTEM')
+        .flatMap(range => range.events)
+        .map(event => event.fixed)
+        .filter((fixed): fixed is string => !!fixed);
+    return [...new Set(versions)].sort(compareVersions);
+}
+
+/**
+ * The lowest fixed version above the installed one that none of the project's advisories affect
+ */
+export function findSafeVersion(vulnerabilities: OsvVulnerability[], name: string, version: string): string | undefined {
+    const candidates = [...new Set(vulnerabilities.flatMap(vulnerability => fixedVersions(vulnerability, name)))]
+        .filter(candidate => compareVersions(candidate, version) > 0)
+        .sort(compareVersions);
+    return candidates.find(candidate => !vulnerabilities.some(vulnerability => isAffected(vulnerability, name, candidate)));
+}
+
+/**
+ * The severity an advisory gives, such as "HIGH", or its CVSS vector
+ */
+export function severityOf(vulnerability: OsvVulnerability): string | undefined {
+    return vulnerability.database_specific?.severity || vulnerability.severity?.[0]?.score;
+}
+
+/**
+ * The page of an advisory: its advisory reference, or its page on osv.dev
+ */
+export function advisoryUrl(vulnerability: OsvVulnerability): string {
+    const advisory = vulnerability.references?.find(reference => reference.type === 'ADVISORY');
+    return advisory?.url || `https://osv.dev/vulnerability/${encodeURIComponent(vulnerability.id)}`;
+}
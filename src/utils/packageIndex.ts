@@ -0,0 +1,339 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { PackageInfo } from './pythonExecutor';
+import { normalizePackageName } from './dependencyGraph';
+import { compareVersions, isPrerelease } from './pep440';
+import { httpRequest } from './http';
+
+export interface IndexFile {
+    filename: string;
+    url: string;
+    version: string;
+    hashes: { [algorithm: string]: string };
+    yanked: boolean;
+    requiresPython?: string;
+}
+
+export interface IndexProject {
+    name: string;
+    versions: string[];
+    files: IndexFile[];
+}
+
+interface CachedProjectList {
+    indexUrl: string;
+    fetchedAt: number;
+    names: string[];
+}
+
+/**
+ * The loaded project list. The names are normalized once, as every search compares against all of them.
+ */
+interface ProjectList {
+    indexUrl: string;
+    names: string[];
+    normalizedNames: string[];
+}
+
+const DEFAULT_INDEX_URL = 'https://pypi.org/simple/';
+const SIMPLE_ACCEPT = 'application/vnd.pypi.simple.v1+json, application/vnd.pypi.simple.v1+html;q=0.2, text/html;q=0.01';
+// Project pages read at once when looking up the versions of search results
+const VERSION_LOOKUPS = 4;
+
+/**
+ * Client for a PEP 503/691 "Simple API" package index. The list of project
+ * names is cached in extension storage so searching works without a network
+ * round trip per query.
+ */
+export class PackageIndex {
+    private _projects?: ProjectList;
+    private _loading?: Promise<string[]>;
+
+    constructor(
+        private readonly storageUri: vscode.Uri,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {}
+
+    /**
+     * The configured index URL, always ending with a slash
+     */
+    get indexUrl(): string {
+        const url = vscode.workspace.getConfiguration('piping').get<string>('indexUrl') || DEFAULT_INDEX_URL;
+        return url.endsWith('/') ? url : `${url}/`;
+    }
+
+    /**
+     * Search the index for projects whose names match the query
+     */
+    public async search(query: string, limit = 20): Promise<PackageInfo[]> {
+        const normalizedQuery = normalizePackageName(query);
+        if (!normalizedQuery) {
+            return [];
+        }
+        const { names, normalizedNames } = await this.getProjects();
+
+        const matches = names
+            .map((name, index) => ({ name, score: fuzzyScore(normalizedNames[index], normalizedQuery) }))
+            .filter(match => match.score > 0)
+            .sort((a, b) => b.score - a.score || a.name.length - b.name.length || a.name.localeCompare(b.name))
+            .slice(0, limit);
+
+        // Resolve the latest versions of the matches, a few project pages at a time
+        const results: PackageInfo[] = matches.map(match => ({ name: match.name, version: '' }));
+        let next = 0;
+        const worker = async () => {
+            for (let index = next++; index < results.length; index = next++) {
+                try {
+                    const project = await this.getProject(results[index].name);
+                    results[index] = { name: project.name, version: latestVersion(project) || '' };
+                } catch (error) {
+                    this.outputChannel.appendLine(`Could not read versions of ${results[index].name}: ${error}`);
+                }
+            }
+        };
+        await Promise.all(Array.from({ length: Math.min(VERSION_LOOKUPS, results.length) }, worker));
+        return results;
+    }
+
+    /**
+     * Get the names of all projects on the index, from cache when it is fresh enough
+     */
+    public async getProjectNames(forceRefresh = false): Promise<string[]> {
+        return (await this.getProjects(forceRefresh)).names;
+    }
+
+    private async getProjects(forceRefresh = false): Promise<ProjectList> {
+        const indexUrl = this.indexUrl;
+
+        if (!forceRefresh && this._projects?.indexUrl === indexUrl) {
+            return this._projects;
+        }
+
+        if (!this._loading) {
+            this._loading = this.loadProjectNames(indexUrl, forceRefresh).finally(() => {
+                this._loading = undefined;
+            });
+        }
+
+        const names = await this._loading;
+        if (this._projects?.names !== names) {
+            this._projects = { indexUrl, names, normalizedNames: names.map(normalizePackageName) };
+        }
+        return this._projects;
+    }
+
+    /**
+     * Get the files and versions the index offers for a project
+     */
+    public async getProject(name: string): Promise<IndexProject> {
+        const url = `${this.indexUrl}${normalizePackageName(name)}/`;
+        const response = await httpRequest(url, { headers: { Accept: SIMPLE_ACCEPT } });
+
+        const project = response.contentType.includes('json')
+            ? parseProjectJson(response.body, name)
+            : parseProjectHtml(response.body, name, url);
+
+        return project;
+    }
+
+    private async loadProjectNames(indexUrl: string, forceRefresh: boolean): Promise<string[]> {
+        const cacheFile = vscode.Uri.joinPath(
+            this.storageUri,
+            'index',
+            `${crypto.createHash('sha1').update(indexUrl).digest('hex')}.json`
+        );
+        const maxAgeHours = vscode.workspace.getConfiguration('piping').get<number>('indexCacheHours', 24);
+
+        let cached: CachedProjectList | undefined;
+        try {
+            cached = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(cacheFile)).toString('utf8'));
+        } catch (error) {
+            // No cache yet
+        }
+
+        if (cached && !forceRefresh && Date.now() - cached.fetchedAt < maxAgeHours * 3600 * 1000) {
+            return cached.names;
+        }
+
+        try {
+            this.outputChannel.appendLine(`Downloading project list from ${indexUrl}`);
+            const response = await httpRequest(indexUrl, { headers: { Accept: SIMPLE_ACCEPT }, timeoutMs: 120000 });
+            const names = response.contentType.includes('json')
+                ? (JSON.parse(response.body).projects as Array<{ name: string }>).map(project => project.name)
+                : parseAnchors(response.body).map(anchor => anchor.text);
+
+            const entry: CachedProjectList = { indexUrl, fetchedAt: Date.now(), names };
+            await vscode.workspace.fs.createDirectory(vscode.Uri.joinPath(this.storageUri, 'index'));
+            await vscode.workspace.fs.writeFile(cacheFile, Buffer.from(JSON.stringify(entry), 'utf8'));
+
+            return names;
+        } catch (error) {
+            // A stale list is still better than no search on an offline machine
+            if (cached) {
+                this.outputChannel.appendLine(`Using cached project list, refreshing it failed: ${error}`);
+                return cached.names;
+            }
+            throw error;
+        }
+    }
+}
+
+/**
+ * Score how well a normalized project name matches a normalized query.
+ * Zero means no match.
+ */
+export function fuzzyScore(name: string, query: string): number {
+    if (name === query) {
+        return 1000;
+    }
+    if (name.startsWith(query)) {
+        return 800 - Math.min(name.length - query.length, 100);
+    }
+
+    const index = name.indexOf(query);
+    if (index >= 0) {
+        return 600 - Math.min(index, 100);
+    }
+
+    // Every query character appears in order, penalised by the gaps between them
+    let position = 0;
+    let gaps = 0;
+    for (const char of query) {
+        const next = name.indexOf(char, position);
+        if (next < 0) {
+            return 0;
+        }
+        gaps += next - position;
+        position = next + 1;
+    }
+    return Math.max(1, 300 - gaps * 10);
+}
+
+/**
+ * The newest version that is neither yanked nor a pre-release,
+ * falling back to the newest version of any kind
+ */
+export function latestVersion(project: IndexProject): string | undefined {
+    const yanked = new Set<string>();
+    const available = new Set<string>();
+    for (const file of project.files) {
+        (file.yanked ? yanked : available).add(file.version);
+    }
+
+    const candidates = project.versions.filter(version => available.has(version) || !yanked.has(version));
+    const sorted = [...candidates].sort(compareVersions).reverse();
+    return sorted.find(version => !isPrerelease(version)) || sorted[0];
+}
+
+/**
+ * Extract the version from a wheel or sdist filename
+ */
+export function versionFromFilename(filename: string, projectName: string): string | undefined {
+    if (filename.endsWith('.whl')) {
+        return filename.split('-')[1];
+    }
+
+    const base = filename.replace(/\.(tar\.gz|tar\.bz2|tar\.xz|zip|tgz|egg)$/, '');
+    const normalizedProject = normalizePackageName(projectName);
+
+    // The project name may itself contain dashes, so find the split point that matches it
+    const parts = base.split('-');
+    for (let i = 1; i < parts.length; i++) {
+        if (normalizePackageName(parts.slice(0, i).join('-')) === normalizedProject) {
+            return parts.slice(i).join('-') || undefined;
+        }
+    }
+    return undefined;
+}
+
+function parseProjectJson(body: string, fallbackName: string): IndexProject {
+    const data = JSON.parse(body) as {
+        name?: string;
+        versions?: string[];
+        files?: Array<{ filename: string, url: string, hashes?: { [algorithm: string]: string }, yanked?: boolean | string, 'requires-python'?: string }>;
+    };
+    const name = data.name || fallbackName;
+
+    const files: IndexFile[] = (data.files || []).map(file => ({
+        filename: file.filename,
+        url: file.url,
+        version: versionFromFilename(file.filename, name) || '',
+        hashes: file.hashes || {},
+        yanked: !!file.yanked,
+        requiresPython: file['requires-python']
+    }));
+
+    return {
+        name,
+        versions: data.versions || uniqueVersions(files),
+        files
+    };
+}
+
+function parseProjectHtml(body: string, name: string, baseUrl: string): IndexProject {
+    const files: IndexFile[] = parseAnchors(body).map(anchor => {
+        const url = new URL(anchor.href, baseUrl);
+        const hashes: { [algorithm: string]: string } = {};
+        const fragment = /^#(\w+)=([0-9a-f]+)$/i.exec(url.hash);
+        if (fragment) {
+            hashes[fragment[1].toLowerCase()] = fragment[2];
+        }
+        url.hash = '';
+
+        return {
+            filename: anchor.text,
+            url: url.toString(),
+            version: versionFromFilename(anchor.text, name) || '',
+            hashes,
+            yanked: anchor.attributes['data-yanked'] !== undefined,
+            requiresPython: anchor.attributes['data-requires-python']
+        };
+    });
+
+    return { name, versions: uniqueVersions(files), files };
+}
+
+function uniqueVersions(files: IndexFile[]): string[] {
+    return Array.from(new Set(files.map(file => file.version).filter(version => version)));
+}
+
+interface Anchor {
+    href: string;
+    text: string;
+    attributes: { [name: string]: string };
+}
+
+/**
+ * Extract the anchors of a PEP 503 HTML page
+ */
+function parseAnchors(html: string): Anchor[] {
+    const anchors: Anchor[] = [];
+    const anchorPattern = /<a\s([^>]*)>([^<]*)<\/a>/gi;
+    const attributePattern = /([\w-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+
+    let match: RegExpExecArray | null;
+    while ((match = anchorPattern.exec(html)) !== null) {
+        const attributes: { [name: string]: string } = {};
+        let attribute: RegExpExecArray | null;
+        while ((attribute = attributePattern.exec(match[1])) !== null) {
+            attributes[attribute[1].toLowerCase()] = decodeEntities(attribute[2] ?? attribute[3] ?? attribute[4] ?? '');
+        }
+
+        anchors.push({
+            href: attributes.href || '',
+            text: decodeEntities(match[2].trim()),
+            attributes
+        });
+    }
+
+    return anchors;
+}
+
+function decodeEntities(text: string): string {
+    return text
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&#39;/g, '\'')
+        .replace(/&amp;/g, '&');
+}
@@ -0,0 +1,247 @@
+/**
+ * Version parsing and ordering as described in PEP 440
+ */
+
+export interface ParsedVersion {
+    epoch: number;
+    release: number[];
+    pre?: [string, number];
+    post?: number;
+    dev?: number;
+    local?: Array<string | number>;
+}
+
+const VERSION_PATTERN = /^\s*v?(?:(\d+)!)?(\d+(?:\.\d+)*)(?:[-_.]?(a|b|c|rc|alpha|beta|pre|preview)[-_.]?(\d+)?)?(?:-(\d+)|[-_.]?(post|rev|r)[-_.]?(\d+)?)?(?:[-_.]?(dev)[-_.]?(\d+)?)?(?:\+([a-z0-9]+(?:[-_.][a-z0-9]+)*))?\s*$/i;
+
+const PRE_RELEASE_NAMES: { [name: string]: string } = {
+    a: 'a', alpha: 'a',
+    b: 'b', beta: 'b',
+    c: 'rc', rc: 'rc', pre: 'rc', preview: 'rc'
+};
+
+/**
+ * Parse a version string, returning undefined when it is not PEP 440 compliant
+ */
+export function parseVersion(version: string): ParsedVersion | undefined {
+    const match = VERSION_PATTERN.exec(version);
+    if (!match) {
+        return undefined;
+    }
+
+    const parsed: ParsedVersion = {
+        epoch: match[1] ? parseInt(match[1], 10) : 0,
+        release: match[2].split('.').map(part => parseInt(part, 10))
+    };
+
+    if (match[3]) {
+        parsed.pre = [PRE_RELEASE_NAMES[match[3].toLowerCase()], match[4] ? parseInt(match[4], 10) : 0];
+    }
+    if (match[5] !== undefined) {
+        parsed.post = parseInt(match[5], 10);
+    } else if (match[6]) {
+        parsed.post = match[7] ? parseInt(match[7], 10) : 0;
+    }
+    if (match[8]) {
+        parsed.dev = match[9] ? parseInt(match[9], 10) : 0;
+    }
+    if (match[10]) {
+        parsed.local = match[10].toLowerCase().split(/[-_.]/).map(part => /^\d+$/.test(part) ? parseInt(part, 10) : part);
+    }
+
+    return parsed;
+}
+
+/**
+ * Normalize a version to its canonical PEP 440 form
+ */
+export function normalizeVersion(version: string): string {
+    const parsed = parseVersion(version);
+    if (!parsed) {
+        return version.trim();
+    }
+
+    let result = parsed.epoch ? `${parsed.epoch}!` : '';
+    result += parsed.release.join('.');
+    if (parsed.pre) {
+        result += `${parsed.pre[0]}${parsed.pre[1]}`;
+    }
+    if (parsed.post !== undefined) {
+        result += `.post${parsed.post}`;
+    }
+    if (parsed.dev !== undefined) {
+        result += `.dev${parsed.dev}`;
+    }
+    if (parsed.local) {
+        result += `+${parsed.local.join('.')}`;
+    }
+    return result;
+}
+
+/**
+ * Whether the version is a pre-release or development release
+ */
+export function isPrerelease(version: string): boolean {
+    const parsed = parseVersion(version);
+    return !!parsed && (parsed.pre !== undefined || parsed.dev !== undefined);
+}
+
+function compareNumbers(a: number, b: number): number {
+    return a < b ? -1 : a > b ? 1 : 0;
+}
+
+function compareRelease(a: number[], b: number[]): number {
+    const length = Math.max(a.length, b.length);
+    for (let i = 0; i < length; i++) {
+        const result = compareNumbers(a[i] || 0, b[i] || 0);
+        if (result !== 0) {
+            return result;
+        }
+    }
+    return 0;
+}
+
+const PRE_RELEASE_ORDER = ['a', 'b', 'rc'];
+
+function compareLocal(a?: Array<string | number>, b?: Array<string | number>): number {
+    if (!a || !b) {
+        return a ? 1 : b ? -1 : 0;
+    }
+
+    for (let i = 0; i < Math.max(a.length, b.length); i++) {
+        if (a[i] === undefined || b[i] === undefined) {
+            return a[i] === undefined ? -1 : 1;
+        }
+        if (typeof a[i] !== typeof b[i]) {
+            // Numeric segments sort after alphanumeric ones
+            return typeof a[i] === 'number' ? 1 : -1;
+        }
+        if (a[i] !== b[i]) {
+            return a[i] < b[i] ? -1 : 1;
+        }
+    }
+    return 0;
+}
+
+function comparePhases(a: ParsedVersion, b: ParsedVersion): number {
+    // A dev release of a final version sorts before its pre-releases
+    const preKey = (v: ParsedVersion): number[] => {
+        if (v.pre) {
+            return [PRE_RELEASE_ORDER.indexOf(v.pre[0]), v.pre[1]];
+        }
+        return v.dev !== undefined && v.post === undefined ? [-1, 0] : [Infinity, 0];
+    };
+
+    const [aPre, bPre] = [preKey(a), preKey(b)];
+    const result = compareNumbers(aPre[0], bPre[0]) || compareNumbers(aPre[1], bPre[1]);
+    if (result !== 0) {
+        return result;
+    }
+
+    return compareNumbers(a.post ?? -1, b.post ?? -1)
+        || compareNumbers(a.dev ?? Infinity, b.dev ?? Infinity);
+}
+
+/**
+ * Compare two parsed versions, returning a negative number when a sorts before b
+ */
+export function compareParsedVersions(a: ParsedVersion, b: ParsedVersion): number {
+    return compareNumbers(a.epoch, b.epoch)
+        || compareRelease(a.release, b.release)
+        || comparePhases(a, b)
+        || compareLocal(a.local, b.local);
+}
+
+/**
+ * Compare two version strings. Versions that are not PEP 440 compliant
+ * sort before compliant ones and are compared as plain strings.
+ */
+export function compareVersions(a: string, b: string): number {
+    const [parsedA, parsedB] = [parseVersion(a), parseVersion(b)];
+    if (parsedA && parsedB) {
+        return compareParsedVersions(parsedA, parsedB);
+    }
+    if (parsedA || parsedB) {
+        return parsedA ? 1 : -1;
+    }
+    return a.localeCompare(b);
+}
+
+function withoutLocal(version: ParsedVersion): ParsedVersion {
+    return { ...version, local: undefined };
+}
+
+function sameRelease(a: ParsedVersion, b: ParsedVersion): boolean {
+    return a.epoch === b.epoch && compareRelease(a.release, b.release) === 0;
+}
+
+function matchesPrefix(candidate: ParsedVersion, prefix: string): boolean {
+    const parsedPrefix = parseVersion(prefix);
+    if (!parsedPrefix || candidate.epoch !== parsedPrefix.epoch) {
+        return false;
+    }
+    return parsedPrefix.release.every((part, i) => (candidate.release[i] || 0) === part);
+}
+
+/**
+ * Check whether a version matches a single specifier such as ">=1.2" or "==2.*".
+ * Pre-releases are accepted, since this is used to check versions that are already installed.
+ */
+export function satisfiesSpecifier(version: string, operator: string, specVersion: string): boolean {
+    if (operator === '===') {
+        return version.trim().toLowerCase() === specVersion.trim().toLowerCase();
+    }
+
+    const candidate = parseVersion(version);
+    if (!candidate) {
+        return false;
+    }
+
+    if ((operator === '==' || operator === '!=') && specVersion.endsWith('.*')) {
+        const matches = matchesPrefix(candidate, specVersion.slice(0, -2));
+        return operator === '==' ? matches : !matches;
+    }
+
+    const spec = parseVersion(specVersion);
+    if (!spec) {
+        return false;
+    }
+
+    // Local version labels only take part when the specifier has one
+    const comparable = spec.local ? candidate : withoutLocal(candidate);
+    const result = compareParsedVersions(comparable, spec);
+
+    switch (operator) {
+        case '==':
+            return result === 0;
+        case '!=':
+            return result !== 0;
+        case '<=':
+            return result <= 0;
+        case '>=':
+            return result >= 0;
+        case '<':
+            // "<V" does not match pre-releases of V itself unless V is a pre-release
+            return result < 0 && !(spec.pre === undefined && spec.dev === undefined
+                && (candidate.pre !== undefined || candidate.dev !== undefined) && sameRelease(candidate, spec));
+        case '>':
+            // ">V" does not match post-releases or local versions of V itself
+            return compareParsedVersions(withoutLocal(candidate), spec) > 0
+                && !(spec.post === undefined && candidate.post !== undefined && sameRelease(candidate, spec));
+        case '~=': {
+            if (spec.release.length < 2) {
+                return false;
+            }
+            const prefix = spec.release.slice(0, -1).join('.');
+            return result >= 0 && matchesPrefix(candidate, `${spec.epoch ? `${spec.epoch}!` : ''}${prefix}`);
+        }
+        default:
+            return false;
+    }
+}
+
+/**
+ * Check whether a version matches every specifier in a list
+ */
+export function satisfiesAll(version: string, specifiers: Array<{ operator: string, version: string }>): boolean {
+    return specifiers.every(spec => satisfiesSpecifier(version, spec.operator, spec.version));
+}
@@ -0,0 +1,379 @@
+import { compareVersions, parseVersion, satisfiesSpecifier } from './pep440';
+
+/**
+ * Dependency specifiers and environment markers as described in PEP 508
+ */
+
+export interface VersionSpecifier {
+    operator: string;
+    version: string;
+}
+
+export interface Requirement {
+    name: string;
+    extras: string[];
+    specifiers: VersionSpecifier[];
+    url?: string;
+    marker?: string;
+}
+
+/**
+ * Values of the marker variables for one interpreter, keyed by variable name
+ */
+export type MarkerEnvironment = { [variable: string]: string };
+
+export class RequirementParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'RequirementParseError';
+    }
+}
+
+const NAME_PATTERN = /^([A-Za-z0-9](?:[A-Za-z0-9._-]*[A-Za-z0-9])?)/;
+const SPECIFIER_PATTERN = /^(===|~=|==|!=|<=|>=|<|>)\s*([^\s,;()]+)/;
+const MARKER_VARIABLES = [
+    'python_version', 'python_full_version', 'os_name', 'sys_platform', 'platform_release',
+    'platform_system', 'platform_version', 'platform_machine', 'platform_python_implementation',
+    'implementation_name', 'implementation_version', 'extra',
+    // Legacy names still found in older metadata
+    'os.name', 'sys.platform', 'platform.version', 'platform.machine', 'platform.python_implementation', 'python_implementation'
+];
+
+/**
+ * Parse a dependency specifier such as `requests[socks]>=2.0; python_version >= "3.8"`
+ */
+export function parseRequirement(text: string): Requirement {
+    const input = text.trim();
+    let position = 0;
+
+    const skipWhitespace = () => {
+        while (position < input.length && /\s/.test(input[position])) {
+            position++;
+        }
+    };
+    const fail = (message: string): never => {
+        throw new RequirementParseError(`Invalid requirement '${input}': ${message}`);
+    };
+
+    const nameMatch = NAME_PATTERN.exec(input);
+    if (!nameMatch) {
+        fail('expected a package name');
+    }
+    const requirement: Requirement = { name: nameMatch![1], extras: [], specifiers: [] };
+    position = nameMatch![1].length;
+    skipWhitespace();
+
+    // Extras
+    if (input[position] === '[') {
+        const end = input.indexOf(']', position);
+        if (end < 0) {
+            fail('unterminated extras');
+        }
+        const extras = input.substring(position + 1, end).split(',').map(extra => extra.trim()).filter(extra => extra);
+        for (const extra of extras) {
+            if (!NAME_PATTERN.test(extra) || NAME_PATTERN.exec(extra)![1] !== extra) {
+                fail(`invalid extra '${extra}'`);
+            }
+        }
+        requirement.extras = extras;
+        position = end + 1;
+        skipWhitespace();
+    }
+
+    if (input[position] === '@') {
+        // Direct reference: the URL runs until whitespace
+        position++;
+        skipWhitespace();
+        const urlMatch = /^\S+/.exec(input.substring(position));
+        if (!urlMatch || !/^[a-z][a-z0-9+.-]*:/i.test(urlMatch[0])) {
+            fail('expected a URL after @');
+        }
+        requirement.url = urlMatch![0];
+        position += urlMatch![0].length;
+        if (position < input.length && !/\s/.test(input[position - 1]) && !/\s/.test(input[position])) {
+            fail('expected whitespace after the URL');
+        }
+        skipWhitespace();
+    } else {
+        // Version specifiers, optionally in parentheses
+        const parenthesized = input[position] === '(';
+        if (parenthesized) {
+            position++;
+            skipWhitespace();
+        }
+
+        while (position < input.length && input[position] !== ';' && input[position] !== ')') {
+            const match = SPECIFIER_PATTERN.exec(input.substring(position));
+            if (!match) {
+                fail(`unexpected '${input.substring(position)}'`);
+            }
+            requirement.specifiers.push({ operator: match![1], version: validateSpecifierVersion(match![1], match![2], fail) });
+            position += match![0].length;
+            skipWhitespace();
+
+            if (input[position] === ',') {
+                position++;
+                skipWhitespace();
+            } else {
+                break;
+            }
+        }
+
+        if (parenthesized) {
+            if (input[position] !== ')') {
+                fail('expected )');
+            }
+            position++;
+            skipWhitespace();
+        }
+    }
+
+    if (position < input.length) {
+        if (input[position] !== ';') {
+            fail(`unexpected '${input.substring(position)}'`);
+        }
+        const marker = input.substring(position + 1).trim();
+        if (!marker) {
+            fail('empty environment marker');
+        }
+        try {
+            parseMarker(marker);
+        } catch (error) {
+            fail(error instanceof Error ? error.message : String(error));
+        }
+        requirement.marker = marker;
+    }
+
+    return requirement;
+}
+
+/**
+ * Check a requirement typed by the user before it reaches pip. Returns the problem with it,
+ * or undefined for a valid PEP 508 requirement. Input that pip would read as an option,
+ * such as `--index-url` or `-r file`, does not start with a package name and is rejected.
+ */
+export function validateRequirementInput(text: string): string | undefined {
+    if (!text.trim()) {
+        return 'Enter a package name';
+    }
+    try {
+        parseRequirement(text);
+        return undefined;
+    } catch (error) {
+        return error instanceof Error ? error.message : String(error);
+    }
+}
+
+/**
+ * Whether a string is a valid project name, without version or extras
+ */
+export function isValidProjectName(name: string): boolean {
+    return NAME_PATTERN.exec(name)?.[1] === name;
+}
+
+function validateSpecifierVersion(operator: string, version: string, fail: (message: string) => never): string {
+    if (operator === '===') {
+        return version;
+    }
+    const wildcard = version.endsWith('.*');
+    if (wildcard && operator !== '==' && operator !== '!=') {
+        fail(`'${operator}' does not allow a wildcard version`);
+    }
+    if (!parseVersion(wildcard ? version.slice(0, -2) : version)) {
+        fail(`invalid version '${version}'`);
+    }
+    return version;
+}
+
+/**
+ * Format a requirement back into a PEP 508 string
+ */
+export function formatRequirement(requirement: Requirement): string {
+    let result = requirement.name;
+    if (requirement.extras.length) {
+        result += `[${requirement.extras.join(',')}]`;
+    }
+    if (requirement.url) {
+        result += ` @ ${requirement.url}`;
+    } else {
+        result += requirement.specifiers.map(spec => `${spec.operator}${spec.version}`).join(',');
+    }
+    if (requirement.marker) {
+        result += `${requirement.url ? ' ' : ''}; ${requirement.marker}`;
+    }
+    return result;
+}
+
+type MarkerToken = { type: 'string' | 'variable' | 'op' | 'paren' | 'keyword', value: string };
+
+type MarkerNode =
+    { type: 'and' | 'or', left: MarkerNode, right: MarkerNode } |
+    { type: 'compare', left: MarkerToken, op: string, right: MarkerToken };
+
+function tokenizeMarker(marker: string): MarkerToken[] {
+    const tokens: MarkerToken[] = [];
+    const pattern = /\s*(?:("[^"]*"|'[^']*')|(===|==|!=|<=|>=|~=|<|>)|([()])|([A-Za-z_][A-Za-z0-9_.]*))/y;
+    let position = 0;
+
+    while (position < marker.length) {
+        if (/^\s*$/.test(marker.substring(position))) {
+            break;
+        }
+        pattern.lastIndex = position;
+        const match = pattern.exec(marker);
+        if (!match) {
+            throw new RequirementParseError(`invalid environment marker near '${marker.substring(position).trim()}'`);
+        }
+        position = pattern.lastIndex;
+
+        if (match[1]) {
+            tokens.push({ type: 'string', value: match[1].slice(1, -1) });
+        } else if (match[2]) {
+            tokens.push({ type: 'op', value: match[2] });
+        } else if (match[3]) {
+            tokens.push({ type: 'paren', value: match[3] });
+        } else if (['and', 'or', 'in', 'not'].includes(match[4])) {
+            tokens.push({ type: 'keyword', value: match[4] });
+        } else if (MARKER_VARIABLES.includes(match[4])) {
+            tokens.push({ type: 'variable', value: match[4] });
+        } else {
+            throw new RequirementParseError(`unknown marker variable '${match[4]}'`);
+        }
+    }
+
+    return tokens;
+}
+
+/**
+ * Parse an environment marker into an expression tree, throwing on invalid syntax
+ */
+function parseMarker(marker: string): MarkerNode {
+    const tokens = tokenizeMarker(marker);
+    let index = 0;
+
+    const peek = () => tokens[index];
+    const expectValue = (): MarkerToken => {
+        const token = tokens[index++];
+        if (!token || (token.type !== 'string' && token.type !== 'variable')) {
+            throw new RequirementParseError(`expected a marker variable or string in '${marker}'`);
+        }
+        return token;
+    };
+
+    const parseOr = (): MarkerNode => {
+        let node = parseAnd();
+        while (peek()?.type === 'keyword' && peek().value === 'or') {
+            index++;
+            node = { type: 'or', left: node, right: parseAnd() };
+        }
+        return node;
+    };
+
+    const parseAnd = (): MarkerNode => {
+        let node = parseExpression();
+        while (peek()?.type === 'keyword' && peek().value === 'and') {
+            index++;
+            node = { type: 'and', left: node, right: parseExpression() };
+        }
+        return node;
+    };
+
+    const parseExpression = (): MarkerNode => {
+        if (peek()?.type === 'paren' && peek().value === '(') {
+            index++;
+            const node = parseOr();
+            if (peek()?.value !== ')') {
+                throw new RequirementParseError(`expected ) in '${marker}'`);
+            }
+            index++;
+            return node;
+        }
+
+        const left = expectValue();
+        let op: string;
+        const token = tokens[index++];
+        if (token?.type === 'op') {
+            op = token.value;
+        } else if (token?.type === 'keyword' && token.value === 'in') {
+            op = 'in';
+        } else if (token?.type === 'keyword' && token.value === 'not' && peek()?.value === 'in') {
+            index++;
+            op = 'not in';
+        } else {
+            throw new RequirementParseError(`expected a comparison in '${marker}'`);
+        }
+        return { type: 'compare', left, op, right: expectValue() };
+    };
+
+    const tree = parseOr();
+    if (index < tokens.length) {
+        throw new RequirementParseError(`unexpected '${tokens[index].value}' in '${marker}'`);
+    }
+    return tree;
+}
+
+const LEGACY_VARIABLES: { [name: string]: string } = {
+    'os.name': 'os_name',
+    'sys.platform': 'sys_platform',
+    'platform.version': 'platform_version',
+    'platform.machine': 'platform_machine',
+    'platform.python_implementation': 'platform_python_implementation',
+    'python_implementation': 'platform_python_implementation'
+};
+
+function evaluateNode(node: MarkerNode, environment: MarkerEnvironment): boolean {
+    if (node.type !== 'compare') {
+        return node.type === 'and'
+            ? evaluateNode(node.left, environment) && evaluateNode(node.right, environment)
+            : evaluateNode(node.left, environment) || evaluateNode(node.right, environment);
+    }
+
+    const resolve = (token: MarkerToken) => token.type === 'variable'
+        ? environment[LEGACY_VARIABLES[token.value] || token.value] ?? ''
+        : token.value;
+    const left = resolve(node.left);
+    const right = resolve(node.right);
+
+    switch (node.op) {
+        case 'in':
+            return right.includes(left);
+        case 'not in':
+            return !right.includes(left);
+    }
+
+    // Extras compare by normalized name
+    if (node.left.value === 'extra' || node.right.value === 'extra') {
+        const normalize = (value: string) => value.replace(/[-_.]+/g, '-').toLowerCase();
+        return node.op === '==' ? normalize(left) === normalize(right)
+            : node.op === '!=' ? normalize(left) !== normalize(right)
+            : false;
+    }
+
+    // Use version semantics when the right-hand side is a version, as packaging does
+    if (parseVersion(right) && parseVersion(left)) {
+        return satisfiesSpecifier(left, node.op, right);
+    }
+
+    switch (node.op) {
+        case '==':
+        case '===':
+            return left === right;
+        case '!=':
+            return left !== right;
+        default: {
+            const result = compareVersions(left, right);
+            return node.op === '<' ? result < 0
+                : node.op === '<=' ? result <= 0
+                : node.op === '>' ? result > 0
+                : node.op === '>=' ? result >= 0
+                : false;
+        }
+    }
+}
+
+/**
+ * Evaluate an environment marker against the given marker environment
+ */
+export function evaluateMarker(marker: string, environment: MarkerEnvironment): boolean {
+    return evaluateNode(parseMarker(marker), environment);
+}
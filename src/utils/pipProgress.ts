@@ -0,0 +1,126 @@
+import * as vscode from 'vscode';
+
+/**
+ * The phases of a pip run, in the order pip goes through them
+ */
+export type PipPhase = 'collecting' | 'downloading' | 'building' | 'installing' | 'uninstalling' | 'done';
+
+export const PIP_PHASE_LABELS: { [phase in PipPhase]: string } = {
+    collecting: 'Collecting',
+    downloading: 'Downloading',
+    building: 'Building',
+    installing: 'Installing',
+    uninstalling: 'Uninstalling',
+    done: 'Finished'
+};
+
+export interface PipProgressUpdate {
+    phase: PipPhase;
+    message: string;
+    // 0 to 100, never going down during a run
+    percent: number;
+}
+
+/**
+ * What a caller can do with a running pip operation: cancel it, and follow its progress
+ */
+export interface PipOperation {
+    token?: vscode.CancellationToken;
+    onProgress?: (update: PipProgressUpdate) => void;
+    // Cancel the token from elsewhere, such as the Queue view
+    cancel?: () => void;
+}
+
+// Share of the bar each phase ends at. Resolving takes an unknown number of packages,
+// so each package collected, and each file downloaded, takes part of what is left of its share.
+const COLLECTING_END = 40;
+const COLLECT_STEP = 0.15;
+const DOWNLOAD_STEP = 0.5;
+const BUILDING_END = 70;
+const INSTALLING_START = 80;
+
+/**
+ * Turn pip's output into phases and a percentage. pip prints a line per step:
+ * "Collecting x", "Downloading x.whl", "Building wheel for x", "Installing collected
+ * packages: x, y" and "Successfully installed x y", or "Uninstalling x" when removing.
+ * While downloading, pip 24.1 and later print "Progress 1048576 of 3146822" with
+ * --progress-bar raw; older ones print their bar, "━━━━ 1.2/3.1 MB", when it redraws.
+ */
+export class PipProgressParser {
+    private _partial = '';
+    private _percent = 0;
+    // How far resolving has got, unrounded
+    private _resolved = 0;
+    // The file being downloaded, and where resolving was when its download started
+    private _download?: { detail: string, start: number };
+    private _wheelsToBuild = 0;
+    private _wheelsBuilt = 0;
+    private _uninstalled = 0;
+
+    /**
+     * @param uninstallCount the number of packages an uninstall removes, which pip does not print up front
+     */
+    constructor(private onUpdate: (update: PipProgressUpdate) => void, private uninstallCount = 0) {}
+
+    /**
+     * Feed a chunk of pip's output, which may end in the middle of a line
+     */
+    push(chunk: string): void {
+        const lines = (this._partial + chunk).split(/\r\n|\r|\n/);
+        this._partial = lines.pop() || '';
+        lines.forEach(line => this.parseLine(line.trim()));
+    }
+
+    private parseLine(line: string): void {
+        let match: RegExpMatchArray | null;
+
+        if ((match = line.match(/^(?:Collecting|Requirement already satisfied:) (\S+)/))) {
+            this._resolved += (COLLECTING_END - this._resolved) * COLLECT_STEP;
+            this.report('collecting', match[1], this._resolved);
+        } else if ((match = line.match(/^Downloading (\S+)(?: \((.+)\))?/))) {
+            const name = match[1].split('/').pop()!;
+            this._download = { detail: match[2] ? `${name} (${match[2]})` : name, start: this._resolved };
+            this.report('downloading', this._download.detail, this._percent);
+        } else if ((match = line.match(/^Progress (\d+) of (\d+)$/))) {
+            this.reportDownload(Number(match[1]), Number(match[2]));
+        } else if ((match = line.match(/^[━╸╺\s]+([\d.]+)\/([\d.]+) \w+/))) {
+            this.reportDownload(Number(match[1]), Number(match[2]));
+        } else if ((match = line.match(/^Building wheels for collected packages: (.+)$/))) {
+            this._wheelsToBuild = match[1].split(',').length;
+            this.report('building', match[1], COLLECTING_END);
+        } else if ((match = line.match(/^Building wheel for (\S+)/)) && !line.includes(': finished')) {
+            const share = this._wheelsToBuild ? this._wheelsBuilt / this._wheelsToBuild : 0;
+            this._wheelsBuilt++;
+            this.report('building', match[1], COLLECTING_END + (BUILDING_END - COLLECTING_END) * share);
+        } else if ((match = line.match(/^Installing collected packages: (.+)$/))) {
+            this.report('installing', match[1], INSTALLING_START);
+        } else if ((match = line.match(/^Uninstalling (\S+?):?$/))) {
+            // Upgrades uninstall the old versions while installing, which leaves the percentage as it is
+            const percent = this.uninstallCount ? 100 * this._uninstalled / this.uninstallCount : this._percent;
+            this.report('uninstalling', match[1], percent);
+        } else if ((match = line.match(/^Successfully uninstalled (\S+)/)) && this.uninstallCount) {
+            this._uninstalled++;
+            const done = this._uninstalled >= this.uninstallCount;
+            this.report(done ? 'done' : 'uninstalling', match[1], 100 * this._uninstalled / this.uninstallCount);
+        } else if ((match = line.match(/^Successfully installed (.+)$/))) {
+            this.report('done', match[1], 100);
+        }
+    }
+
+    /**
+     * Move through the part of the collecting share that the file being downloaded takes
+     */
+    private reportDownload(received: number, total: number): void {
+        if (!this._download || !total) {
+            return;
+        }
+        const { detail, start } = this._download;
+        this._resolved = start + (COLLECTING_END - start) * DOWNLOAD_STEP * Math.min(received / total, 1);
+        this.report('downloading', detail, this._resolved);
+    }
+
+    private report(phase: PipPhase, detail: string, percent: number): void {
+        this._percent = Math.max(this._percent, Math.round(percent));
+        this.onUpdate({ phase, message: `${PIP_PHASE_LABELS[phase]} ${detail}`, percent: this._percent });
+    }
+}
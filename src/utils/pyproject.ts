@@ -0,0 +1,437 @@
+import * as vscode from 'vscode';
+import { normalizePackageName } from './dependencyGraph';
+import { parseRequirement } from './pep508';
+
+/**
+ * Group name used for [project.dependencies]; optional dependency
+ * groups use their key in [project.optional-dependencies]
+ */
+export const MAIN_DEPENDENCY_GROUP = 'main';
+
+export interface PyprojectDependencies {
+    hasProjectTable: boolean;
+    groups: { [group: string]: string[] };
+}
+
+export class PyprojectError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'PyprojectError';
+    }
+}
+
+interface TomlString {
+    value: string;
+    start: number;
+    end: number;
+}
+
+interface TomlArray {
+    path: string;
+    start: number;
+    end: number;
+    items: TomlString[];
+}
+
+interface TomlTable {
+    name: string;
+    start: number;
+    end: number;
+}
+
+interface TomlDocument {
+    tables: TomlTable[];
+    arrays: TomlArray[];
+}
+
+/**
+ * Split a dotted TOML key or table name into its parts, removing quotes
+ */
+function keyParts(key: string): string[] {
+    const parts: string[] = [];
+    const pattern = /\s*(?:"((?:[^"\\]|\\.)*)"|'([^']*)'|([A-Za-z0-9_-]+))\s*(?:\.|$)/y;
+    let match: RegExpExecArray | null;
+    while (pattern.lastIndex < key.length && (match = pattern.exec(key)) !== null) {
+        parts.push(match[1] ?? match[2] ?? match[3]);
+    }
+    return parts;
+}
+
+/**
+ * Just enough of a TOML scanner to locate tables and string arrays with their offsets,
+ * so that edits can be applied without reformatting the rest of the file
+ */
+function scanToml(content: string): TomlDocument {
+    const tables: TomlTable[] = [{ name: '', start: 0, end: content.length }];
+    const arrays: TomlArray[] = [];
+    let i = 0;
+
+    const skipToLineEnd = () => {
+        while (i < content.length && content[i] !== '\n') {
+            i++;
+        }
+    };
+
+    const readString = (): TomlString => {
+        const start = i;
+        const quote = content[i];
+        const triple = content.substr(i, 3) === quote.repeat(3);
+        const delimiter = triple ? quote.repeat(3) : quote;
+        i += delimiter.length;
+
+        while (i < content.length && content.substr(i, delimiter.length) !== delimiter) {
+            i += quote === '"' && content[i] === '\\' ? 2 : 1;
+        }
+        i += delimiter.length;
+
+        const raw = content.substring(start + delimiter.length, i - delimiter.length);
+        let value = raw;
+        if (quote === '"') {
+            try {
+                value = JSON.parse(`"${raw.replace(/\n/g, '\\n')}"`);
+            } catch (error) {
+                // Keep escapes JSON does not know as they are
+            }
+        }
+        return { value, start, end: i };
+    };
+
+    // Skip over a value, recording it when it is an array of strings
+    const readValue = (path: string) => {
+        if (content[i] === '"' || content[i] === '\'') {
+            readString();
+            return;
+        }
+        if (content[i] !== '[' && content[i] !== '{') {
+            while (i < content.length && content[i] !== '\n' && content[i] !== '#') {
+                i++;
+            }
+            return;
+        }
+
+        const start = i;
+        const stack: string[] = [];
+        const items: TomlString[] = [];
+
+        while (i < content.length) {
+            const c = content[i];
+            if (c === '"' || c === '\'') {
+                const str = readString();
+                if (stack.length === 1 && stack[0] === '[') {
+                    items.push(str);
+                }
+                continue;
+            }
+            if (c === '#') {
+                skipToLineEnd();
+                continue;
+            }
+            if (c === '[' || c === '{') {
+                stack.push(c);
+            } else if (c === ']' || c === '}') {
+                stack.pop();
+                if (!stack.length) {
+                    if (c === ']') {
+                        arrays.push({ path, start, end: i, items });
+                    }
+                    i++;
+                    return;
+                }
+            }
+            i++;
+        }
+    };
+
+    while (i < content.length) {
+        const c = content[i];
+        if (c === ' ' || c === '\t' || c === '\r' || c === '\n') {
+            i++;
+            continue;
+        }
+        if (c === '#') {
+            skipToLineEnd();
+            continue;
+        }
+
+        if (c === '[') {
+            // Table header, possibly an array of tables
+            const start = i;
+            const arrayTable = content[i + 1] === '[';
+            const close = content.indexOf(arrayTable ? ']]' : ']', i);
+            const name = keyParts(content.substring(i + (arrayTable ? 2 : 1), close < 0 ? content.length : close)).join('.');
+            tables[tables.length - 1].end = start;
+            tables.push({ name, start, end: content.length });
+            i = close < 0 ? content.length : close;
+            skipToLineEnd();
+            continue;
+        }
+
+        // Key/value pair
+        const equals = content.indexOf('=', i);
+        const lineEnd = content.indexOf('\n', i);
+        if (equals < 0 || (lineEnd >= 0 && equals > lineEnd)) {
+            skipToLineEnd();
+            continue;
+        }
+
+        const table = tables[tables.length - 1].name;
+        const key = keyParts(content.substring(i, equals)).join('.');
+        i = equals + 1;
+        while (content[i] === ' ' || content[i] === '\t') {
+            i++;
+        }
+        readValue(table ? `${table}.${key}` : key);
+        skipToLineEnd();
+    }
+
+    return { tables, arrays };
+}
+
+const OPTIONAL_PREFIX = 'project.optional-dependencies.';
+
+/**
+ * Read [project.dependencies] and [project.optional-dependencies] from pyproject.toml content
+ */
+export function parsePyprojectDependencies(content: string): PyprojectDependencies {
+    const document = scanToml(content);
+    const groups: { [group: string]: string[] } = {};
+
+    for (const array of document.arrays) {
+        if (array.path === 'project.dependencies') {
+            groups[MAIN_DEPENDENCY_GROUP] = array.items.map(item => item.value);
+        } else if (array.path.startsWith(OPTIONAL_PREFIX)) {
+            groups[array.path.substring(OPTIONAL_PREFIX.length)] = array.items.map(item => item.value);
+        }
+    }
+
+    return {
+        hasProjectTable: document.tables.some(table => table.name === 'project'),
+        groups
+    };
+}
+
+function requirementKey(spec: string): string | undefined {
+    try {
+        return normalizePackageName(parseRequirement(spec).name);
+    } catch (error) {
+        return undefined;
+    }
+}
+
+/**
+ * Get the dependency groups that declare a package
+ */
+export function getDependencyGroups(dependencies: PyprojectDependencies, packageName: string): string[] {
+    const key = normalizePackageName(packageName);
+    return Object.keys(dependencies.groups).filter(group =>
+        dependencies.groups[group].some(spec => requirementKey(spec) === key));
+}
+
+function arrayPath(group: string): string {
+    return group === MAIN_DEPENDENCY_GROUP ? 'project.dependencies' : `${OPTIONAL_PREFIX}${group}`;
+}
+
+function formatKey(key: string): string {
+    return /^[A-Za-z0-9_-]+$/.test(key) ? key : JSON.stringify(key);
+}
+
+function newArray(key: string, spec: string): string {
+    return `${formatKey(key)} = [\n    ${JSON.stringify(spec)},\n]\n`;
+}
+
+/**
+ * Offset right after the last non-blank line of a table, where new keys are appended
+ */
+function tableInsertPosition(content: string, table: TomlTable): number {
+    let end = table.end;
+    while (end > table.start && /\s/.test(content[end - 1])) {
+        end--;
+    }
+    const lineEnd = content.indexOf('\n', end);
+    return lineEnd < 0 ? content.length : lineEnd + 1;
+}
+
+function insertIntoArray(content: string, array: TomlArray, spec: string): string {
+    const value = JSON.stringify(spec);
+    const last = array.items[array.items.length - 1];
+
+    if (!last) {
+        return `${content.substring(0, array.start)}[\n    ${value},\n]${content.substring(array.end + 1)}`;
+    }
+
+    const multiline = content.substring(array.start, array.end).includes('\n');
+    if (!multiline) {
+        return `${content.substring(0, last.end)}, ${value}${content.substring(last.end)}`;
+    }
+
+    const lineStart = content.lastIndexOf('\n', last.start) + 1;
+    const indent = /^[ \t]*/.exec(content.substring(lineStart))![0];
+    const comma = /^[ \t]*,/.exec(content.substring(last.end, array.end));
+    // Keep the trailing comma style of the array
+    const separator = comma ? '' : ',';
+    const trailing = comma ? ',' : '';
+
+    const lineEnd = content.indexOf('\n', last.end);
+    if (lineEnd < 0 || lineEnd > array.end) {
+        // The closing bracket is on the last item's line
+        const position = last.end + (comma ? comma[0].length : 0);
+        return `${content.substring(0, position)}${separator}\n${indent}${value}${trailing}${content.substring(position)}`;
+    }
+    // The new item goes on the next line, so a comment after the last item stays with it
+    return `${content.substring(0, last.end)}${separator}${content.substring(last.end, lineEnd + 1)}${indent}${value}${trailing}\n${content.substring(lineEnd + 1)}`;
+}
+
+function removeFromArray(content: string, item: TomlString): string {
+    const lineStart = content.lastIndexOf('\n', item.start - 1) + 1;
+    const before = content.substring(lineStart, item.start);
+    const rest = content.substring(item.end);
+    const trailing = /^[ \t]*,?[ \t]*(#[^\n]*)?(\r?\n|$)/.exec(rest);
+
+    // An item on its own line is removed together with the line
+    if (/^[ \t]*$/.test(before) && trailing) {
+        return content.substring(0, lineStart) + rest.substring(trailing[0].length);
+    }
+
+    const followingComma = /^\s*,\s*/.exec(rest);
+    if (followingComma) {
+        return content.substring(0, item.start) + rest.substring(followingComma[0].length);
+    }
+    const precedingComma = /,\s*$/.exec(content.substring(0, item.start));
+    const start = precedingComma ? item.start - precedingComma[0].length : item.start;
+    return content.substring(0, start) + rest;
+}
+
+/**
+ * Add or replace a dependency spec in a group, returning the new file content
+ */
+export function addDependencyToContent(content: string, spec: string, group: string = MAIN_DEPENDENCY_GROUP): string {
+    const key = requirementKey(spec);
+    if (!key) {
+        throw new PyprojectError(`'${spec}' is not a valid dependency specifier`);
+    }
+
+    const document = scanToml(content);
+    const array = document.arrays.find(a => a.path === arrayPath(group));
+
+    if (array) {
+        // Replace an existing entry for the same package instead of adding a duplicate
+        const existing = array.items.find(item => requirementKey(item.value) === key);
+        if (existing) {
+            return `${content.substring(0, existing.start)}${JSON.stringify(spec)}${content.substring(existing.end)}`;
+        }
+        return insertIntoArray(content, array, spec);
+    }
+
+    const projectTable = document.tables.find(table => table.name === 'project');
+    if (!projectTable) {
+        throw new PyprojectError('pyproject.toml has no [project] table');
+    }
+
+    if (group === MAIN_DEPENDENCY_GROUP) {
+        const position = tableInsertPosition(content, projectTable);
+        return `${content.substring(0, position)}${newArray('dependencies', spec)}${content.substring(position)}`;
+    }
+
+    const optionalTable = document.tables.find(table => table.name === 'project.optional-dependencies');
+    if (optionalTable) {
+        const position = tableInsertPosition(content, optionalTable);
+        return `${content.substring(0, position)}${newArray(group, spec)}${content.substring(position)}`;
+    }
+
+    const separator = content.endsWith('\n') ? '\n' : '\n\n';
+    return `${content}${separator}[project.optional-dependencies]\n${newArray(group, spec)}`;
+}
+
+/**
+ * Remove every spec for a package, returning the new content and the groups it was removed from
+ */
+export function removeDependencyFromContent(content: string, packageName: string): { content: string, groups: string[] } {
+    const key = normalizePackageName(packageName);
+    const groups: string[] = [];
+
+    // Remove one item at a time, since every removal shifts the offsets
+    for (;;) {
+        const document = scanToml(content);
+        let removed = false;
+
+        for (const array of document.arrays) {
+            const group = array.path === 'project.dependencies' ? MAIN_DEPENDENCY_GROUP
+                : array.path.startsWith(OPTIONAL_PREFIX) ? array.path.substring(OPTIONAL_PREFIX.length)
+                : undefined;
+            const item = group !== undefined ? array.items.find(i => requirementKey(i.value) === key) : undefined;
+
+            if (group !== undefined && item) {
+                content = removeFromArray(content, item);
+                if (!groups.includes(group)) {
+                    groups.push(group);
+                }
+                removed = true;
+                break;
+            }
+        }
+
+        if (!removed) {
+            return { content, groups };
+        }
+    }
+}
+
+/**
+ * Find the pyproject.toml of a workspace folder, or of the first workspace folder that has one
+ */
+export async function findPyprojectFile(only?: vscode.WorkspaceFolder): Promise<vscode.Uri | undefined> {
+    for (const folder of only ? [only] : vscode.workspace.workspaceFolders || []) {
+        const uri = vscode.Uri.joinPath(folder.uri, 'pyproject.toml');
+        try {
+            await vscode.workspace.fs.stat(uri);
+            return uri;
+        } catch (error) {
+            // No pyproject.toml in this folder
+        }
+    }
+    return undefined;
+}
+
+/**
+ * Read the dependency tables of a pyproject.toml, including unsaved editor changes
+ */
+export async function readPyprojectDependencies(uri: vscode.Uri): Promise<PyprojectDependencies> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    return parsePyprojectDependencies(document.getText());
+}
+
+async function applyEdit(uri: vscode.Uri, update: (content: string) => string): Promise<void> {
+    const document = await vscode.workspace.openTextDocument(uri);
+    const content = document.getText();
+    const newContent = update(content);
+    if (newContent === content) {
+        return;
+    }
+
+    const edit = new vscode.WorkspaceEdit();
+    edit.replace(uri, new vscode.Range(document.positionAt(0), document.positionAt(content.length)), newContent);
+    if (!await vscode.workspace.applyEdit(edit)) {
+        throw new PyprojectError(`Could not edit ${uri.fsPath}`);
+    }
+    await document.save();
+}
+
+/**
+ * Add a dependency spec to a group of the pyproject.toml
+ */
+export async function addPyprojectDependency(uri: vscode.Uri, spec: string, group: string = MAIN_DEPENDENCY_GROUP): Promise<void> {
+    await applyEdit(uri, content => addDependencyToContent(content, spec, group));
+}
+
+/**
+ * Remove a package from every dependency group of the pyproject.toml
+ */
+export async function removePyprojectDependency(uri: vscode.Uri, packageName: string): Promise<string[]> {
+    let groups: string[] = [];
+    await applyEdit(uri, content => {
+        const result = removeDependencyFromContent(content, packageName);
+        groups = result.groups;
+        return result.content;
+    });
+    return groups;
+}
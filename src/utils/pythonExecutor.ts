@@ -3,6 +3,35 @@ import * as cp from 'child_process';
 import * as path from 'path';
 import * as os from 'os';
 import * as fs from 'fs';
+import { DependencyGraph, PACKAGING_TOOLS, buildDependencyGraph, normalizePackageName } from './dependencyGraph';
+import { ENVIRONMENT_INFO_SCRIPT, MARKER_ENVIRONMENT_SCRIPT, MODULE_MAP_SCRIPT, PACKAGE_METADATA_SCRIPT } from './pythonScripts';
+import { ModuleMap } from './importScanner';
+import { MarkerEnvironment, isValidProjectName, validateRequirementInput } from './pep508';
+import { compareVersions } from './pep440';
+import { toFrozenPackage } from './environmentExport';
+import { SnapshotStore } from './snapshotStore';
+import {
+    DiscoveredEnvironment,
+    EnvironmentKind,
+    discoverEnvironments,
+    environmentInterpreter,
+    isDisposableEnvironment
+} from './environmentDiscovery';
+import {
+    EnvironmentDetails,
+    countInstalledDistributions,
+    detailsFromPyvenvConfig,
+    directorySize,
+    findBaseInterpreter,
+    environmentCreationTime,
+    readPyvenvConfig
+} from './environmentDetails';
+import { getPythonEnvironmentsApi } from './pythonExtension';
+import { InterpreterInfo, findInterpreterCandidates, findOnPath, parsePyLauncherList } from './interpreters';
+import { condaEnvironments, findCondaExecutable, readCondaEnvironmentPrefixes, readCondaPackageNames } from './conda';
+import { CommandExecutor, getCommandExecutor, localCommandExecutor, targetInterpreter } from './commandExecutors';
+import { PipOperation, PipProgressParser } from './pipProgress';
+import { OperationQueue } from './operationQueue';
 
 export interface PackageInfo {
     name: string;
@@ -10,20 +39,116 @@ export interface PackageInfo {
     latest?: string;
     description?: string;
     hasUpdate?: boolean;
+    requires?: string[];
+    requiredBy?: string[];
+    location?: string;
+    installer?: string;
+    directUrl?: DirectUrlInfo | null;
+    license?: LicenseMetadata;
 }
 
-export interface EnvironmentInfo {
+/**
+ * What a distribution's metadata says about its license: the PEP 639 License-Expression,
+ * the free-form License field and the "License ::" trove classifiers
+ */
+export interface LicenseMetadata {
+    expression: string;
+    text: string;
+    classifiers: string[];
+}
+
+/**
+ * Origin of a package installed from a URL, VCS checkout or local directory (PEP 610)
+ */
+export interface DirectUrlInfo {
+    url: string;
+    editable?: boolean;
+    vcs?: string;
+    commitId?: string;
+    hashes?: { [algorithm: string]: string };
+}
+
+/**
+ * A package pip would install or replace, taken from its --dry-run --report output
+ */
+export interface InstallPreviewItem {
+    name: string;
+    version: string;
+    currentVersion?: string;
+    requested: boolean;
+    action: 'install' | 'upgrade' | 'downgrade' | 'reinstall';
+}
+
+/**
+ * An environment, with the details of getEnvironmentDetails once they have been read
+ */
+export interface EnvironmentInfo extends EnvironmentDetails {
     name: string;
     path: string;
+    kind: EnvironmentKind;
     isActive: boolean;
+    // Id of the command executor of a remote target; local environments have none
+    target?: string;
+}
+
+/**
+ * The tool that creates a virtual environment
+ */
+export type EnvironmentBackend = 'venv' | 'virtualenv' | 'uv';
+
+export interface CreateEnvironmentOptions {
+    name: string;
+    // Folder the environment is created in
+    folder: string;
+    // The default interpreter when not given
+    interpreter?: string;
+    backend?: EnvironmentBackend;
+    systemSitePackages?: boolean;
+    // Upgrade pip and setuptools to their latest versions
+    upgradeDeps?: boolean;
+    prompt?: string;
+}
+
+/**
+ * How closely a rebuilt environment matches the packages of the original: the exact
+ * versions, or the same packages at versions pip chose because the pins did not install
+ */
+export type PackageTransfer = 'exact' | 'relaxed';
+
+// The first pip that prints download progress as plain lines, with --progress-bar raw
+const RAW_PROGRESS_PIP = '24.1';
+
+/**
+ * Key of an environment's cached details; remote targets may have environments at the same paths
+ */
+function detailsKey(env: EnvironmentInfo): string {
+    return env.target ? `${env.target}:${env.path}` : env.path;
 }
 
 export class PythonExecutor {
     private _currentEnv?: EnvironmentInfo;
     private _outputChannel: vscode.OutputChannel;
+    private _packagesCache?: Promise<PackageInfo[]>;
+    private _moduleMapCache?: Promise<ModuleMap>;
+    private _environmentDetailsCache = new Map<string, Promise<EnvironmentDetails>>();
+    private _pipVersionCache = new Map<string, Promise<string | undefined>>();
+
+    /**
+     * Receives the package set of an environment before Piping changes it
+     */
+    public snapshotStore?: SnapshotStore;
 
-    constructor() {
-        this._outputChannel = vscode.window.createOutputChannel('Piping');
+    /**
+     * Serializes the operations that change an environment, shared by the executors of all folders
+     */
+    public operationQueue?: OperationQueue;
+
+    /**
+     * @param outputChannel Shared with the executors of other workspace folders
+     * @param folder The workspace folder whose environment this executor manages
+     */
+    constructor(outputChannel: vscode.OutputChannel, public readonly folder?: vscode.WorkspaceFolder) {
+        this._outputChannel = outputChannel;
     }
 
     get outputChannel(): vscode.OutputChannel {
@@ -36,6 +161,71 @@ export class PythonExecutor {
 
     set currentEnv(env: EnvironmentInfo | undefined) {
         this._currentEnv = env;
+        this.invalidatePackageCache();
+    }
+
+    /**
+     * Forget the cached package list so the next request reads the environment again
+     */
+    public invalidatePackageCache(): void {
+        this._packagesCache = undefined;
+        this._moduleMapCache = undefined;
+        // An install may have changed pip itself
+        this._pipVersionCache.clear();
+        if (this._currentEnv) {
+            // Package count and size change with the packages
+            this._environmentDetailsCache.delete(detailsKey(this._currentEnv));
+        }
+    }
+
+    /**
+     * Identify the current environment, e.g. to store data per environment
+     */
+    public async getEnvironmentKey(): Promise<string> {
+        if (this._currentEnv?.target) {
+            return `${this._currentEnv.target}:${this._currentEnv.path}`;
+        }
+        return this._currentEnv ? this._currentEnv.path : this.getPythonPath();
+    }
+
+    /**
+     * Run an operation that changes the current environment after the operations queued
+     * before it. An operation whose folder switched to another environment while it waited is dropped.
+     */
+    private async enqueue<T>(label: string, operation: PipOperation | undefined, cancelled: T, execute: (operation?: PipOperation) => Promise<T>): Promise<T> {
+        if (!this.operationQueue) {
+            return execute(operation);
+        }
+        
+        const environmentKey = await this.getEnvironmentKey();
+        return this.operationQueue.run({
+            label,
+            environmentKey,
+            environmentName: this._currentEnv?.name || 'global Python',
+            caller: operation,
+            cancelled,
+            execute: async queued => {
+                if (await this.getEnvironmentKey() !== environmentKey) {
+                    this._outputChannel.appendLine(`Skipped "${label}": the environment was switched while it waited`);
+                    return cancelled;
+                }
+                return execute(queued);
+            }
+        });
+    }
+
+    /**
+     * Record the current package set so the change that follows can be rolled back
+     */
+    private async recordSnapshot(reason: string): Promise<void> {
+        if (!this.snapshotStore) {
+            return;
+        }
+        
+        const packages = await this.getInstalledPackages();
+        if (packages.length) {
+            await this.snapshotStore.record(await this.getEnvironmentKey(), reason, packages.map(pkg => toFrozenPackage(pkg)));
+        }
     }
 
     /**
@@ -44,9 +234,15 @@ export class PythonExecutor {
     public async getPythonPath(): Promise<string> {
         // First try to get from VS Code Python extension
         try {
+            // The interpreter selected in the Python extension, which its debugger and terminals use
+            const activePath = (await getPythonEnvironmentsApi(this._outputChannel))?.getActiveEnvironmentPath(this.folder).path;
+            if (activePath && await this.testPythonPath(activePath)) {
+                return activePath;
+            }
+            
             const pythonExtension = vscode.extensions.getExtension('ms-python.python');
             if (pythonExtension) {
-                const pythonPath = vscode.workspace.getConfiguration('python').get<string>('defaultInterpreterPath');
+                const pythonPath = vscode.workspace.getConfiguration('python', this.folder).get<string>('defaultInterpreterPath');
                 if (pythonPath) {
                     // Test if this path works
                     const result = await this.testPythonPath(pythonPath);
@@ -67,7 +263,7 @@ export class PythonExecutor {
         for (const cmd of pythonCommands) {
             try {
                 const whichCmd = os.platform() === 'win32' ? 'where' : 'which';
-                const { stdout } = await this.executeSystemCommand(`${whichCmd} ${cmd}`);
+                const { stdout } = await this.executeSystemCommand(whichCmd, [cmd]);
                 if (stdout) {
                     const pythonPath = stdout.trim().split('\n')[0];
                     const result = await this.testPythonPath(pythonPath);
@@ -90,7 +286,7 @@ export class PythonExecutor {
      */
     private async testPythonPath(pythonPath: string): Promise<boolean> {
         try {
-            const { stdout } = await this.executeSystemCommand(`"${pythonPath}" --version`);
+            const { stdout } = await this.executeSystemCommand(pythonPath, ['--version']);
             return stdout.toLowerCase().includes('python');
         } catch (error) {
             return false;
@@ -98,13 +294,14 @@ export class PythonExecutor {
     }
 
     /**
-     * Execute a system command and return stdout/stderr
+     * Execute a system command and return stdout/stderr. The arguments are passed as they are,
+     * without a shell, so paths with spaces or quotes need no quoting.
      */
-    private async executeSystemCommand(command: string): Promise<{ stdout: string; stderr: string }> {
+    private async executeSystemCommand(command: string, args: string[]): Promise<{ stdout: string; stderr: string }> {
         return new Promise((resolve, reject) => {
-            cp.exec(command, (error, stdout, stderr) => {
+            cp.execFile(command, args, (error, stdout, stderr) => {
                 if (error && stderr) {
-                    this._outputChannel.appendLine(`Error executing command: ${command}`);
+                    this._outputChannel.appendLine(`Error executing command: ${command} ${args.join(' ')}`);
                     this._outputChannel.appendLine(stderr);
                     reject(error);
                     return;
@@ -115,49 +312,70 @@ export class PythonExecutor {
     }
 
     /**
-     * Execute a command in the specified Python environment
+     * Execute a command in the specified Python environment, on this machine or on the given target.
+     * Cancelling the token stops the process and its children.
      */
-    public async executeCommand(command: string, args: string[], envPath?: string): Promise<string> {
+    public async executeCommand(
+        command: string,
+        args: string[],
+        envPath?: string,
+        input?: string,
+        target: CommandExecutor = localCommandExecutor,
+        token?: vscode.CancellationToken,
+        onOutput?: (chunk: string) => void
+    ): Promise<string> {
+        if (token?.isCancellationRequested) {
+            throw new Error('Cancelled');
+        }
+        
         return new Promise((resolve, reject) => {
             let cmdPath = command;
-            let options: cp.SpawnOptions = { shell: true };
             
             // If environment path is specified, use that for the command
             if (envPath) {
-                // Adjust path based on OS
-                const binDir = os.platform() === 'win32' ? 'Scripts' : 'bin';
-                cmdPath = path.join(envPath, binDir, command);
-                
-                // Add environment variables if needed
-                options.env = { ...process.env };
+                // Adjust path based on the target's OS
+                const isWindows = target.platform === 'win32';
+                cmdPath = (isWindows ? path.win32 : path.posix).join(envPath, isWindows ? 'Scripts' : 'bin', command);
                 
                 // For Windows, we need to add .exe
-                if (os.platform() === 'win32' && !cmdPath.endsWith('.exe')) {
+                if (isWindows && !cmdPath.endsWith('.exe')) {
                     cmdPath += '.exe';
                 }
             }
 
-            this._outputChannel.appendLine(`Executing: ${cmdPath} ${args.join(' ')}`);
+            const where = target.isLocal ? '' : ` on ${target.label}`;
+            this._outputChannel.appendLine(`Executing${where}: ${cmdPath} ${args.join(' ')}`);
             
-            const proc = cp.spawn(cmdPath, args, options);
+            const proc = target.spawn(cmdPath, args);
             
             let stdout = '';
             let stderr = '';
+            let cancelled = false;
+            const cancellation = token?.onCancellationRequested(() => {
+                cancelled = true;
+                this._outputChannel.appendLine(`Cancelling: ${cmdPath}`);
+                target.terminate(proc);
+            });
             
             proc.stdout?.on('data', (data) => {
                 const output = data.toString();
                 stdout += output;
                 this._outputChannel.append(output);
+                onOutput?.(output);
             });
             
             proc.stderr?.on('data', (data) => {
                 const output = data.toString();
                 stderr += output;
                 this._outputChannel.append(output);
+                onOutput?.(output);
             });
             
             proc.on('close', (code) => {
-                if (code === 0) {
+                cancellation?.dispose();
+                if (cancelled) {
+                    reject(new Error('Cancelled'));
+                } else if (code === 0) {
                     resolve(stdout);
                 } else {
                     reject(new Error(`Command failed with exit code ${code}: ${stderr}`));
@@ -165,54 +383,185 @@ export class PythonExecutor {
             });
             
             proc.on('error', (error) => {
+                cancellation?.dispose();
                 reject(error);
             });
+            
+            if (input !== undefined) {
+                proc.stdin?.end(input);
+            }
         });
     }
 
+    /**
+     * Run pip, reporting the phases of its output to the operation.
+     * Installs ask pip for download progress when the pip can print it without a terminal.
+     */
+    private async runPip(
+        command: string,
+        args: string[],
+        envPath: string | undefined,
+        target: CommandExecutor,
+        operation?: PipOperation,
+        input?: string,
+        uninstallCount = 0
+    ): Promise<string> {
+        const parser = operation?.onProgress && new PipProgressParser(operation.onProgress, uninstallCount);
+        const install = args.indexOf('install');
+        if (parser && install >= 0) {
+            const version = await this.getPipVersion(command, args.slice(0, install), envPath, target);
+            if (version && compareVersions(version, RAW_PROGRESS_PIP) >= 0) {
+                args = [...args.slice(0, install + 1), '--progress-bar', 'raw', ...args.slice(install + 1)];
+            }
+        }
+        return this.executeCommand(command, args, envPath, input, target, operation?.token, parser && (chunk => parser.push(chunk)));
+    }
+
+    /**
+     * The version of the pip that a pip command runs, or undefined when it can't be told
+     */
+    private getPipVersion(command: string, args: string[], envPath: string | undefined, target: CommandExecutor): Promise<string | undefined> {
+        const key = `${target.id}:${command} ${args.join(' ')}`;
+        let version = this._pipVersionCache.get(key);
+        if (!version) {
+            version = this.executeCommand(command, [...args, '--version'], envPath, undefined, target).then(
+                output => output.match(/^pip (\S+)/)?.[1],
+                () => undefined
+            );
+            this._pipVersionCache.set(key, version);
+        }
+        return version;
+    }
+
+    /**
+     * Get the Python interpreter of the current environment
+     */
+    public async getEnvironmentPythonPath(): Promise<string> {
+        if (this._currentEnv) {
+            const target = this.getTargetExecutor(this._currentEnv);
+            const pythonPath = this.interpreterOf(this._currentEnv);
+            
+            if (await target.exists(pythonPath)) {
+                return pythonPath;
+            }
+            this._outputChannel.appendLine(`Python not found in environment: ${pythonPath}`);
+            
+            // A remote target falls back to its own Python, not this machine's
+            if (!target.isLocal) {
+                return 'python3';
+            }
+        }
+        
+        return this.getPythonPath();
+    }
+
+    /**
+     * The executor of the target an environment lives on, this machine's for local environments
+     */
+    private getTargetExecutor(env?: EnvironmentInfo): CommandExecutor {
+        const executor = getCommandExecutor(env?.target);
+        if (!executor) {
+            throw new Error(`The target of ${env!.name} is no longer configured in piping.remoteTargets`);
+        }
+        return executor;
+    }
+
+    /**
+     * Path of an environment's interpreter on the environment's target
+     */
+    private interpreterOf(env: EnvironmentInfo): string {
+        return env.target
+            ? targetInterpreter(this.getTargetExecutor(env), env.path)
+            : environmentInterpreter(env.path, env.kind);
+    }
+
+    /**
+     * Run a helper script with the current environment's interpreter, feeding it on stdin
+     */
+    public async runPythonScript(script: string, scriptArgs: string[] = []): Promise<string> {
+        const pythonPath = await this.getEnvironmentPythonPath();
+        return this.executeCommand(pythonPath, ['-', ...scriptArgs], undefined, script, this.getTargetExecutor(this._currentEnv));
+    }
+
     /**
      * Get the pip command to use
      */
-    public async getPipCommand(): Promise<{command: string, args: string[], envPath?: string}> {
+    public async getPipCommand(): Promise<{command: string, args: string[], envPath?: string, target: CommandExecutor}> {
+        const target = this.getTargetExecutor(this._currentEnv);
+        
         // If we have a current environment, use its pip
         if (this._currentEnv) {
-            const pipCommand = os.platform() === 'win32' ? 'pip.exe' : 'pip';
-            const binDir = os.platform() === 'win32' ? 'Scripts' : 'bin';
-            const pipPath = path.join(this._currentEnv.path, binDir, pipCommand);
+            const isWindows = target.platform === 'win32';
+            const pipPath = (isWindows ? path.win32 : path.posix).join(this._currentEnv.path, isWindows ? 'Scripts' : 'bin', isWindows ? 'pip.exe' : 'pip');
             
             // Check if pip exists in the environment
-            try {
-                await fs.promises.access(pipPath, fs.constants.X_OK);
-                return { command: pipPath, args: [], envPath: undefined };
-            } catch (error) {
-                this._outputChannel.appendLine(`Pip not found in environment: ${pipPath}`);
-                // Fall back to python -m pip
+            if (await target.exists(pipPath)) {
+                return { command: pipPath, args: [], envPath: undefined, target };
             }
+            this._outputChannel.appendLine(`Pip not found in environment: ${pipPath}`);
+            // Fall back to python -m pip
         }
         
         // Otherwise use python -m pip
-        const pythonPath = await this.getPythonPath();
-        return { command: pythonPath, args: ['-m', 'pip'], envPath: undefined };
+        const pythonPath = await this.getEnvironmentPythonPath();
+        return { command: pythonPath, args: ['-m', 'pip'], envPath: undefined, target };
     }
 
     /**
-     * Get list of installed packages in the current environment
+     * Get the conda executable when the current environment is a conda environment
+     */
+    private async getCondaCommand(): Promise<string | undefined> {
+        if (this._currentEnv?.kind !== 'conda') {
+            return undefined;
+        }
+        const conda = await findCondaExecutable();
+        if (!conda) {
+            this._outputChannel.appendLine('No conda executable found, using pip for the conda environment');
+        }
+        return conda;
+    }
+
+    /**
+     * Get the conda executable when new packages of the current environment should be installed through conda
+     */
+    private async getCondaInstallCommand(): Promise<string | undefined> {
+        const installer = vscode.workspace.getConfiguration('piping').get<string>('condaInstaller', 'conda');
+        return installer === 'conda' ? this.getCondaCommand() : undefined;
+    }
+
+    /**
+     * Split package names into those conda installed and those pip installed
+     */
+    private async partitionByInstaller(packageNames: string[]): Promise<{ conda: string[], pip: string[] }> {
+        const installed = await this.getInstalledPackages();
+        const condaPackages = new Set(installed
+            .filter(pkg => pkg.installer === 'conda')
+            .map(pkg => normalizePackageName(pkg.name)));
+        return {
+            conda: packageNames.filter(name => condaPackages.has(normalizePackageName(name))),
+            pip: packageNames.filter(name => !condaPackages.has(normalizePackageName(name)))
+        };
+    }
+
+    /**
+     * Get list of installed packages in the current environment.
+     * The result is cached until the environment changes or is modified.
      */
     public async getInstalledPackages(): Promise<PackageInfo[]> {
+        if (!this._packagesCache) {
+            this._packagesCache = this.loadInstalledPackages();
+        }
+        return this._packagesCache;
+    }
+
+    private async loadInstalledPackages(): Promise<PackageInfo[]> {
         try {
-            // Get pip command
-            const { command, args, envPath } = await this.getPipCommand();
-            
-            // Execute pip list command in JSON format
-            const listArgs = [...args, 'list', '--format=json'];
-            const output = await this.executeCommand(command, listArgs, envPath);
-            
-            const packagesData = JSON.parse(output) as Array<{name: string, version: string}>;
-            const packages: PackageInfo[] = [];
+            const packages = await this.getPackageMetadata();
             
             // Get outdated packages to check for updates
+            const { command, args, envPath, target } = await this.getPipCommand();
             const outdatedArgs = [...args, 'list', '--outdated', '--format=json'];
-            const outdatedOutput = await this.executeCommand(command, outdatedArgs, envPath)
+            const outdatedOutput = await this.executeCommand(command, outdatedArgs, envPath, undefined, target)
                 .catch(() => '[]');  // If outdated check fails, assume no outdated packages
             
             const outdatedPackages = JSON.parse(outdatedOutput) as Array<{
@@ -224,44 +573,21 @@ export class PythonExecutor {
             // Create a map for faster lookup
             const outdatedMap = new Map<string, string>();
             outdatedPackages.forEach(pkg => {
-                outdatedMap.set(pkg.name, pkg.latest_version);
+                outdatedMap.set(pkg.name.toLowerCase(), pkg.latest_version);
             });
             
-            // Get package details for descriptions
-            const packages_with_details: PackageInfo[] = [];
+            // In conda environments, tell the packages conda installed from those pip installed
+            const condaPackages = this._currentEnv?.kind === 'conda'
+                ? await readCondaPackageNames(this._currentEnv.path)
+                : new Set<string>();
             
-            for (const pkg of packagesData) {
-                const latest = outdatedMap.get(pkg.name);
-                
-                // Get package description from pip show
-                let description = '';
-                try {
-                    const showArgs = [...args, 'show', pkg.name];
-                    const showOutput = await this.executeCommand(command, showArgs, envPath);
-                    
-                    // Parse the output to find the summary/description
-                    const lines = showOutput.split('\n');
-                    for (const line of lines) {
-                        if (line.startsWith('Summary:')) {
-                            description = line.substring('Summary:'.length).trim();
-                            break;
-                        }
-                    }
-                } catch (error) {
-                    // Ignore errors when getting descriptions
-                }
-                
-                packages_with_details.push({
-                    name: pkg.name,
-                    version: pkg.version,
-                    latest: latest,
-                    hasUpdate: !!latest,
-                    description
-                });
-            }
-            
-            return packages_with_details;
+            return packages.map(pkg => {
+                const latest = outdatedMap.get(pkg.name.toLowerCase());
+                const installer = condaPackages.has(normalizePackageName(pkg.name)) ? 'conda' : pkg.installer;
+                return { ...pkg, installer, latest, hasUpdate: !!latest };
+            });
         } catch (error) {
+            this._packagesCache = undefined;
             this._outputChannel.appendLine(`Error getting installed packages: ${error}`);
             vscode.window.showErrorMessage('Failed to get installed packages. See output channel for details.');
             return [];
@@ -269,263 +595,768 @@ export class PythonExecutor {
     }
 
     /**
-     * Search for packages on PyPI
+     * Collect the metadata of every installed distribution with a single helper process
      */
-    public async searchPackages(query: string): Promise<PackageInfo[]> {
+    private async getPackageMetadata(): Promise<PackageInfo[]> {
         try {
-            // pip search is deprecated, so we'll use a PyPI API call instead through python requests
-            const { command, args, envPath } = await this.getPipCommand();
-            
-            // Create a temporary Python script to search PyPI
-            const tempDir = os.tmpdir();
-            const scriptPath = path.join(tempDir, 'piping_search.py');
-            
-            const scriptContent = `
-import sys
-import json
-
-try:
-    import requests
-except ImportError:
-    print(json.dumps({"error": "requests module not installed"}))
-    sys.exit(1)
-
-query = sys.argv[1]
-try:
-    response = requests.get(f"https://pypi.org/pypi/{query}/json")
-    if response.status_code == 200:
-        data = response.json()
-        result = {
-            "name": data["info"]["name"],
-            "version": data["info"]["version"],
-            "description": data["info"]["summary"]
-        }
-        print(json.dumps([result]))
-    else:
-        # Try a more general search
-        response = requests.get(
-            "https://pypi.org/search/",
-            params={"q": query},
-            headers={"Accept": "application/json"}
-        )
-        if response.status_code == 200:
-            results = []
-            # This is a very basic scraper, may break if PyPI changes
-            import re
-            package_pattern = re.compile(r'<span class="package-snippet__name">([^<]+)</span>\\s*<span class="package-snippet__version">([^<]+)</span>\\s*<p class="package-snippet__description">([^<]+)</p>')
-            matches = package_pattern.findall(response.text)
-            for name, version, description in matches[:10]:  # Limit to 10 results
-                results.append({
-                    "name": name.strip(),
-                    "version": version.strip(),
-                    "description": description.strip()
-                })
-            print(json.dumps(results))
-        else:
-            print(json.dumps([]))
-except Exception as e:
-    print(json.dumps({"error": str(e)}))
-    sys.exit(1)
-`;
-            
-            await fs.promises.writeFile(scriptPath, scriptContent);
-            
-            // Execute the script
-            const scriptArgs = [...args, scriptPath, query];
-            const output = await this.executeCommand(command, scriptArgs, envPath);
+            const output = await this.runPythonScript(PACKAGE_METADATA_SCRIPT);
+            return JSON.parse(output) as PackageInfo[];
+        } catch (error) {
+            // Interpreters without importlib.metadata can still list their packages through pip
+            this._outputChannel.appendLine(`Reading package metadata failed, falling back to pip list: ${error}`);
             
-            try {
-                const results = JSON.parse(output);
-                if (results.error) {
-                    // Handle error from script
-                    throw new Error(results.error);
-                }
-                return results;
-            } catch (parseError) {
-                throw new Error(`Failed to parse search results: ${parseError}`);
+            const { command, args, envPath, target } = await this.getPipCommand();
+            const listArgs = [...args, 'list', '--format=json'];
+            const output = await this.executeCommand(command, listArgs, envPath, undefined, target);
+            
+            return (JSON.parse(output) as Array<{name: string, version: string}>).map(pkg => ({
+                name: pkg.name,
+                version: pkg.version
+            }));
+        }
+    }
+
+    /**
+     * Get the PEP 508 marker values of the current environment's interpreter
+     */
+    public async getMarkerEnvironment(): Promise<MarkerEnvironment> {
+        const output = await this.runPythonScript(MARKER_ENVIRONMENT_SCRIPT);
+        return JSON.parse(output) as MarkerEnvironment;
+    }
+
+    /**
+     * Get the top-level modules of the installed distributions and the standard library.
+     * The result is cached like the package list.
+     */
+    public async getModuleMap(): Promise<ModuleMap> {
+        if (!this._moduleMapCache) {
+            this._moduleMapCache = this.runPythonScript(MODULE_MAP_SCRIPT)
+                .then(output => JSON.parse(output) as ModuleMap)
+                .catch(error => {
+                    this._moduleMapCache = undefined;
+                    throw error;
+                });
+        }
+        return this._moduleMapCache;
+    }
+
+    /**
+     * Get the dependency graph of the current environment
+     */
+    public async getDependencyGraph(): Promise<DependencyGraph> {
+        return buildDependencyGraph(await this.getInstalledPackages());
+    }
+
+    /**
+     * Ask pip which packages an install would change without touching the environment.
+     * Resolves to undefined when pip cannot produce a report (pip 22.2 or later is needed).
+     * Conda environments ask conda first, as installs go through conda when it has the packages.
+     */
+    public async previewInstall(packageSpecs: string[]): Promise<InstallPreviewItem[] | undefined> {
+        if (packageSpecs.some(spec => validateRequirementInput(spec))) {
+            return undefined;
+        }
+        const conda = await this.getCondaInstallCommand();
+        if (conda) {
+            const preview = await this.previewCondaInstall(conda, packageSpecs);
+            if (preview) {
+                return preview;
             }
+        }
+        
+        try {
+            const { command, args, envPath, target } = await this.getPipCommand();
+            
+            // --quiet keeps stdout free of anything but the JSON report
+            const previewArgs = [...args, 'install', '--dry-run', '--quiet', '--report', '-', ...packageSpecs];
+            const [output, installed] = await Promise.all([
+                this.executeCommand(command, previewArgs, envPath, undefined, target),
+                this.getInstalledPackages()
+            ]);
+            
+            const report = JSON.parse(output) as {
+                install?: Array<{ metadata: { name: string, version: string }, requested?: boolean }>
+            };
+            const installedVersions = new Map(installed.map(pkg => [normalizePackageName(pkg.name), pkg.version]));
+            
+            return (report.install || []).map(item => {
+                const currentVersion = installedVersions.get(normalizePackageName(item.metadata.name));
+                let action: InstallPreviewItem['action'] = 'install';
+                if (currentVersion) {
+                    const order = compareVersions(item.metadata.version, currentVersion);
+                    action = order > 0 ? 'upgrade' : order < 0 ? 'downgrade' : 'reinstall';
+                }
+                return {
+                    name: item.metadata.name,
+                    version: item.metadata.version,
+                    currentVersion,
+                    requested: !!item.requested,
+                    action
+                };
+            });
         } catch (error) {
-            this._outputChannel.appendLine(`Error searching packages: ${error}`);
-            // Fall back to a basic search using pip list
-            vscode.window.showWarningMessage('Advanced package search failed. Falling back to basic search.');
+            this._outputChannel.appendLine(`Error previewing install: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Ask conda which packages an install would change. Resolves to undefined when
+     * conda cannot install the packages, e.g. because no channel has them.
+     */
+    private async previewCondaInstall(conda: string, packageSpecs: string[]): Promise<InstallPreviewItem[] | undefined> {
+        try {
+            const output = await this.executeCommand(conda, ['install', '--dry-run', '--json', '-y', '-p', this._currentEnv!.path, ...packageSpecs]);
+            const report = JSON.parse(output) as {
+                actions?: { LINK?: Array<{ name: string, version: string }>, UNLINK?: Array<{ name: string, version: string }> }
+            };
             
-            try {
-                const { command, args, envPath } = await this.getPipCommand();
-                const listArgs = [...args, 'list'];
-                const output = await this.executeCommand(command, listArgs, envPath);
-                
-                const lines = output.split('\n');
-                const packages: PackageInfo[] = [];
-                
-                const queryLower = query.toLowerCase();
-                
-                // Skip the header rows
-                for (let i = 2; i < lines.length; i++) {
-                    const line = lines[i].trim();
-                    if (!line) {
-                        continue;
-                    }
-                    
-                    const parts = line.split(/\s+/);
-                    if (parts.length >= 2) {
-                        const name = parts[0];
-                        const version = parts[1];
-                        
-                        if (name.toLowerCase().includes(queryLower)) {
-                            packages.push({
-                                name,
-                                version,
-                                description: 'Installed package'
-                            });
-                        }
-                    }
+            const unlinked = new Map((report.actions?.UNLINK || []).map(item => [normalizePackageName(item.name), item.version]));
+            const requested = new Set(packageSpecs.map(spec => normalizePackageName(spec.split(/[<>=!~\s\[]/)[0])));
+            
+            return (report.actions?.LINK || []).map(item => {
+                const currentVersion = unlinked.get(normalizePackageName(item.name));
+                let action: InstallPreviewItem['action'] = 'install';
+                if (currentVersion) {
+                    const order = compareVersions(item.version, currentVersion);
+                    action = order > 0 ? 'upgrade' : order < 0 ? 'downgrade' : 'reinstall';
                 }
-                
-                return packages;
-            } catch (fallbackError) {
-                this._outputChannel.appendLine(`Fallback search failed: ${fallbackError}`);
-                return [];
-            }
+                return {
+                    name: item.name,
+                    version: item.version,
+                    currentVersion,
+                    requested: requested.has(normalizePackageName(item.name)),
+                    action
+                };
+            });
+        } catch (error) {
+            this._outputChannel.appendLine(`Conda cannot install ${packageSpecs.join(', ')}, previewing with pip: ${error}`);
+            return undefined;
         }
     }
 
     /**
-     * Install a package
+     * Install a package. Conda environments install through conda and fall back to pip
+     * for packages conda's channels don't have. Installs waiting in the queue for the same
+     * environment are merged into one pip call.
      */
-    public async installPackage(packageName: string, version?: string): Promise<boolean> {
+    public async installPackage(packageName: string, version?: string, operation?: PipOperation): Promise<boolean> {
+        const packageSpec = version ? `${packageName}==${version}` : packageName;
+        const problem = validateRequirementInput(packageSpec);
+        if (problem) {
+            this._outputChannel.appendLine(`Error installing package: ${problem}`);
+            return false;
+        }
+        const environmentKey = await this.getEnvironmentKey();
+        
+        // Conda installs are not merged, as they may fall back to pip package by package
+        if (!this.operationQueue || await this.getCondaInstallCommand()) {
+            return this.enqueue(`Install ${packageSpec}`, operation, false, queued => this.installSpecs([packageSpec], queued));
+        }
+        
+        return this.operationQueue.install({
+            label: `Install ${packageSpec}`,
+            environmentKey,
+            environmentName: this._currentEnv?.name || 'global Python',
+            caller: operation,
+            specs: [packageSpec],
+            execute: async (specs, queued) => {
+                if (await this.getEnvironmentKey() !== environmentKey) {
+                    this._outputChannel.appendLine(`Skipped installing ${specs.join(', ')}: the environment was switched while it waited`);
+                    return false;
+                }
+                return this.installSpecs(specs, queued);
+            }
+        });
+    }
+
+    private async installSpecs(packageSpecs: string[], operation?: PipOperation): Promise<boolean> {
         try {
-            const { command, args, envPath } = await this.getPipCommand();
+            const { command, args, envPath, target } = await this.getPipCommand();
             
-            const packageSpec = version ? `${packageName}==${version}` : packageName;
-            const installArgs = [...args, 'install', packageSpec];
+            await this.recordSnapshot(`Before installing ${packageSpecs.join(', ')}`);
             
-            await this.executeCommand(command, installArgs, envPath);
+            const conda = await this.getCondaInstallCommand();
+            if (conda) {
+                try {
+                    await this.executeCommand(conda, ['install', '-y', '-p', this._currentEnv!.path, ...packageSpecs], undefined, undefined, undefined, operation?.token);
+                    return true;
+                } catch (error) {
+                    if (operation?.token?.isCancellationRequested) {
+                        throw error;
+                    }
+                    this._outputChannel.appendLine(`Conda could not install ${packageSpecs.join(', ')}, installing with pip: ${error}`);
+                }
+            }
+            
+            const installArgs = [...args, 'install', ...packageSpecs];
+            await this.runPip(command, installArgs, envPath, target, operation);
             return true;
         } catch (error) {
             this._outputChannel.appendLine(`Error installing package: ${error}`);
             return false;
+        } finally {
+            this.invalidatePackageCache();
         }
     }
 
     /**
-     * Uninstall a package
+     * Install several requirement lines with a single pip call. The lines go through
+     * a temporary requirements file so that per-requirement options such as --hash apply.
+     * Remote targets can't read this machine's files, so they read the lines from stdin.
      */
-    public async uninstallPackage(packageName: string): Promise<boolean> {
-        try {
-            const { command, args, envPath } = await this.getPipCommand();
+    public async installRequirements(lines: string[], operation?: PipOperation): Promise<boolean> {
+        return this.enqueue(`Install ${lines.length} requirement(s)`, operation, false, async queued => {
+            const requirementsPath = path.join(os.tmpdir(), `piping-requirements-${process.pid}-${Date.now()}.txt`);
             
-            const uninstallArgs = [...args, 'uninstall', '-y', packageName];
-            await this.executeCommand(command, uninstallArgs, envPath);
+            try {
+                const { command, args, envPath, target } = await this.getPipCommand();
+                const content = `${lines.join('\n')}\n`;
+            
+                if (target.isLocal) {
+                    await fs.promises.writeFile(requirementsPath, content);
+                }
+                await this.recordSnapshot(`Before installing ${lines.length} requirement(s)`);
+                const installArgs = [...args, 'install', '-r', target.isLocal ? requirementsPath : '/dev/stdin'];
+            
+                await this.runPip(command, installArgs, envPath, target, queued, target.isLocal ? undefined : content);
+                return true;
+            } catch (error) {
+                this._outputChannel.appendLine(`Error installing requirements: ${error}`);
+                return false;
+            } finally {
+                this.invalidatePackageCache();
+                fs.promises.unlink(requirementsPath).catch(() => undefined);
+            }
+        });
+    }
+
+    /**
+     * Install requirement lines into a newly created environment, which need not be the current one
+     */
+    public async installIntoEnvironment(env: EnvironmentInfo, lines: string[], operation?: PipOperation): Promise<boolean> {
+        const requirementsPath = path.join(os.tmpdir(), `piping-requirements-${process.pid}-${Date.now()}.txt`);
+        
+        try {
+            await fs.promises.writeFile(requirementsPath, `${lines.join('\n')}\n`);
+            await this.runPip(environmentInterpreter(env.path, env.kind), ['-m', 'pip', 'install', '-r', requirementsPath], undefined, localCommandExecutor, operation);
             return true;
         } catch (error) {
-            this._outputChannel.appendLine(`Error uninstalling package: ${error}`);
+            this._outputChannel.appendLine(`Error installing requirements into ${env.path}: ${error}`);
             return false;
+        } finally {
+            this._environmentDetailsCache.delete(env.path);
+            if (this._currentEnv?.path === env.path) {
+                this.invalidatePackageCache();
+            }
+            fs.promises.unlink(requirementsPath).catch(() => undefined);
         }
     }
 
     /**
-     * Update a package
+     * Uninstall several packages with a single pip call. In conda environments, the
+     * packages conda installed are removed through conda, which keeps its records intact.
      */
-    public async updatePackage(packageName: string): Promise<boolean> {
-        try {
-            const { command, args, envPath } = await this.getPipCommand();
+    public async uninstallPackages(packageNames: string[], operation?: PipOperation): Promise<boolean> {
+        const invalid = packageNames.filter(name => !isValidProjectName(name));
+        if (invalid.length) {
+            this._outputChannel.appendLine(`Error uninstalling packages: invalid package name(s) ${invalid.join(', ')}`);
+            return false;
+        }
+        return this.enqueue(`Uninstall ${packageNames.join(', ')}`, operation, false, async queued => {
+            try {
+                const { command, args, envPath, target } = await this.getPipCommand();
+                const conda = await this.getCondaCommand();
+                const { conda: condaPackages, pip: pipPackages } = conda
+                    ? await this.partitionByInstaller(packageNames)
+                    : { conda: [], pip: packageNames };
             
-            const updateArgs = [...args, 'install', '--upgrade', packageName];
-            await this.executeCommand(command, updateArgs, envPath);
-            return true;
-        } catch (error) {
-            this._outputChannel.appendLine(`Error updating package: ${error}`);
+                await this.recordSnapshot(`Before uninstalling ${packageNames.join(', ')}`);
+                if (condaPackages.length) {
+                    // --force leaves the packages that depend on them, as pip does
+                    await this.executeCommand(conda!, ['remove', '-y', '--force', '-p', this._currentEnv!.path, ...condaPackages], undefined, undefined, undefined, queued?.token);
+                }
+                if (pipPackages.length) {
+                    await this.runPip(command, [...args, 'uninstall', '-y', ...pipPackages], envPath, target, queued, undefined, pipPackages.length);
+                }
+                return true;
+            } catch (error) {
+                this._outputChannel.appendLine(`Error uninstalling packages: ${error}`);
+                return false;
+            } finally {
+                this.invalidatePackageCache();
+            }
+        });
+    }
+
+    /**
+     * Uninstall a package
+     */
+    public async uninstallPackage(packageName: string, operation?: PipOperation): Promise<boolean> {
+        return this.uninstallPackages([packageName], operation);
+    }
+
+    /**
+     * Update a package, through conda if conda installed it
+     */
+    public async updatePackage(packageName: string, operation?: PipOperation): Promise<boolean> {
+        if (!isValidProjectName(packageName)) {
+            this._outputChannel.appendLine(`Error updating package: invalid package name '${packageName}'`);
             return false;
         }
+        return this.enqueue(`Update ${packageName}`, operation, false, async queued => {
+            try {
+                const { command, args, envPath, target } = await this.getPipCommand();
+                const conda = await this.getCondaCommand();
+            
+                await this.recordSnapshot(`Before updating ${packageName}`);
+                if (conda && (await this.partitionByInstaller([packageName])).conda.length) {
+                    await this.executeCommand(conda, ['update', '-y', '-p', this._currentEnv!.path, packageName], undefined, undefined, undefined, queued?.token);
+                    return true;
+                }
+            
+                const updateArgs = [...args, 'install', '--upgrade', packageName];
+                await this.runPip(command, updateArgs, envPath, target, queued);
+                return true;
+            } catch (error) {
+                this._outputChannel.appendLine(`Error updating package: ${error}`);
+                return false;
+            } finally {
+                this.invalidatePackageCache();
+            }
+        });
     }
 
     /**
-     * Get list of virtual environments
+     * Get the environments found in the workspace, the environment managers' folders,
+     * conda and the configured search paths
      */
     public async getVirtualEnvironments(): Promise<EnvironmentInfo[]> {
-        const environments: EnvironmentInfo[] = [];
+        try {
+            const environments = await discoverEnvironments(await this.getCondaEnvironments(), this.folder);
+            return environments.map(env => ({
+                ...env,
+                isActive: this._currentEnv?.path === env.path && this._currentEnv?.target === env.target
+            }));
+        } catch (error) {
+            this._outputChannel.appendLine(`Error discovering environments: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Add the Python version, implementation, base interpreter, size, package count,
+     * site-packages sharing and creation time to an environment. The details are
+     * cached per environment until its packages change.
+     */
+    public async getEnvironmentDetails(env: EnvironmentInfo): Promise<EnvironmentInfo> {
+        let details = this._environmentDetailsCache.get(detailsKey(env));
+        if (!details) {
+            details = this.readEnvironmentDetails(env);
+            this._environmentDetailsCache.set(detailsKey(env), details);
+        }
+        return { ...env, ...await details };
+    }
+
+    private async readEnvironmentDetails(env: EnvironmentInfo): Promise<EnvironmentDetails> {
+        // Only the interpreter is asked about environments on remote targets, as their files are out of reach
+        if (env.target) {
+            const output = await this.executeCommand(this.interpreterOf(env), ['-'], undefined, ENVIRONMENT_INFO_SCRIPT, this.getTargetExecutor(env));
+            const info = JSON.parse(output) as { version: string, implementation: string, base_executable: string };
+            return { pythonVersion: info.version, implementation: info.implementation, baseInterpreter: info.base_executable };
+        }
+        
+        const config = await readPyvenvConfig(env.path);
+        const details: EnvironmentDetails = config ? detailsFromPyvenvConfig(config) : {};
         
-        // Get workspace folders
-        const workspaceFolders = vscode.workspace.workspaceFolders;
-        if (!workspaceFolders) {
-            return environments;
+        // The interpreter knows its version and implementation even without a pyvenv.cfg
+        try {
+            const output = await this.executeCommand(environmentInterpreter(env.path, env.kind), ['-'], undefined, ENVIRONMENT_INFO_SCRIPT);
+            const info = JSON.parse(output) as { version: string, implementation: string, base_executable: string };
+            details.pythonVersion = info.version;
+            details.implementation = info.implementation;
+            // pyvenv.cfg's home is only the base interpreter's folder
+            if (!config || !(config['executable'] || config['base-executable'])) {
+                details.baseInterpreter = info.base_executable;
+            }
+        } catch (error) {
+            // A broken environment, e.g. one whose base interpreter was removed, still has its pyvenv.cfg
+            this._outputChannel.appendLine(`Error reading the interpreter of ${env.path}: ${error}`);
         }
         
-        // Common environment folder names
-        const envFolders = ['.venv', 'venv', 'env', '.env', '.virtualenv', 'virtualenv'];
+        const [packageCount, sizeBytes, createdAt] = await Promise.all([
+            countInstalledDistributions(env.path),
+            directorySize(env.path),
+            environmentCreationTime(env.path)
+        ]);
+        return { ...details, packageCount, sizeBytes, createdAt };
+    }
+
+    /**
+     * Get the conda environments from conda itself or, without a working conda, from the files conda keeps
+     */
+    private async getCondaEnvironments(): Promise<DiscoveredEnvironment[]> {
+        let prefixes: string[] | undefined;
+        
+        const conda = await findCondaExecutable();
+        if (conda) {
+            try {
+                const output = await this.executeCommand(conda, ['env', 'list', '--json']);
+                prefixes = (JSON.parse(output) as { envs?: string[] }).envs;
+            } catch (error) {
+                this._outputChannel.appendLine(`Error listing conda environments: ${error}`);
+            }
+        }
         
-        // Look for virtual environments in workspace folders
-        for (const folder of workspaceFolders) {
-            for (const envName of envFolders) {
-                const envPath = path.join(folder.uri.fsPath, envName);
+        return condaEnvironments(prefixes || await readCondaEnvironmentPrefixes());
+    }
+
+    /**
+     * Whether conda environments can be created
+     */
+    public async hasConda(): Promise<boolean> {
+        return !!await findCondaExecutable();
+    }
+
+    /**
+     * Create a named conda environment with the given Python version, or conda's default Python
+     */
+    public async createCondaEnvironment(name: string, pythonVersion?: string, token?: vscode.CancellationToken): Promise<EnvironmentInfo | undefined> {
+        try {
+            const conda = await findCondaExecutable();
+            if (!conda) {
+                throw new Error('No conda executable found');
+            }
+            
+            const python = pythonVersion ? `python=${pythonVersion}` : 'python';
+            await this.executeCommand(conda, ['create', '-y', '-n', name, python], undefined, undefined, localCommandExecutor, token);
+            
+            const created = (await this.getCondaEnvironments())
+                .find(env => env.name === name && path.basename(path.dirname(env.path)) === 'envs');
+            if (!created) {
+                throw new Error(`Conda created '${name}' but does not list it`);
+            }
+            
+            return { ...created, isActive: false };
+        } catch (error) {
+            this._outputChannel.appendLine(`Error creating conda environment: ${error}`);
+            return undefined;
+        }
+    }
+
+    /**
+     * Get the installed interpreters environments can be created from: those on PATH,
+     * pyenv's and, on Windows, the ones the py launcher knows. Newest versions come first.
+     */
+    public async getInterpreters(): Promise<InterpreterInfo[]> {
+        const candidates = await findInterpreterCandidates();
+        if (os.platform() === 'win32') {
+            try {
+                const output = await this.executeCommand('py', ['-0p']);
+                candidates.push(...parsePyLauncherList(output).filter(interpreter => !candidates.includes(interpreter)));
+            } catch (error) {
+                // The py launcher is not installed
+            }
+        }
+        
+        const interpreters: InterpreterInfo[] = [];
+        const seen = new Set<string>();
+        for (const candidate of candidates) {
+            try {
+                const output = await this.executeCommand(candidate, ['-'], undefined, ENVIRONMENT_INFO_SCRIPT);
+                const info = JSON.parse(output) as { version: string, implementation: string, base_executable: string };
                 
-                try {
-                    const stats = await fs.promises.stat(envPath);
-                    
-                    if (stats.isDirectory()) {
-                        // Check if this is a valid virtual environment
-                        const pythonExePath = path.join(
-                            envPath, 
-                            os.platform() === 'win32' ? 'Scripts/python.exe' : 'bin/python'
-                        );
-                        
-                        try {
-                            const pythonExeStats = await fs.promises.stat(pythonExePath);
-                            
-                            if (pythonExeStats.isFile()) {
-                                // It's a valid environment
-                                const isActive = this._currentEnv?.path === envPath;
-                                
-                                environments.push({
-                                    name: envName,
-                                    path: envPath,
-                                    isActive
-                                });
-                            }
-                        } catch (error) {
-                            // Not a valid environment or executable not found
-                        }
-                    }
-                } catch (error) {
-                    // Directory doesn't exist
+                // Shims such as pyenv's run another interpreter, which is the one to list
+                const executable = info.base_executable || candidate;
+                const key = await fs.promises.realpath(executable).catch(() => executable);
+                // Python 2 can no longer create environments with any of the backends
+                if (!seen.has(key) && compareVersions(info.version, '3') >= 0) {
+                    seen.add(key);
+                    interpreters.push({ path: executable, version: info.version, implementation: info.implementation });
                 }
+            } catch (error) {
+                // Not a working interpreter, e.g. a Windows Store placeholder
             }
         }
         
-        return environments;
+        return interpreters.sort((a, b) => compareVersions(b.version, a.version));
     }
 
     /**
-     * Create a virtual environment
+     * Get the tools that can create virtual environments: venv, plus virtualenv and uv when they are on PATH
      */
-    public async createVirtualEnvironment(name: string): Promise<EnvironmentInfo | undefined> {
+    public async getEnvironmentBackends(): Promise<EnvironmentBackend[]> {
+        const backends: EnvironmentBackend[] = ['venv'];
+        if (await findOnPath(['virtualenv'])) {
+            backends.push('virtualenv');
+        }
+        if (await findOnPath(['uv'])) {
+            backends.push('uv');
+        }
+        return backends;
+    }
+
+    /**
+     * Create a virtual environment with venv, virtualenv or uv. A cancelled creation removes
+     * the folder it started, unless the folder was there before.
+     */
+    public async createVirtualEnvironment(options: CreateEnvironmentOptions, token?: vscode.CancellationToken): Promise<EnvironmentInfo | undefined> {
+        const envPath = path.join(options.folder, options.name);
+        const existed = await fs.promises.access(envPath).then(() => true, () => false);
+        
         try {
-            // Get Python path
-            const pythonPath = await this.getPythonPath();
+            const pythonPath = options.interpreter || await this.getPythonPath();
             
-            // Get workspace folder
-            const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
-            if (!workspaceFolder) {
-                throw new Error('No workspace folder is open');
+            let command: string;
+            let args: string[];
+            switch (options.backend || 'venv') {
+                case 'virtualenv':
+                    command = (await findOnPath(['virtualenv']))!;
+                    args = ['-p', pythonPath, envPath];
+                    if (options.upgradeDeps) {
+                        args.push('--download');
+                    }
+                    break;
+                case 'uv':
+                    // uv leaves pip out unless asked to seed it, and Piping manages packages through pip
+                    command = (await findOnPath(['uv']))!;
+                    args = ['venv', '--python', pythonPath, '--seed', envPath];
+                    break;
+                default:
+                    command = pythonPath;
+                    args = ['-m', 'venv', envPath];
+                    if (options.upgradeDeps) {
+                        args.push('--upgrade-deps');
+                    }
+            }
+            if (options.systemSitePackages) {
+                args.push('--system-site-packages');
+            }
+            if (options.prompt) {
+                args.push('--prompt', options.prompt);
             }
             
-            const envPath = path.join(workspaceFolder.uri.fsPath, name);
-            
-            // Create the virtual environment
-            const args = ['-m', 'venv', envPath];
-            await this.executeCommand(pythonPath, args, undefined);
+            await this.executeCommand(command, args, undefined, undefined, localCommandExecutor, token);
             
             // Return the environment info
             const newEnv: EnvironmentInfo = {
-                name,
+                name: options.name,
                 path: envPath,
+                kind: 'venv',
                 isActive: false
             };
             
             return newEnv;
         } catch (error) {
             this._outputChannel.appendLine(`Error creating virtual environment: ${error}`);
+            if (token?.isCancellationRequested && !existed) {
+                await fs.promises.rm(envPath, { recursive: true, force: true }).catch(() => undefined);
+            }
+            return undefined;
+        }
+    }
+
+    /**
+     * List the packages of any environment as requirement lines, leaving out the packaging tools.
+     * Conda environments list versions only, as pip freeze points at conda's build folders.
+     */
+    private async freezeEnvironment(env: EnvironmentInfo): Promise<string[]> {
+        const freezeArgs = env.kind === 'conda' ? ['list', '--format=freeze'] : ['freeze'];
+        const output = await this.executeCommand(this.interpreterOf(env), ['-m', 'pip', ...freezeArgs], undefined, undefined, this.getTargetExecutor(env));
+        
+        return output
+            .split(/\r?\n/)
+            .map(line => line.trim())
+            .filter(line => line && !line.startsWith('#'))
+            .filter(line => !PACKAGING_TOOLS.includes(normalizePackageName(line.split(/[=@\s]/)[0])));
+    }
+
+    /**
+     * Install packages into an environment at their versions, or let pip pick versions
+     * when the pinned ones don't install, e.g. on another Python version
+     */
+    private async transferPackages(env: EnvironmentInfo, lines: string[], operation?: PipOperation): Promise<PackageTransfer | undefined> {
+        if (!lines.length || await this.installIntoEnvironment(env, lines, operation)) {
+            return 'exact';
+        }
+        if (operation?.token?.isCancellationRequested) {
+            return undefined;
+        }
+        
+        this._outputChannel.appendLine('The pinned versions did not install, trying again without pins');
+        const unpinned = lines.map(line => line.replace(/^([A-Za-z0-9][A-Za-z0-9._-]*)==\S+$/, '$1'));
+        return await this.installIntoEnvironment(env, unpinned, operation) ? 'relaxed' : undefined;
+    }
+
+    /**
+     * The backend that made a virtual environment, according to its pyvenv.cfg, if it is available
+     */
+    private async detectBackend(envPath: string): Promise<EnvironmentBackend> {
+        const config = await readPyvenvConfig(envPath);
+        const backends = await this.getEnvironmentBackends();
+        if (config?.['uv'] && backends.includes('uv')) {
+            return 'uv';
+        }
+        if (config?.['virtualenv'] && backends.includes('virtualenv')) {
+            return 'virtualenv';
+        }
+        return 'venv';
+    }
+
+    /**
+     * Delete an environment. The current environment and environments that are more
+     * than a folder (see isDisposableEnvironment) are never deleted. Cancelling stops conda,
+     * or a folder removal that has not started yet.
+     */
+    public async deleteEnvironment(env: EnvironmentInfo, token?: vscode.CancellationToken): Promise<boolean> {
+        try {
+            if (this._currentEnv?.path === env.path) {
+                throw new Error('The active environment cannot be deleted');
+            }
+            if (!isDisposableEnvironment(env)) {
+                throw new Error(`${env.path} is not an environment Piping manages`);
+            }
+            
+            if (env.kind === 'conda') {
+                const conda = await findCondaExecutable();
+                if (!conda) {
+                    throw new Error('No conda executable found');
+                }
+                await this.executeCommand(conda, ['env', 'remove', '-y', '-p', env.path], undefined, undefined, localCommandExecutor, token);
+            } else {
+                // Only remove folders that still look like an environment
+                const hasInterpreter = await fs.promises.access(environmentInterpreter(env.path, env.kind)).then(() => true, () => false);
+                if (!hasInterpreter && !await readPyvenvConfig(env.path)) {
+                    throw new Error(`${env.path} does not look like a Python environment`);
+                }
+                if (token?.isCancellationRequested) {
+                    throw new Error('Cancelled');
+                }
+                this._outputChannel.appendLine(`Deleting ${env.path}`);
+                await fs.promises.rm(env.path, { recursive: true, force: true });
+            }
+            
+            this._environmentDetailsCache.delete(env.path);
+            await this.snapshotStore?.clear(env.path);
+            return true;
+        } catch (error) {
+            this._outputChannel.appendLine(`Error deleting environment: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Create a virtual environment with the packages of another one. The clone uses the
+     * source's base interpreter unless the options name another. A clone whose packages
+     * do not install, or whose creation is cancelled, is deleted again.
+     */
+    public async cloneEnvironment(source: EnvironmentInfo, options: CreateEnvironmentOptions, operation?: PipOperation): Promise<{ env: EnvironmentInfo, transfer: PackageTransfer } | undefined> {
+        try {
+            const lines = await this.freezeEnvironment(source);
+            // A clone of a remote environment is made on this machine
+            const interpreter = options.interpreter || (source.target
+                ? await this.getPythonPath()
+                : await findBaseInterpreter(source.path) || environmentInterpreter(source.path, source.kind));
+            const backend = options.backend || (source.kind === 'conda' || source.target ? 'venv' : await this.detectBackend(source.path));
+            
+            const env = await this.createVirtualEnvironment({ ...options, interpreter, backend }, operation?.token);
+            if (!env) {
+                return undefined;
+            }
+            
+            const transfer = await this.transferPackages(env, lines, operation);
+            if (!transfer) {
+                await fs.promises.rm(env.path, { recursive: true, force: true });
+                return undefined;
+            }
+            return { env, transfer };
+        } catch (error) {
+            this._outputChannel.appendLine(`Error cloning environment: ${error}`);
             return undefined;
         }
     }
-}
\ No newline at end of file
+
+    /**
+     * Rebuild a virtual environment in place from another interpreter, keeping its
+     * packages and options. The old environment is kept aside until the new one has
+     * its packages, and put back if anything fails or the operation is cancelled. When pip
+     * had to pick other versions, the old environment is kept at the returned backup path
+     * until the caller keeps (discardBackup) or rejects (restoreBackup) the new one.
+     */
+    public async recreateEnvironment(env: EnvironmentInfo, interpreter: string, operation?: PipOperation): Promise<{ transfer: PackageTransfer, backupPath?: string } | undefined> {
+        const backupPath = `${env.path}.piping-backup-${Date.now()}`;
+        let movedAside = false;
+        
+        try {
+            if (env.kind === 'conda' || !isDisposableEnvironment(env)) {
+                throw new Error(`${env.path} is not a virtual environment Piping can rebuild`);
+            }
+            
+            const lines = await this.freezeEnvironment(env);
+            const config = await readPyvenvConfig(env.path);
+            const backend = await this.detectBackend(env.path);
+            
+            await fs.promises.rename(env.path, backupPath);
+            movedAside = true;
+            
+            const created = await this.createVirtualEnvironment({
+                name: path.basename(env.path),
+                folder: path.dirname(env.path),
+                interpreter,
+                backend,
+                systemSitePackages: config ? detailsFromPyvenvConfig(config).systemSitePackages : false,
+                prompt: config?.['prompt']?.replace(/^'(.*)'$/, '$1')
+            }, operation?.token);
+            const transfer = created && await this.transferPackages({ ...created, kind: env.kind }, lines, operation);
+            if (!transfer) {
+                throw new Error('The new environment could not be created with the packages');
+            }
+            
+            if (transfer === 'relaxed') {
+                return { transfer, backupPath };
+            }
+            await this.discardBackup(backupPath);
+            return { transfer };
+        } catch (error) {
+            this._outputChannel.appendLine(`Error recreating environment: ${error}`);
+            if (movedAside) {
+                await this.restoreBackup(env, backupPath);
+            }
+            return undefined;
+        } finally {
+            this._environmentDetailsCache.delete(env.path);
+            if (this._currentEnv?.path === env.path) {
+                this.invalidatePackageCache();
+            }
+        }
+    }
+
+    /**
+     * Delete the old environment recreateEnvironment kept aside
+     */
+    public async discardBackup(backupPath: string): Promise<void> {
+        await fs.promises.rm(backupPath, { recursive: true, force: true }).catch(error => {
+            this._outputChannel.appendLine(`Could not delete the old environment at ${backupPath}: ${error}`);
+        });
+    }
+
+    /**
+     * Put the old environment recreateEnvironment kept aside back in place of the new one.
+     * Resolves to false, leaving the backup where it is, when it cannot be moved back.
+     */
+    public async restoreBackup(env: EnvironmentInfo, backupPath: string): Promise<boolean> {
+        try {
+            await fs.promises.rm(env.path, { recursive: true, force: true });
+            await fs.promises.rename(backupPath, env.path);
+            return true;
+        } catch (error) {
+            this._outputChannel.appendLine(`Could not put the old environment back from ${backupPath}: ${error}`);
+            return false;
+        } finally {
+            this._environmentDetailsCache.delete(env.path);
+            if (this._currentEnv?.path === env.path) {
+                this.invalidatePackageCache();
+            }
+        }
+    }
+}
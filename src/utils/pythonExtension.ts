@@ -0,0 +1,44 @@
+import * as vscode from 'vscode';
+
+const PYTHON_EXTENSION_ID = 'ms-python.python';
+
+/**
+ * The environment the Python extension uses: an interpreter path, or an environment folder for
+ * environments without an interpreter yet
+ */
+export interface ActiveEnvironmentPath {
+    readonly id: string;
+    readonly path: string;
+}
+
+export interface ActiveEnvironmentPathChangeEvent extends ActiveEnvironmentPath {
+    readonly resource?: vscode.WorkspaceFolder;
+}
+
+/**
+ * The part of the Python extension's environments API that Piping uses
+ */
+export interface PythonEnvironmentsApi {
+    getActiveEnvironmentPath(resource?: vscode.Uri | vscode.WorkspaceFolder): ActiveEnvironmentPath;
+    updateActiveEnvironmentPath(environment: string, resource?: vscode.Uri | vscode.WorkspaceFolder): Promise<void>;
+    readonly onDidChangeActiveEnvironmentPath: vscode.Event<ActiveEnvironmentPathChangeEvent>;
+}
+
+/**
+ * Get the environments API of the Python extension, activating the extension if needed.
+ * Resolves to undefined when the extension is not installed or too old to have the API.
+ */
+export async function getPythonEnvironmentsApi(outputChannel: vscode.OutputChannel): Promise<PythonEnvironmentsApi | undefined> {
+    const extension = vscode.extensions.getExtension<{ environments?: PythonEnvironmentsApi }>(PYTHON_EXTENSION_ID);
+    if (!extension) {
+        return undefined;
+    }
+
+    try {
+        const api = extension.isActive ? extension.exports : await extension.activate();
+        return api?.environments;
+    } catch (error) {
+        outputChannel.appendLine(`Failed to activate the Python extension: ${error}`);
+        return undefined;
+    }
+}
@@ -0,0 +1,250 @@
+/**
+ * Helper scripts that are piped to the environment's interpreter on stdin.
+ * They must only use the standard library (plus pip's vendored packages),
+ * since the target environment may be a freshly created venv.
+ */
+
+/**
+ * Prints name, version, summary, requires, required-by, location, installer,
+ * direct_url.json origin and license metadata of every distribution in the environment as a JSON array.
+ */
+export const PACKAGE_METADATA_SCRIPT = String.raw`
+import json
+import re
+import sys
+
+# Running from stdin puts the working directory on sys.path, which would
+# make distributions lying around in it look installed
+if sys.path and sys.path[0] == "":
+    sys.path.pop(0)
+
+try:
+    from importlib import metadata
+except ImportError:
+    import importlib_metadata as metadata
+
+try:
+    from packaging.requirements import Requirement
+except ImportError:
+    try:
+        from pip._vendor.packaging.requirements import Requirement
+    except ImportError:
+        Requirement = None
+
+NAME_PATTERN = re.compile(r"^\s*([A-Za-z0-9][A-Za-z0-9._-]*)")
+
+
+def normalize(name):
+    return re.sub(r"[-_.]+", "-", name).lower()
+
+
+def requirement_name(spec):
+    # Like pip show, leave out requirements that only apply to extras or
+    # whose markers do not match this interpreter
+    if Requirement is not None:
+        try:
+            requirement = Requirement(spec)
+            if requirement.marker is not None and not requirement.marker.evaluate({"extra": ""}):
+                return None
+        except Exception:
+            return None
+        return requirement.name
+
+    name, _, marker = spec.partition(";")
+    if "extra" in marker:
+        return None
+    match = NAME_PATTERN.match(name)
+    return match.group(1) if match else None
+
+
+packages = {}
+for dist in metadata.distributions():
+    name = dist.metadata["Name"]
+    if not name:
+        continue
+
+    key = normalize(name)
+    # The first distribution found on sys.path is the one Python imports
+    if key in packages:
+        continue
+
+    requires = []
+    for spec in dist.requires or []:
+        requirement = requirement_name(spec)
+        if requirement and requirement not in requires:
+            requires.append(requirement)
+
+    direct_url = None
+    try:
+        info = json.loads(dist.read_text("direct_url.json") or "null")
+    except ValueError:
+        info = None
+    if info and info.get("url"):
+        direct_url = {
+            "url": info["url"],
+            "editable": bool(info.get("dir_info", {}).get("editable")),
+        }
+        if "vcs_info" in info:
+            direct_url["vcs"] = info["vcs_info"].get("vcs")
+            direct_url["commitId"] = info["vcs_info"].get("commit_id")
+        archive = info.get("archive_info", {})
+        if archive.get("hashes"):
+            direct_url["hashes"] = archive["hashes"]
+        elif "=" in archive.get("hash", ""):
+            algorithm, _, value = archive["hash"].partition("=")
+            direct_url["hashes"] = {algorithm: value}
+
+    # Some projects put the whole license text into License; its start is enough to recognise it
+    license_text = (dist.metadata["License"] or "").strip()
+    if license_text.upper() == "UNKNOWN":
+        license_text = ""
+
+    packages[key] = {
+        "name": name,
+        "version": dist.version,
+        "description": dist.metadata["Summary"] or "",
+        "requires": requires,
+        "requiredBy": [],
+        "location": str(dist.locate_file("")),
+        "installer": (dist.read_text("INSTALLER") or "").strip(),
+        "directUrl": direct_url,
+        "license": {
+            "expression": (dist.metadata["License-Expression"] or "").strip(),
+            "text": license_text[:500],
+            "classifiers": [c for c in dist.metadata.get_all("Classifier") or [] if c.startswith("License ::")],
+        },
+    }
+
+for package in packages.values():
+    for requirement in package["requires"]:
+        target = packages.get(normalize(requirement))
+        if target is not None and package["name"] not in target["requiredBy"]:
+            target["requiredBy"].append(package["name"])
+
+json.dump(list(packages.values()), sys.stdout)
+`;
+
+/**
+ * Prints the PEP 508 marker environment of the interpreter as a JSON object
+ */
+export const MARKER_ENVIRONMENT_SCRIPT = String.raw`
+import json
+import os
+import platform
+import sys
+
+
+def format_full_version(info):
+    version = "{0.major}.{0.minor}.{0.micro}".format(info)
+    if info.releaselevel != "final":
+        version += info.releaselevel[0] + str(info.serial)
+    return version
+
+
+json.dump({
+    "implementation_name": sys.implementation.name,
+    "implementation_version": format_full_version(sys.implementation.version),
+    "os_name": os.name,
+    "platform_machine": platform.machine(),
+    "platform_release": platform.release(),
+    "platform_system": platform.system(),
+    "platform_version": platform.version(),
+    "python_full_version": platform.python_version(),
+    "platform_python_implementation": platform.python_implementation(),
+    "python_version": ".".join(platform.python_version_tuple()[:2]),
+    "sys_platform": sys.platform,
+}, sys.stdout)
+`;
+
+/**
+ * Prints the top-level modules each distribution provides, read from top_level.txt
+ * or derived from RECORD, and the names of the standard library modules.
+ */
+export const MODULE_MAP_SCRIPT = String.raw`
+import json
+import os
+import re
+import sys
+
+if sys.path and sys.path[0] == "":
+    sys.path.pop(0)
+
+try:
+    from importlib import metadata
+except ImportError:
+    import importlib_metadata as metadata
+
+MODULE_SUFFIXES = (".py", ".pyc", ".so", ".pyd")
+
+
+def normalize(name):
+    return re.sub(r"[-_.]+", "-", name).lower()
+
+
+def top_level_names(dist):
+    text = dist.read_text("top_level.txt")
+    if text:
+        return [line.strip().replace("\\", "/").split("/")[0] for line in text.splitlines() if line.strip()]
+
+    names = []
+    for path in dist.files or []:
+        parts = path.parts
+        if not parts or parts[0] in ("..", "__pycache__") or parts[0].endswith((".dist-info", ".egg-info", ".data")):
+            continue
+        if len(parts) == 1:
+            if parts[0].endswith(MODULE_SUFFIXES):
+                names.append(parts[0].split(".")[0])
+        elif parts[-1].endswith(MODULE_SUFFIXES):
+            names.append(parts[0])
+    return names
+
+
+def stdlib_names():
+    names = set(sys.builtin_module_names)
+    if hasattr(sys, "stdlib_module_names"):
+        return names | set(sys.stdlib_module_names)
+
+    import sysconfig
+    stdlib = sysconfig.get_paths()["stdlib"]
+    for directory in (stdlib, os.path.join(stdlib, "lib-dynload")):
+        try:
+            entries = os.listdir(directory)
+        except OSError:
+            continue
+        for entry in entries:
+            if entry == "site-packages":
+                continue
+            names.add(entry.split(".")[0])
+    return names
+
+
+modules = {}
+seen = set()
+for dist in metadata.distributions():
+    name = dist.metadata["Name"]
+    if not name or normalize(name) in seen:
+        continue
+    seen.add(normalize(name))
+
+    for module in set(top_level_names(dist)):
+        if module.isidentifier():
+            modules.setdefault(module, []).append(name)
+
+json.dump({"modules": modules, "stdlib": sorted(stdlib_names())}, sys.stdout)
+`;
+
+/**
+ * Prints the interpreter's version, implementation and the interpreter an
+ * environment was created from as a JSON object.
+ */
+export const ENVIRONMENT_INFO_SCRIPT = String.raw`
+import json
+import platform
+import sys
+
+json.dump({
+    "version": platform.python_version(),
+    "implementation": platform.python_implementation(),
+    "base_executable": getattr(sys, "_base_executable", None) or sys.executable,
+}, sys.stdout)
+`;
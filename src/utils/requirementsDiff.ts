@@ -0,0 +1,120 @@
+import { PackageInfo } from './pythonExecutor';
+import { PACKAGING_TOOLS, normalizePackageName } from './dependencyGraph';
+import { MarkerEnvironment, VersionSpecifier, evaluateMarker, formatRequirement } from './pep508';
+import { satisfiesAll } from './pep440';
+import { RequirementEntry, RequirementsFile } from './requirementsFile';
+
+export type RequirementStatus = 'satisfied' | 'missing' | 'mismatch' | 'unlisted';
+
+export interface RequirementDiffEntry {
+    name: string;
+    status: RequirementStatus;
+    required?: string;
+    installedVersion?: string;
+    installSpec?: string;
+    specifiers?: VersionSpecifier[];
+    hashes?: string[];
+    editable?: boolean;
+    source?: string;
+}
+
+/**
+ * Whether a requirement applies to the interpreter described by the marker environment
+ */
+export function requirementApplies(entry: RequirementEntry, environment: MarkerEnvironment): boolean {
+    if (!entry.requirement.marker) {
+        return true;
+    }
+    try {
+        return evaluateMarker(entry.requirement.marker, { ...environment, extra: '' });
+    } catch (error) {
+        return false;
+    }
+}
+
+/**
+ * Compare parsed requirements with the installed packages. Installed packages
+ * are only reported as unlisted when no listed package depends on them.
+ */
+export function diffRequirements(
+    requirementsFile: RequirementsFile,
+    installed: PackageInfo[],
+    environment: MarkerEnvironment
+): RequirementDiffEntry[] {
+    const installedByName = new Map(installed.map(pkg => [normalizePackageName(pkg.name), pkg]));
+    const constraints = requirementsFile.constraints.filter(entry => requirementApplies(entry, environment));
+    const entries: RequirementDiffEntry[] = [];
+    const listed = new Set<string>();
+
+    for (const entry of requirementsFile.requirements) {
+        if (!requirementApplies(entry, environment)) {
+            continue;
+        }
+
+        const key = normalizePackageName(entry.requirement.name);
+        if (listed.has(key)) {
+            continue;
+        }
+        listed.add(key);
+
+        // Constraints narrow the accepted versions of packages that are required
+        const specifiers = [
+            ...entry.requirement.specifiers,
+            ...constraints
+                .filter(constraint => normalizePackageName(constraint.requirement.name) === key)
+                .flatMap(constraint => constraint.requirement.specifiers)
+        ];
+
+        const pkg = installedByName.get(key);
+        const installSpec = entry.editable
+            ? undefined
+            : entry.requirement.url
+                ? formatRequirement({ ...entry.requirement, marker: undefined })
+                : formatRequirement({ ...entry.requirement, specifiers, marker: undefined });
+
+        let status: RequirementStatus = 'satisfied';
+        if (!pkg) {
+            status = 'missing';
+        } else if (!entry.requirement.url && !satisfiesAll(pkg.version, specifiers)) {
+            status = 'mismatch';
+        }
+
+        entries.push({
+            name: entry.requirement.name,
+            status,
+            required: formatRequirement({ ...entry.requirement, specifiers, marker: undefined }),
+            installedVersion: pkg?.version,
+            installSpec,
+            specifiers,
+            hashes: entry.hashes.length ? entry.hashes : undefined,
+            editable: entry.editable,
+            source: `${entry.file}:${entry.line}`
+        });
+    }
+
+    // Everything the listed packages pull in is accounted for
+    const needed = new Set<string>();
+    const stack = Array.from(listed);
+    while (stack.length) {
+        const key = stack.pop()!;
+        if (needed.has(key)) {
+            continue;
+        }
+        needed.add(key);
+        for (const dependency of installedByName.get(key)?.requires || []) {
+            stack.push(normalizePackageName(dependency));
+        }
+    }
+
+    for (const [key, pkg] of installedByName) {
+        if (!needed.has(key) && !PACKAGING_TOOLS.includes(key)) {
+            entries.push({
+                name: pkg.name,
+                status: 'unlisted',
+                installedVersion: pkg.version
+            });
+        }
+    }
+
+    return entries;
+}
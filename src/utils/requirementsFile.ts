@@ -0,0 +1,239 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { pathToFileURL } from 'url';
+import { Requirement, parseRequirement } from './pep508';
+import { shellQuote } from './commandExecutors';
+
+export interface RequirementEntry {
+    requirement: Requirement;
+    file: string;
+    line: number;
+    hashes: string[];
+    editable?: boolean;
+}
+
+export interface RequirementProblem {
+    file: string;
+    line: number;
+    message: string;
+}
+
+export interface RequirementsFile {
+    files: string[];
+    requirements: RequirementEntry[];
+    constraints: RequirementEntry[];
+    options: string[];
+    problems: RequirementProblem[];
+}
+
+// Options that apply to the whole file and take a value
+const GLOBAL_OPTIONS_WITH_VALUE = [
+    '-i', '--index-url', '--extra-index-url', '-f', '--find-links', '--trusted-host',
+    '--no-binary', '--only-binary', '--use-feature'
+];
+
+// Folders whose files belong to installed packages rather than to the project
+export const ENVIRONMENT_FOLDERS = ['node_modules', '.venv', 'venv', 'env', '.env', 'site-packages', '.tox', '.nox'];
+export const ENVIRONMENT_FOLDERS_GLOB = `**/{${ENVIRONMENT_FOLDERS.join(',')}}/**`;
+
+/**
+ * Find requirements files in the workspace or one of its folders, skipping virtual environments
+ */
+export async function findRequirementsFiles(folder?: vscode.WorkspaceFolder): Promise<vscode.Uri[]> {
+    const files = await vscode.workspace.findFiles(
+        folder ? new vscode.RelativePattern(folder, '**/requirements*.txt') : '**/requirements*.txt',
+        ENVIRONMENT_FOLDERS_GLOB
+    );
+    return files.sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/**
+ * Parse a pip requirements file, following -r includes and -c constraint files
+ */
+export async function parseRequirementsFile(filePath: string): Promise<RequirementsFile> {
+    const result: RequirementsFile = {
+        files: [],
+        requirements: [],
+        constraints: [],
+        options: [],
+        problems: []
+    };
+
+    await parseInto(path.resolve(filePath), result, false);
+    return result;
+}
+
+/**
+ * The constraint files a parsed file includes, as local paths
+ */
+export function constraintFiles(file: RequirementsFile): string[] {
+    return [...new Set(file.constraints.map(entry => entry.file))];
+}
+
+/**
+ * The lines that carry a parsed file's global options, such as its index URLs, and optionally
+ * its constraint files into another requirements file. pip splits option lines like a shell,
+ * so the paths are quoted.
+ */
+export function fileOptionLines(file: RequirementsFile, withConstraints = true): string[] {
+    const constraints = withConstraints ? constraintFiles(file) : [];
+    return [...file.options, ...constraints.map(constraintFile => `-c ${shellQuote(constraintFile)}`)];
+}
+
+/**
+ * Split a file into logical lines, joining backslash continuations and dropping comments
+ */
+function logicalLines(content: string): Array<{ text: string, line: number }> {
+    const lines: Array<{ text: string, line: number }> = [];
+    const physical = content.split(/\r?\n/);
+    let buffer = '';
+    let startLine = 0;
+
+    physical.forEach((text, index) => {
+        if (!buffer) {
+            startLine = index + 1;
+        }
+        if (text.endsWith('\\')) {
+            buffer += text.slice(0, -1) + ' ';
+            return;
+        }
+        buffer += text;
+
+        const withoutComment = buffer.replace(/(^|\s)#.*$/, '').trim();
+        if (withoutComment) {
+            lines.push({ text: withoutComment, line: startLine });
+        }
+        buffer = '';
+    });
+
+    if (buffer.trim()) {
+        lines.push({ text: buffer.replace(/(^|\s)#.*$/, '').trim(), line: startLine });
+    }
+    return lines;
+}
+
+/**
+ * Split an option token list such as `-r base.txt` or `--hash=sha256:abc`
+ */
+function readOption(tokens: string[], index: number): { name: string, value?: string, next: number } {
+    const token = tokens[index];
+    const equals = token.indexOf('=');
+
+    if (token.startsWith('--') && equals > 0) {
+        return { name: token.substring(0, equals), value: token.substring(equals + 1), next: index + 1 };
+    }
+    if (!token.startsWith('--') && token.length > 2) {
+        // Short options may be glued to their value, as in -rbase.txt
+        return { name: token.substring(0, 2), value: token.substring(2), next: index + 1 };
+    }
+    return { name: token, value: tokens[index + 1], next: index + 2 };
+}
+
+async function parseInto(filePath: string, result: RequirementsFile, asConstraints: boolean): Promise<void> {
+    if (result.files.includes(filePath)) {
+        return;
+    }
+    result.files.push(filePath);
+
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    const target = asConstraints ? result.constraints : result.requirements;
+    const directory = path.dirname(filePath);
+
+    for (const { text, line } of logicalLines(content)) {
+        const problem = (message: string) => result.problems.push({ file: filePath, line, message });
+
+        if (text.startsWith('-')) {
+            const tokens = text.split(/\s+/);
+            const option = readOption(tokens, 0);
+
+            switch (option.name) {
+                case '-r':
+                case '--requirement':
+                case '-c':
+                case '--constraint': {
+                    if (!option.value) {
+                        problem(`${option.name} needs a file name`);
+                        break;
+                    }
+                    if (/^[a-z][a-z0-9+.-]*:\/\//i.test(option.value)) {
+                        problem(`Remote requirements files are not supported: ${option.value}`);
+                        break;
+                    }
+                    const included = path.resolve(directory, option.value);
+                    const constraint = option.name === '-c' || option.name === '--constraint';
+                    try {
+                        await parseInto(included, result, asConstraints || constraint);
+                    } catch (error) {
+                        problem(`Could not read ${option.value}: ${error}`);
+                    }
+                    break;
+                }
+                case '-e':
+                case '--editable': {
+                    const eggMatch = option.value ? /#egg=([^&\s]+)/.exec(option.value) : null;
+                    if (!eggMatch) {
+                        problem(`Editable requirement without #egg= name cannot be compared: ${option.value || ''}`);
+                        break;
+                    }
+                    try {
+                        const requirement = parseRequirement(eggMatch[1]);
+                        requirement.url = option.value!.replace(/#.*$/, '');
+                        target.push({ requirement, file: filePath, line, hashes: [], editable: true });
+                    } catch (error) {
+                        problem(String(error instanceof Error ? error.message : error));
+                    }
+                    break;
+                }
+                default:
+                    result.options.push(GLOBAL_OPTIONS_WITH_VALUE.includes(option.name) && option.value
+                        ? `${option.name} ${option.value}`
+                        : text);
+            }
+            continue;
+        }
+
+        // Per-requirement options such as --hash follow the specifier
+        const optionStart = text.search(/\s--?[A-Za-z]/);
+        const spec = optionStart >= 0 ? text.substring(0, optionStart).trim() : text;
+        const hashes: string[] = [];
+
+        if (optionStart >= 0) {
+            const tokens = text.substring(optionStart).trim().split(/\s+/);
+            for (let i = 0; i < tokens.length;) {
+                const option = readOption(tokens, i);
+                if (option.name === '--hash' && option.value) {
+                    hashes.push(option.value);
+                }
+                i = option.next;
+            }
+        }
+
+        // Plain paths and URLs only carry a name through #egg=
+        if (/^(\.|\/|[a-z][a-z0-9+.-]*:\/\/)/i.test(spec) || /\.(whl|tar\.gz|zip)$/i.test(spec)) {
+            const eggMatch = /#egg=([^&\s]+)/.exec(spec);
+            if (!eggMatch) {
+                problem(`Cannot determine the package name of ${spec}`);
+                continue;
+            }
+            try {
+                const requirement = parseRequirement(eggMatch[1]);
+                const location = spec.replace(/#.*$/, '');
+                // Local paths become file URLs so the spec stays valid PEP 508
+                requirement.url = /^[a-z][a-z0-9+.-]*:\/\//i.test(location)
+                    ? location
+                    : pathToFileURL(path.resolve(directory, location)).toString();
+                target.push({ requirement, file: filePath, line, hashes });
+            } catch (error) {
+                problem(String(error instanceof Error ? error.message : error));
+            }
+            continue;
+        }
+
+        try {
+            target.push({ requirement: parseRequirement(spec), file: filePath, line, hashes });
+        } catch (error) {
+            problem(String(error instanceof Error ? error.message : error));
+        }
+    }
+}
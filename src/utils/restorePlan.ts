@@ -0,0 +1,131 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { EnvironmentManifest, FrozenPackage } from './environmentExport';
+import { RequirementsFile, parseRequirementsFile } from './requirementsFile';
+import { RequirementDiffEntry } from './requirementsDiff';
+import { compareVersions, satisfiesAll } from './pep440';
+import { parseRequirement } from './pep508';
+
+export type RestoreAction = 'install' | 'upgrade' | 'downgrade' | 'remove';
+
+export interface RestorePlanEntry {
+    id: string;
+    name: string;
+    action: RestoreAction;
+    currentVersion?: string;
+    targetVersion?: string;
+    requirementLine?: string;
+}
+
+/**
+ * Read a requirements/lock file or a JSON manifest written by "Freeze Environment"
+ */
+export async function readRestoreSource(filePath: string): Promise<RequirementsFile> {
+    if (path.extname(filePath).toLowerCase() !== '.json') {
+        return parseRequirementsFile(filePath);
+    }
+
+    const manifest = JSON.parse(await fs.promises.readFile(filePath, 'utf8')) as EnvironmentManifest;
+    if (manifest.generatedBy !== 'piping' || !Array.isArray(manifest.packages)) {
+        throw new Error(`${path.basename(filePath)} is not a Piping environment manifest`);
+    }
+
+    return frozenPackagesToRequirements(manifest.packages, filePath);
+}
+
+/**
+ * Express a frozen package set as pinned requirements
+ */
+export function frozenPackagesToRequirements(packages: FrozenPackage[], source: string): RequirementsFile {
+    const result: RequirementsFile = { files: [source], requirements: [], constraints: [], options: [], problems: [] };
+
+    packages.forEach((pkg, index) => {
+        const url = pkg.directUrl?.vcs
+            ? `${pkg.directUrl.vcs}+${pkg.directUrl.url}${pkg.directUrl.commitId ? `@${pkg.directUrl.commitId}` : ''}`
+            : pkg.directUrl?.url;
+
+        try {
+            result.requirements.push({
+                requirement: parseRequirement(url ? `${pkg.name} @ ${url}` : `${pkg.name}==${pkg.version}`),
+                file: source,
+                line: index + 1,
+                hashes: pkg.hashes || [],
+                // Editable installs are listed so they are never removed, but are left to the user
+                editable: pkg.directUrl?.editable || undefined
+            });
+        } catch (error) {
+            result.problems.push({ file: source, line: index + 1, message: String(error instanceof Error ? error.message : error) });
+        }
+    });
+
+    return result;
+}
+
+/**
+ * The exact version a requirement pins, if it pins one
+ */
+function pinnedVersion(entry: RequirementDiffEntry): string | undefined {
+    const pins = (entry.specifiers || []).filter(spec =>
+        (spec.operator === '==' && !spec.version.endsWith('.*')) || spec.operator === '===');
+    return pins.length ? pins[0].version : undefined;
+}
+
+/**
+ * The requirements file line that installs an entry, with the hashes the file lists for it
+ */
+export function requirementLineOf(entry: RequirementDiffEntry): string {
+    const hashes = (entry.hashes || []).map(hash => ` --hash=${hash}`).join('');
+    return `${entry.installSpec}${hashes}`;
+}
+
+/**
+ * Turn a requirements diff into a plan of installs, upgrades, downgrades and removals
+ */
+export function computeRestorePlan(diff: RequirementDiffEntry[]): RestorePlanEntry[] {
+    const plan: RestorePlanEntry[] = [];
+
+    for (const entry of diff) {
+        if (entry.status === 'satisfied') {
+            continue;
+        }
+
+        if (entry.status === 'unlisted') {
+            plan.push({
+                id: `remove:${entry.name}`,
+                name: entry.name,
+                action: 'remove',
+                currentVersion: entry.installedVersion
+            });
+            continue;
+        }
+
+        if (!entry.installSpec) {
+            continue;
+        }
+
+        const target = pinnedVersion(entry);
+        let action: RestoreAction = 'install';
+
+        if (entry.status === 'mismatch' && entry.installedVersion) {
+            if (target) {
+                action = compareVersions(target, entry.installedVersion) < 0 ? 'downgrade' : 'upgrade';
+            } else {
+                // Without a pin, a version that meets every lower bound must be too new
+                const lowerBounds = (entry.specifiers || []).filter(spec => ['>=', '>', '~='].includes(spec.operator));
+                action = satisfiesAll(entry.installedVersion, lowerBounds) ? 'downgrade' : 'upgrade';
+            }
+        }
+
+        plan.push({
+            id: `${action}:${entry.name}`,
+            name: entry.name,
+            action,
+            currentVersion: entry.installedVersion,
+            targetVersion: target || entry.required,
+            requirementLine: requirementLineOf(entry)
+        });
+    }
+
+    const order: RestoreAction[] = ['install', 'upgrade', 'downgrade', 'remove'];
+    return plan.sort((a, b) => order.indexOf(a.action) - order.indexOf(b.action) || a.name.localeCompare(b.name));
+}
@@ -0,0 +1,130 @@
+import * as vscode from 'vscode';
+import { PythonExecutor } from './pythonExecutor';
+import { normalizePackageName } from './dependencyGraph';
+import {
+    OsvApiDatabase,
+    OsvDatabase,
+    OsvDirectoryDatabase,
+    advisoryUrl,
+    findSafeVersion,
+    fixedVersions,
+    isAffected,
+    severityOf
+} from './osv';
+
+export interface PackageAdvisory {
+    id: string;
+    summary: string;
+    aliases: string[];
+    severity?: string;
+    url: string;
+    fixedVersions: string[];
+}
+
+/**
+ * An installed package that advisories affect
+ */
+export interface VulnerablePackage {
+    name: string;
+    version: string;
+    advisories: PackageAdvisory[];
+    // The nearest version no known advisory affects, when there is one
+    safeVersion?: string;
+}
+
+export interface AuditReport {
+    // The OSV endpoint or dump directory the advisories came from
+    source: string;
+    checkedAt: string;
+    packageCount: number;
+    vulnerable: VulnerablePackage[];
+}
+
+const DEFAULT_OSV_URL = 'https://api.osv.dev';
+
+/**
+ * Checks installed packages against OSV advisories and keeps the latest report of each environment
+ */
+export class SecurityAudit implements vscode.Disposable {
+    private readonly _onDidChange = new vscode.EventEmitter<string>();
+    readonly onDidChange: vscode.Event<string> = this._onDidChange.event;
+
+    private _reports = new Map<string, AuditReport>();
+
+    constructor(private readonly outputChannel: vscode.OutputChannel) {}
+
+    /**
+     * The configured advisory source: the dump directory when one is set, otherwise the OSV API
+     */
+    get database(): OsvDatabase {
+        const config = vscode.workspace.getConfiguration('piping');
+        const directory = config.get<string>('osvDirectory');
+        return directory
+            ? new OsvDirectoryDatabase(directory)
+            : new OsvApiDatabase(config.get<string>('osvUrl') || DEFAULT_OSV_URL);
+    }
+
+    /**
+     * Check every package of an executor's environment and keep the report.
+     * Rejects when the advisories cannot be read.
+     */
+    public async audit(pythonExecutor: PythonExecutor): Promise<AuditReport> {
+        const environmentKey = await pythonExecutor.getEnvironmentKey();
+        const packages = (await pythonExecutor.getInstalledPackages()).filter(pkg => pkg.version);
+        const database = this.database;
+        this.outputChannel.appendLine(`Auditing ${packages.length} package(s) against ${database.description}`);
+
+        const vulnerable: VulnerablePackage[] = [];
+        for (const pkg of await database.findCandidates(packages)) {
+            const vulnerabilities = await database.getVulnerabilities(pkg.name);
+            const advisories = vulnerabilities.filter(vulnerability => isAffected(vulnerability, pkg.name, pkg.version));
+            if (!advisories.length) {
+                continue;
+            }
+
+            vulnerable.push({
+                name: pkg.name,
+                version: pkg.version,
+                advisories: advisories.map(vulnerability => ({
+                    id: vulnerability.id,
+                    summary: vulnerability.summary || vulnerability.details?.split('\n')[0] || '',
+                    aliases: vulnerability.aliases || [],
+                    severity: severityOf(vulnerability),
+                    url: advisoryUrl(vulnerability),
+                    fixedVersions: fixedVersions(vulnerability, pkg.name)
+                })),
+                safeVersion: findSafeVersion(vulnerabilities, pkg.name, pkg.version)
+            });
+            this.outputChannel.appendLine(`${pkg.name} ${pkg.version}: ${advisories.map(vulnerability => vulnerability.id).join(', ')}`);
+        }
+
+        const report: AuditReport = {
+            source: database.description,
+            checkedAt: new Date().toISOString(),
+            packageCount: packages.length,
+            vulnerable: vulnerable.sort((a, b) => a.name.localeCompare(b.name))
+        };
+        this._reports.set(environmentKey, report);
+        this._onDidChange.fire(environmentKey);
+        return report;
+    }
+
+    /**
+     * The latest report of an environment, if it was audited
+     */
+    public getReport(environmentKey: string): AuditReport | undefined {
+        return this._reports.get(environmentKey);
+    }
+
+    /**
+     * The findings of a report about a package, as long as the version it checked is still installed
+     */
+    public findVulnerability(report: AuditReport | undefined, name: string, version: string): VulnerablePackage | undefined {
+        const normalized = normalizePackageName(name);
+        return report?.vulnerable.find(pkg => normalizePackageName(pkg.name) === normalized && pkg.version === version);
+    }
+
+    dispose(): void {
+        this._onDidChange.dispose();
+    }
+}
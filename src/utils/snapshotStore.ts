@@ -0,0 +1,147 @@
+import * as vscode from 'vscode';
+import * as crypto from 'crypto';
+import { FrozenPackage } from './environmentExport';
+import { normalizePackageName } from './dependencyGraph';
+import { compareVersions } from './pep440';
+
+export interface EnvironmentSnapshot {
+    id: string;
+    createdAt: string;
+    reason: string;
+    packages: FrozenPackage[];
+}
+
+export interface SnapshotChange {
+    name: string;
+    before?: string;
+    after?: string;
+    change: 'added' | 'removed' | 'upgraded' | 'downgraded';
+}
+
+interface SnapshotFile {
+    environment: string;
+    snapshots: EnvironmentSnapshot[];
+}
+
+// Older snapshots are dropped once an environment has this many
+const MAX_SNAPSHOTS = 50;
+
+/**
+ * Package sets recorded before Piping changes an environment, stored per
+ * environment in extension storage
+ */
+export class SnapshotStore {
+    private readonly _onDidChange = new vscode.EventEmitter<string>();
+    readonly onDidChange: vscode.Event<string> = this._onDidChange.event;
+
+    // Writes are chained so concurrent operations don't lose each other's snapshots
+    private _writing: Promise<unknown> = Promise.resolve();
+
+    constructor(
+        private readonly storageUri: vscode.Uri,
+        private readonly outputChannel: vscode.OutputChannel
+    ) {}
+
+    /**
+     * Get the snapshots of an environment, newest first
+     */
+    public async list(environment: string): Promise<EnvironmentSnapshot[]> {
+        await this._writing;
+        return (await this.read(environment)).snapshots;
+    }
+
+    /**
+     * Record the package set of an environment. Nothing is recorded when it
+     * matches the newest snapshot.
+     */
+    public record(environment: string, reason: string, packages: FrozenPackage[]): Promise<void> {
+        const write = this._writing.then(async () => {
+            const file = await this.read(environment);
+            const latest = file.snapshots[0];
+            if (latest && !diffSnapshots(latest.packages, packages).length) {
+                return;
+            }
+
+            const createdAt = new Date().toISOString();
+            file.snapshots.unshift({
+                id: `${Date.now().toString(36)}-${crypto.randomBytes(3).toString('hex')}`,
+                createdAt,
+                reason,
+                packages
+            });
+            file.snapshots = file.snapshots.slice(0, MAX_SNAPSHOTS);
+
+            await vscode.workspace.fs.writeFile(this.fileFor(environment), Buffer.from(JSON.stringify(file), 'utf8'));
+            this._onDidChange.fire(environment);
+        }).catch(error => {
+            this.outputChannel.appendLine(`Error recording snapshot: ${error}`);
+        });
+
+        this._writing = write;
+        return write;
+    }
+
+    /**
+     * Forget every snapshot of an environment
+     */
+    public async clear(environment: string): Promise<void> {
+        await this._writing;
+        try {
+            await vscode.workspace.fs.delete(this.fileFor(environment));
+        } catch (error) {
+            // Nothing recorded yet
+        }
+        this._onDidChange.fire(environment);
+    }
+
+    private fileFor(environment: string): vscode.Uri {
+        return vscode.Uri.joinPath(
+            this.storageUri,
+            'snapshots',
+            `${crypto.createHash('sha1').update(environment).digest('hex')}.json`
+        );
+    }
+
+    private async read(environment: string): Promise<SnapshotFile> {
+        try {
+            const file = JSON.parse(Buffer.from(await vscode.workspace.fs.readFile(this.fileFor(environment))).toString('utf8')) as SnapshotFile;
+            if (file.environment === environment && Array.isArray(file.snapshots)) {
+                return file;
+            }
+        } catch (error) {
+            // No snapshots yet
+        }
+        return { environment, snapshots: [] };
+    }
+}
+
+/**
+ * List the packages that differ between two package sets
+ */
+export function diffSnapshots(before: FrozenPackage[], after: FrozenPackage[]): SnapshotChange[] {
+    const beforeByName = new Map(before.map(pkg => [normalizePackageName(pkg.name), pkg]));
+    const afterByName = new Map(after.map(pkg => [normalizePackageName(pkg.name), pkg]));
+    const changes: SnapshotChange[] = [];
+
+    for (const [key, pkg] of afterByName) {
+        const previous = beforeByName.get(key);
+        if (!previous) {
+            changes.push({ name: pkg.name, after: pkg.version, change: 'added' });
+        } else if (previous.version !== pkg.version) {
+            changes.push({
+                name: pkg.name,
+                before: previous.version,
+                after: pkg.version,
+                change: compareVersions(pkg.version, previous.version) < 0 ? 'downgraded' : 'upgraded'
+            });
+        }
+    }
+
+    for (const [key, pkg] of beforeByName) {
+        if (!afterByName.has(key)) {
+            changes.push({ name: pkg.name, before: pkg.version, change: 'removed' });
+        }
+    }
+
+    return changes.sort((a, b) => a.name.localeCompare(b.name));
+}
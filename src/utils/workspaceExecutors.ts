@@ -0,0 +1,116 @@
+import * as vscode from 'vscode';
+import { PythonExecutor } from './pythonExecutor';
+import { SnapshotStore } from './snapshotStore';
+import { OperationQueue } from './operationQueue';
+
+/**
+ * One executor per workspace folder, so every folder of a multi-root workspace has its
+ * own active environment. A window without folders gets a single executor.
+ */
+export class WorkspaceExecutors implements vscode.Disposable {
+    private _onDidChangeFolders = new vscode.EventEmitter<void>();
+    readonly onDidChangeFolders: vscode.Event<void> = this._onDidChangeFolders.event;
+
+    private _onDidChangeActive = new vscode.EventEmitter<PythonExecutor>();
+    readonly onDidChangeActive: vscode.Event<PythonExecutor> = this._onDidChangeActive.event;
+
+    private _executors = new Map<string, PythonExecutor>();
+    private _windowExecutor?: PythonExecutor;
+    private _active?: PythonExecutor;
+    private _disposables: vscode.Disposable[] = [];
+
+    constructor(
+        private _outputChannel: vscode.OutputChannel,
+        private snapshotStore?: SnapshotStore,
+        private operationQueue?: OperationQueue
+    ) {
+        this._disposables.push(
+            vscode.workspace.onDidChangeWorkspaceFolders(event => {
+                event.removed.forEach(folder => this._executors.delete(folder.uri.toString()));
+                this._onDidChangeFolders.fire();
+                this.updateActive();
+            }),
+            vscode.window.onDidChangeActiveTextEditor(() => this.updateActive())
+        );
+        this.updateActive();
+    }
+
+    get outputChannel(): vscode.OutputChannel {
+        return this._outputChannel;
+    }
+
+    /**
+     * Whether the views group their content by workspace folder
+     */
+    get isMultiRoot(): boolean {
+        return (vscode.workspace.workspaceFolders?.length || 0) > 1;
+    }
+
+    /**
+     * The executors of every workspace folder, or the window's one without folders
+     */
+    get all(): PythonExecutor[] {
+        const folders = vscode.workspace.workspaceFolders || [];
+        return folders.length ? folders.map(folder => this.get(folder)) : [this.get()];
+    }
+
+    /**
+     * The executor of the folder the active editor belongs to, or of the last such folder
+     */
+    get active(): PythonExecutor {
+        return this._active || this.all[0];
+    }
+
+    /**
+     * The executor of a workspace folder. Without a folder, the first folder's one.
+     */
+    get(folder?: vscode.WorkspaceFolder): PythonExecutor {
+        folder = folder || vscode.workspace.workspaceFolders?.[0];
+        if (!folder) {
+            if (!this._windowExecutor) {
+                this._windowExecutor = this.create();
+            }
+            return this._windowExecutor;
+        }
+
+        const key = folder.uri.toString();
+        let executor = this._executors.get(key);
+        if (!executor) {
+            executor = this.create(folder);
+            this._executors.set(key, executor);
+        }
+        return executor;
+    }
+
+    /**
+     * The executor of the folder a file belongs to, or the active one for files outside the workspace
+     */
+    forUri(uri: vscode.Uri): PythonExecutor {
+        const folder = vscode.workspace.getWorkspaceFolder(uri);
+        return folder ? this.get(folder) : this.active;
+    }
+
+    dispose(): void {
+        this._onDidChangeFolders.dispose();
+        this._onDidChangeActive.dispose();
+        this._disposables.forEach(disposable => disposable.dispose());
+    }
+
+    private create(folder?: vscode.WorkspaceFolder): PythonExecutor {
+        const executor = new PythonExecutor(this._outputChannel, folder);
+        executor.snapshotStore = this.snapshotStore;
+        executor.operationQueue = this.operationQueue;
+        return executor;
+    }
+
+    private updateActive(): void {
+        const uri = vscode.window.activeTextEditor?.document.uri;
+        const folder = uri ? vscode.workspace.getWorkspaceFolder(uri) : undefined;
+        // Editors outside the workspace keep the previous folder active
+        const executor = folder ? this.get(folder) : this._active && this.all.includes(this._active) ? this._active : this.all[0];
+        if (executor !== this._active) {
+            this._active = executor;
+            this._onDidChangeActive.fire(executor);
+        }
+    }
+}